@@ -0,0 +1,45 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it } from "vitest";
+import { T1, change, push, startServer, stopServers, task } from "./test-server.mjs";
+
+afterEach(stopServers);
+
+describe("GET /calendar.ics", () => {
+  it("publie les échéances en VEVENT, sans la corbeille ni les pierres tombales", async () => {
+    const baseUrl = await startServer();
+    await push(baseUrl, [
+      change("task_meeting", task("Réunion, budget", { dueDate: "2026-10-20T00:00:00.000Z", dueTime: "14:30", reminderOffset: 15 })),
+      change("task_allday", task("Inventaire", { dueDate: "2026-10-21T00:00:00.000Z" })),
+      change("task_undated", task("Sans échéance")),
+      change("task_trashed", task("Supprimée", { dueDate: "2026-10-22T00:00:00.000Z", deletedAt: "2026-10-02T09:00:00.000Z" })),
+      { id: "task_gone", fields: {}, fieldTimes: {}, deletedAt: T1 }
+    ]);
+
+    const response = await fetch(`${baseUrl}/calendar.ics`);
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("text/calendar; charset=utf-8");
+    expect(body.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+    expect(body.match(/^BEGIN:VEVENT$/gm)).toHaveLength(2);
+    expect(body).toContain("SUMMARY:Réunion\\, budget\r\n");
+    expect(body).toContain("DTSTART:20261020T143000\r\nDURATION:PT30M\r\n");
+    expect(body).toContain("TRIGGER;RELATED=START:-PT15M\r\n");
+    expect(body).toContain("DTSTART;VALUE=DATE:20261021\r\nDTEND;VALUE=DATE:20261022\r\n");
+    expect(body).not.toMatch(/Sans échéance|Supprimée|task_gone/);
+  });
+
+  it("publie toutes les tâches en VTODO sur demande", async () => {
+    const baseUrl = await startServer();
+    await push(baseUrl, [
+      change("task_done", task("Payer le loyer", { status: "done", completedAt: "2026-10-03T08:00:00.000Z" })),
+      change("task_undated", task("Sans échéance"))
+    ]);
+
+    const body = await fetch(`${baseUrl}/calendar.ics?component=VTODO`).then(response => response.text());
+
+    expect(body.match(/^BEGIN:VTODO$/gm)).toHaveLength(2);
+    expect(body).toContain("STATUS:COMPLETED\r\nCOMPLETED:20261003T080000Z\r\n");
+    expect((await fetch(`${baseUrl}/calendar.ics?component=VJOURNAL`)).status).toBe(400);
+  });
+});
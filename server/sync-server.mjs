@@ -0,0 +1,225 @@
+// Serveur de synchronisation de référence, sans dépendance : node server/sync-server.mjs
+// Variables : PORT (8787), SYNC_DATA_FILE (server/data/tasks.json, vide = en mémoire),
+// SYNC_ALLOWED_ORIGIN (*). Protocole décrit dans src/storage/syncProtocol.ts.
+// GET /calendar.ics : abonnement iCalendar aux tâches synchronisées (VEVENT, ou VTODO avec ?component=VTODO).
+import { createServer } from "node:http";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { toICalendar } from "../src/utils/icalendarFormat.mjs";
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+  }
+}
+
+const isRecord = (value) => typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Même règle que le client : champ par champ, le plus récent l'emporte ; une pierre tombale
+// ne cède que devant une tâche recréée après elle (createdAt renvoyé plus tard)
+const recreatedAt = (change) => change.fieldTimes.createdAt ?? 0;
+
+function mergeChange(current, incoming) {
+  const deletedAt = Math.max(current.deletedAt ?? 0, incoming.deletedAt ?? 0);
+  if (deletedAt > 0 && Math.max(recreatedAt(current), recreatedAt(incoming)) <= deletedAt) {
+    return { ...current, fields: {}, fieldTimes: {}, deletedAt };
+  }
+
+  const fields = {};
+  const fieldTimes = {};
+  for (const change of [current, incoming]) {
+    for (const [field, value] of Object.entries(change.fields)) {
+      const time = change.fieldTimes[field] ?? 0;
+      if (deletedAt > 0 && time <= deletedAt) continue;
+      const currentTime = fieldTimes[field];
+      if (
+        currentTime === undefined ||
+        time > currentTime ||
+        (time === currentTime && JSON.stringify(value) > JSON.stringify(fields[field]))
+      ) {
+        fields[field] = value;
+        fieldTimes[field] = time;
+      }
+    }
+  }
+  const merged = { ...current, fields, fieldTimes };
+  delete merged.deletedAt;
+  return merged;
+}
+
+function validateChange(change) {
+  if (
+    !isRecord(change) ||
+    typeof change.id !== "string" ||
+    !change.id ||
+    !isRecord(change.fields) ||
+    !isRecord(change.fieldTimes) ||
+    Object.values(change.fieldTimes).some(time => !Number.isFinite(time)) ||
+    (change.deletedAt !== undefined && !Number.isFinite(change.deletedAt))
+  ) {
+    throw new HttpError(400, "modification invalide");
+  }
+  return change;
+}
+
+export function createSyncStore(initial = { revision: 0, records: {} }) {
+  const state = structuredClone(initial);
+
+  return {
+    get state() {
+      return state;
+    },
+
+    // Applique les modifications puis renvoie tout ce qui a changé depuis `since`,
+    // ainsi que l'état fusionné des tâches envoyées (pierres tombales comprises)
+    sync(since, changes) {
+      const touched = new Set();
+      for (const change of changes.map(validateChange)) {
+        const current = state.records[change.id] ?? { id: change.id, fields: {}, fieldTimes: {}, revision: 0 };
+        const merged = mergeChange(current, change);
+        touched.add(change.id);
+        if (JSON.stringify(merged) === JSON.stringify(current)) continue;
+
+        state.revision += 1;
+        state.records[change.id] = { ...merged, revision: state.revision };
+      }
+
+      const records = Object.values(state.records).filter(record => record.revision > since || touched.has(record.id));
+      return { revision: state.revision, records, changed: touched.size > 0 };
+    }
+  };
+}
+
+// Enregistrement synchronisé (JSON : dates en ISO, valeur retirée = null) vers la forme lue par toICalendar
+function toCalendarTask(record) {
+  const { fields } = record;
+  const updatedAt = new Date(Math.max(0, ...Object.values(record.fieldTimes)));
+  return {
+    id: record.id,
+    title: String(fields.title ?? ""),
+    description: fields.description ?? undefined,
+    tags: Array.isArray(fields.tags) ? fields.tags : [],
+    priority: fields.priority,
+    status: fields.status,
+    dueDate: fields.dueDate ? new Date(fields.dueDate) : undefined,
+    dueTime: fields.dueTime ?? undefined,
+    reminderOffset: Number.isInteger(fields.reminderOffset) ? fields.reminderOffset : undefined,
+    completedAt: fields.completedAt ? new Date(fields.completedAt) : undefined,
+    createdAt: fields.createdAt ? new Date(fields.createdAt) : updatedAt,
+    updatedAt
+  };
+}
+
+// Flux iCalendar, au format de l'export de l'application ; ni pierres tombales ni corbeille
+export function toCalendarFeed(records, component = "VEVENT") {
+  const tasks = records
+    .filter(record => record.deletedAt === undefined && record.fields.deletedAt == null)
+    .map(toCalendarTask);
+  // Fréquence de rafraîchissement suggérée aux agendas abonnés
+  return toICalendar(tasks, component, ["REFRESH-INTERVAL;VALUE=DURATION:PT15M", "X-PUBLISHED-TTL:PT15M"]);
+}
+
+async function loadState(dataFile) {
+  try {
+    return JSON.parse(await readFile(dataFile, "utf8"));
+  } catch (error) {
+    if (error.code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+// Écriture atomique : fichier temporaire puis renommage
+async function saveState(dataFile, state) {
+  await mkdir(dirname(dataFile), { recursive: true });
+  const temporary = `${dataFile}.tmp`;
+  await writeFile(temporary, JSON.stringify(state));
+  await rename(temporary, dataFile);
+}
+
+async function readBody(request) {
+  let size = 0;
+  const chunks = [];
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "requête trop volumineuse");
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "JSON illisible");
+  }
+}
+
+export async function createSyncServer({ dataFile, allowedOrigin = "*" } = {}) {
+  const store = createSyncStore(dataFile ? await loadState(dataFile) : undefined);
+  let saving = Promise.resolve();
+
+  const send = (response, status, body, contentType = "application/json; charset=utf-8") => {
+    response.writeHead(status, {
+      "Content-Type": contentType,
+      "Access-Control-Allow-Origin": allowedOrigin,
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type"
+    });
+    response.end(body === undefined || typeof body === "string" ? body : JSON.stringify(body));
+  };
+
+  return createServer(async (request, response) => {
+    try {
+      const url = new URL(request.url ?? "/", "http://localhost");
+
+      if (request.method === "OPTIONS") return send(response, 204);
+      if (url.pathname === "/health") return send(response, 200, { ok: true, revision: store.state.revision });
+      if (url.pathname === "/calendar.ics") {
+        if (request.method !== "GET") throw new HttpError(405, "méthode non autorisée");
+        const component = (url.searchParams.get("component") ?? "VEVENT").toUpperCase();
+        if (component !== "VEVENT" && component !== "VTODO") throw new HttpError(400, "component : VEVENT ou VTODO");
+        return send(response, 200, toCalendarFeed(Object.values(store.state.records), component), "text/calendar; charset=utf-8");
+      }
+      if (url.pathname !== "/sync") throw new HttpError(404, "introuvable");
+
+      let since = Number(url.searchParams.get("since") ?? 0);
+      let changes = [];
+      if (request.method === "POST") {
+        const body = await readBody(request);
+        if (!isRecord(body) || !Array.isArray(body.changes)) throw new HttpError(400, "{ since, changes } attendu");
+        since = Number(body.since ?? 0);
+        changes = body.changes;
+      } else if (request.method !== "GET") {
+        throw new HttpError(405, "méthode non autorisée");
+      }
+      if (!Number.isInteger(since) || since < 0) throw new HttpError(400, "révision invalide");
+
+      const { revision, records, changed } = store.sync(since, changes);
+      if (changed && dataFile) {
+        saving = saving.catch(() => {}).then(() => saveState(dataFile, store.state));
+        await saving;
+      }
+      send(response, 200, { revision, records });
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) console.error(error);
+      send(response, status, { error: error.message });
+    }
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT ?? 8787);
+  const defaultFile = fileURLToPath(new URL("./data/tasks.json", import.meta.url));
+  const dataFile = process.env.SYNC_DATA_FILE ?? defaultFile;
+
+  const server = await createSyncServer({
+    dataFile: dataFile || undefined,
+    allowedOrigin: process.env.SYNC_ALLOWED_ORIGIN ?? "*"
+  });
+  server.listen(port, () => {
+    console.log(`Serveur de synchronisation sur http://localhost:${port}/sync (${dataFile || "en mémoire"})`);
+  });
+}
@@ -0,0 +1,133 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { T1, change, push, startServer, stopServers, task } from "./test-server.mjs";
+
+afterEach(stopServers);
+
+const T2 = T1 + 60_000;
+const T3 = T2 + 60_000;
+
+// Client minimal : chaque appareil garde la révision de son dernier échange
+function createClient(baseUrl) {
+  let since = 0;
+  return {
+    async sync(changes = []) {
+      const { revision, records } = await push(baseUrl, changes, since);
+      since = revision;
+      return Object.fromEntries(records.map(record => [record.id, record]));
+    }
+  };
+}
+
+describe("POST /sync entre deux appareils", () => {
+  it("transmet à l'un les tâches envoyées par l'autre, une seule fois", async () => {
+    const baseUrl = await startServer();
+    const laptop = createClient(baseUrl);
+    const phone = createClient(baseUrl);
+
+    await laptop.sync([change("task_a", task("Courses"))]);
+    const pulled = await phone.sync();
+    expect(pulled.task_a.fields).toMatchObject({ title: "Courses", status: "todo" });
+
+    await phone.sync([change("task_a", { status: "done" }, T2)]);
+    const update = await laptop.sync();
+    expect(Object.keys(update)).toEqual(["task_a"]);
+    expect(update.task_a.fields).toMatchObject({ title: "Courses", status: "done" });
+
+    expect(await laptop.sync()).toEqual({});
+    expect(await phone.sync()).toEqual({});
+  });
+
+  it("fusionne champ par champ, la modification la plus récente l'emportant quel que soit l'ordre d'arrivée", async () => {
+    const baseUrl = await startServer();
+    const laptop = createClient(baseUrl);
+    const phone = createClient(baseUrl);
+    await laptop.sync([change("task_a", task("Courses"))]);
+    await phone.sync();
+
+    // Le téléphone, resté hors ligne, envoie sa modification après celle de l'ordinateur, plus récente
+    await laptop.sync([change("task_a", { title: "Courses du samedi", priority: "high" }, T3)]);
+    const merged = await phone.sync([change("task_a", { title: "Courses bio", tags: ["maison"] }, T2)]);
+
+    expect(merged.task_a.fields).toMatchObject({ title: "Courses du samedi", priority: "high", tags: ["maison"] });
+    expect((await laptop.sync()).task_a.fields).toEqual(merged.task_a.fields);
+  });
+
+  it("départage deux modifications simultanées de la même façon sur les deux appareils", async () => {
+    const baseUrl = await startServer();
+    const laptop = createClient(baseUrl);
+    const phone = createClient(baseUrl);
+    await laptop.sync([change("task_a", task("Courses"))]);
+
+    await laptop.sync([change("task_a", { title: "Alpha" }, T2)]);
+    await phone.sync([change("task_a", { title: "Bravo" }, T2)]);
+
+    expect((await laptop.sync()).task_a.fields.title).toBe("Bravo");
+    expect((await createClient(baseUrl).sync()).task_a.fields.title).toBe("Bravo");
+  });
+
+  it("garde la pierre tombale d'une tâche supprimée, même face à une modification plus récente", async () => {
+    const baseUrl = await startServer();
+    const laptop = createClient(baseUrl);
+    const phone = createClient(baseUrl);
+    await laptop.sync([change("task_a", task("Courses"))]);
+    await phone.sync();
+
+    await laptop.sync([{ id: "task_a", fields: {}, fieldTimes: {}, deletedAt: T2 }]);
+    const afterEdit = await phone.sync([change("task_a", { title: "Courses bio" }, T3)]);
+
+    expect(afterEdit.task_a).toMatchObject({ fields: {}, fieldTimes: {}, deletedAt: T2 });
+    expect((await laptop.sync()).task_a).toBeUndefined();
+    expect((await createClient(baseUrl).sync()).task_a).toMatchObject({ fields: {}, deletedAt: T2 });
+  });
+
+  it("rend la tâche recréée après sa suppression (suppression annulée), sans reprendre les champs antérieurs", async () => {
+    const baseUrl = await startServer();
+    const laptop = createClient(baseUrl);
+    const phone = createClient(baseUrl);
+    await laptop.sync([change("task_a", task("Courses", { description: "Lait" }))]);
+    await phone.sync();
+
+    await laptop.sync([{ id: "task_a", fields: {}, fieldTimes: {}, deletedAt: T2 }]);
+    const revived = await laptop.sync([change("task_a", task("Courses"), T3)]);
+    expect(revived.task_a.deletedAt).toBeUndefined();
+    expect(revived.task_a.fields).toMatchObject({ title: "Courses", createdAt: "2026-10-01T09:00:00.000Z" });
+    expect(revived.task_a.fields.description).toBeUndefined();
+
+    // Une pierre tombale antérieure arrivée en retard ne la supprime pas de nouveau
+    const late = await phone.sync([{ id: "task_a", fields: {}, fieldTimes: {}, deletedAt: T2 }]);
+    expect(late.task_a.fields.title).toBe("Courses");
+    expect(late.task_a.deletedAt).toBeUndefined();
+  });
+
+  it("retrouve tâches et pierres tombales après un redémarrage avec fichier de données", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "sync-server-"));
+    try {
+      const dataFile = join(directory, "tasks.json");
+      const first = createClient(await startServer({ dataFile }));
+      await first.sync([change("task_a", task("Courses")), change("task_b", task("Banque"))]);
+      await first.sync([{ id: "task_b", fields: {}, fieldTimes: {}, deletedAt: T2 }]);
+
+      const restarted = await createClient(await startServer({ dataFile })).sync();
+      expect(restarted.task_a.fields.title).toBe("Courses");
+      expect(restarted.task_b).toMatchObject({ fields: {}, deletedAt: T2 });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("refuse une modification mal formée sans rien enregistrer", async () => {
+    const baseUrl = await startServer();
+    const response = await fetch(`${baseUrl}/sync`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ since: 0, changes: [change("task_a", task("Courses")), { id: "", fields: {} }] })
+    });
+
+    expect(response.status).toBe(400);
+    expect(await createClient(baseUrl).sync()).toEqual({});
+  });
+});
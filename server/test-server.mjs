@@ -0,0 +1,43 @@
+// Outils communs aux tests du serveur : serveur sur un port libre, envoi de modifications
+import { createSyncServer } from "./sync-server.mjs";
+
+const servers = [];
+
+// Serveur sur un port libre choisi par le système, en mémoire sauf dataFile
+export async function startServer(options) {
+  const server = await createSyncServer(options);
+  await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+  servers.push(server);
+  return `http://127.0.0.1:${server.address().port}`;
+}
+
+// À appeler après chaque test
+export const stopServers = () =>
+  Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+
+export const push = (baseUrl, changes, since = 0) =>
+  fetch(`${baseUrl}/sync`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ since, changes })
+  }).then(response => response.json());
+
+export const T1 = Date.parse("2026-10-01T09:00:00.000Z");
+
+// Enregistrement tel qu'envoyé par diffTask (src/storage/syncProtocol.ts) : tous les champs à la même date
+export const change = (id, fields, time = T1) => ({
+  id,
+  fields,
+  fieldTimes: Object.fromEntries(Object.keys(fields).map(field => [field, time]))
+});
+
+export const task = (title, extra = {}) => ({
+  listId: "default",
+  title,
+  status: "todo",
+  priority: "normal",
+  tags: [],
+  subtasks: [],
+  createdAt: "2026-10-01T09:00:00.000Z",
+  ...extra
+});
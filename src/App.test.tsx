@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { render, screen } from "@testing-library/react";
+import App from "./App";
+import { I18nProvider } from "./i18n/I18nProvider";
+import { encodeTasks } from "./storage/taskCodec";
+import { DISPLAY_MODES, applyDisplayMode, axeViolations } from "./test/axe";
+import { makeTask } from "./test/fixtures";
+
+describe.each(DISPLAY_MODES)("App (thème $theme, animations $motion)", (mode) => {
+  // axe parcourt toute l'application : plus lent que le délai par défaut
+  it("n'a aucune violation WCAG AA", { timeout: 30_000 }, async () => {
+    applyDisplayMode(mode);
+    window.localStorage.setItem("tasks", encodeTasks([
+      makeTask({ title: "Préparer la réunion", tags: ["travail"], dueDate: new Date("2026-11-02T00:00:00.000Z") }),
+      makeTask({ title: "Payer la facture", status: "done", completedAt: new Date("2026-10-02T09:00:00.000Z") })
+    ]));
+
+    const { container } = render(<I18nProvider><App /></I18nProvider>);
+    await screen.findByText("Préparer la réunion");
+
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it("applique le mode d'affichage enregistré", async () => {
+    applyDisplayMode(mode);
+    render(<I18nProvider><App /></I18nProvider>);
+
+    expect(document.documentElement.dataset.theme).toBe(mode.theme);
+    expect(document.documentElement.dataset.motion).toBe(mode.motion);
+    expect(screen.getByRole("button", { pressed: mode.theme === "contrast", name: /contraste/i })).toBeTruthy();
+  });
+});
@@ -1,326 +1,526 @@
-import { useState, useEffect } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useTasks } from './hooks/useTasks';
+import { useTagColors } from './hooks/useTagColors';
+import { useReminders } from './hooks/useReminders';
+import { useNow } from './hooks/useNow';
+import { useSearchParam } from './hooks/useSearchParam';
+import { useLocalStorage } from './hooks/useLocalStorage';
+import { useLists } from './hooks/useLists';
+import { useActivityLog } from './hooks/useActivityLog';
+import { useServiceWorker } from './hooks/useServiceWorker';
+import { usePersistentStorage } from './hooks/usePersistentStorage';
+import { useSelection } from './hooks/useSelection';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useI18n } from './hooks/useI18n';
+import { useDisplayPreferences } from './hooks/useDisplayPreferences';
+import { useAnnouncer } from './hooks/useAnnouncer';
+import { useTimer } from './hooks/useTimer';
+import { LOCALES, LOCALE_NAMES, type Locale } from './i18n/i18n';
+import { collectTags } from './utils/tags';
+import { dueUrgency } from './utils/dueDates';
+import { ALL_LISTS } from './utils/lists';
+import { DEFAULT_BOARD_COLUMNS, isCompleted, normalizeBoardColumns, type BoardColumn } from './utils/status';
+import { DEFAULT_HOUSEKEEPING, isArchived, normalizeHousekeeping, type HousekeepingSettings } from './utils/trash';
+import { DEFAULT_SHORTCUTS, normalizeShortcuts, type ShortcutBindings } from './utils/shortcuts';
+import { styles } from './styles';
+import type { TaskFormData } from './types/Task';
+import { TaskForm } from './components/TaskForm';
+import { TaskFilters } from './components/TaskFilters';
+import { SearchBar } from './components/SearchBar';
+import { TaskItem } from './components/TaskItem';
+import { TaskList } from './components/TaskList';
+import { ImportExportPanel } from './components/ImportExportPanel';
+import { SyncPanel } from './components/SyncPanel';
+import { ReminderToasts } from './components/ReminderToasts';
+import { UpdatePrompt } from './components/UpdatePrompt';
+import { BoardView } from './components/BoardView';
+import { CalendarView } from './components/CalendarView';
+import { ListSidebar } from './components/ListSidebar';
+import { BulkActionBar } from './components/BulkActionBar';
+import { ArchiveView } from './components/ArchiveView';
+import { TrashView } from './components/TrashView';
+import { AnalyticsView } from './components/AnalyticsView';
+import { CommandPalette, type PaletteCommand } from './components/CommandPalette';
+import { ShortcutHelp } from './components/ShortcutHelp';
+import { RunningTimerBar, type TimeTracking } from './components/TimeTracker';
+import { TimeReport } from './components/TimeReport';
 
-// Types
-interface Task {
-  id: string;
-  title: string;
-  description: string;
-  completed: boolean;
-  createdAt: Date;
-}
+type TaskView = 'list' | 'board' | 'calendar' | 'stats' | 'archive' | 'trash';
 
-// Hook localStorage
-function useLocalStorage(key: string, initialValue: Task[]) {
-  const [value, setValue] = useState(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item).map((task: any) => ({
-        ...task,
-        createdAt: new Date(task.createdAt)
-      })) : initialValue;
-    } catch {
-      return initialValue;
-    }
-  });
+const VIEWS: TaskView[] = ['list', 'board', 'calendar', 'stats', 'archive', 'trash'];
 
-  useEffect(() => {
-    try {
-      window.localStorage.setItem(key, JSON.stringify(value));
-    } catch (error) {
-      console.error('Erreur localStorage:', error);
-    }
-  }, [key, value]);
+const boardColumnsSerializer = {
+  parse: (raw: string) => normalizeBoardColumns(JSON.parse(raw)),
+  stringify: (columns: BoardColumn[]) => JSON.stringify(columns)
+};
 
-  return [value, setValue] as const;
-}
+const housekeepingSerializer = {
+  parse: (raw: string) => normalizeHousekeeping(JSON.parse(raw)),
+  stringify: (settings: HousekeepingSettings) => JSON.stringify(settings)
+};
 
-// Styles CSS en objet
-const styles = {
-  app: {
-    minHeight: '100vh',
-    background: 'linear-gradient(135deg, #050507 0%, #0a0a0f 50%, #1a1a2e 100%)',
-    color: '#00d4ff',
-    fontFamily: 'Inter, sans-serif',
-    padding: '20px'
-  },
-  header: {
-    textAlign: 'center' as const,
-    marginBottom: '30px'
-  },
-  title: {
-    fontSize: '2.5rem',
-    color: '#00d4ff',
-    textShadow: '0 0 10px #00d4ff',
-    marginBottom: '10px'
-  },
-  container: {
-    maxWidth: '1200px',
-    margin: '0 auto',
-    display: 'grid',
-    gridTemplateColumns: '1fr 2fr',
-    gap: '30px'
-  },
-  form: {
-    background: 'rgba(255,255,255,0.03)',
-    backdropFilter: 'blur(20px)',
-    border: '1px solid rgba(255,255,255,0.1)',
-    borderRadius: '20px',
-    padding: '25px',
-    boxShadow: '0 0 20px rgba(0,212,255,0.2)'
-  },
-  input: {
-    width: '100%',
-    padding: '12px 16px',
-    background: 'rgba(0,0,0,0.3)',
-    border: '2px solid rgba(255,255,255,0.1)',
-    borderRadius: '12px',
-    color: '#00d4ff',
-    fontSize: '16px',
-    marginBottom: '15px'
-  },
-  button: {
-    width: '100%',
-    padding: '12px 20px',
-    background: 'linear-gradient(45deg, #00d4ff, #b834ff)',
-    border: 'none',
-    borderRadius: '12px',
-    color: 'white',
-    fontSize: '16px',
-    fontWeight: 'bold',
-    cursor: 'pointer',
-    transition: 'all 0.3s ease'
-  },
-  taskList: {
-    display: 'flex',
-    flexDirection: 'column' as const,
-    gap: '15px'
-  },
-  task: {
-    background: 'rgba(255,255,255,0.03)',
-    backdropFilter: 'blur(20px)',
-    border: '1px solid rgba(255,255,255,0.1)',
-    borderRadius: '15px',
-    padding: '20px',
-    transition: 'all 0.3s ease'
-  },
-  taskCompleted: {
-    opacity: 0.6,
-    textDecoration: 'line-through'
-  },
-  taskTitle: {
-    color: 'white',
-    fontSize: '1.2rem',
-    fontWeight: 'bold',
-    marginBottom: '8px'
-  },
-  taskDesc: {
-    color: '#00d4ff',
-    marginBottom: '15px',
-    lineHeight: '1.6'
-  },
-  taskActions: {
-    display: 'flex',
-    gap: '10px',
-    justifyContent: 'flex-end'
-  },
-  deleteBtn: {
-    padding: '8px 16px',
-    background: 'rgba(255,71,87,0.2)',
-    color: '#ff4757',
-    border: '1px solid #ff4757',
-    borderRadius: '8px',
-    cursor: 'pointer'
-  },
-  checkbox: {
-    marginRight: '10px',
-    transform: 'scale(1.2)'
-  },
-  filters: {
-    background: 'rgba(255,255,255,0.03)',
-    backdropFilter: 'blur(20px)',
-    border: '1px solid rgba(255,255,255,0.1)',
-    borderRadius: '15px',
-    padding: '20px',
-    marginBottom: '20px'
-  },
-  filterButton: {
-    padding: '8px 16px',
-    background: 'rgba(0,0,0,0.3)',
-    border: '2px solid rgba(255,255,255,0.1)',
-    borderRadius: '8px',
-    color: '#00d4ff',
-    cursor: 'pointer',
-    marginRight: '10px'
-  },
-  filterButtonActive: {
-    background: 'linear-gradient(45deg, #00d4ff, #b834ff)',
-    color: 'white'
-  }
+const shortcutsSerializer = {
+  parse: (raw: string) => normalizeShortcuts(JSON.parse(raw)),
+  stringify: (bindings: ShortcutBindings) => JSON.stringify(bindings)
 };
 
 function App() {
-  const [tasks, setTasks] = useLocalStorage('tasks', []);
-  const [title, setTitle] = useState('');
-  const [description, setDescription] = useState('');
-  const [filter, setFilter] = useState<'all' | 'completed' | 'pending'>('all');
+  const { t, locale, setLocale, compare } = useI18n();
+  const [query, setQuery] = useSearchParam('q');
+  const [syncEndpoint, setSyncEndpoint] = useLocalStorage<string>('syncEndpoint', import.meta.env.VITE_SYNC_URL ?? '');
+  const { lists, activeListId, setActiveListId, createList, updateList, deleteList } = useLists();
+  const activeList = lists.find(list => list.id === activeListId);
+  const [housekeeping, setHousekeeping] = useLocalStorage<HousekeepingSettings>('housekeeping', DEFAULT_HOUSEKEEPING, housekeepingSerializer);
+  const {
+    tasks, allTasks, archivedTasks, trashedTasks, loading, stats, statsByList, filter, criteria, searchTerms, sort,
+    setFilter, updateCriteria, resetCriteria, setSort,
+    createTask, updateTask, toggleTaskComplete, moveTask, reorderTask, rescheduleTask, moveTaskToList,
+    skipOccurrence, deleteTask, importTasks,
+    completeTasks, reopenTasks, deleteTasks, moveTasksToList, tagTasks, rescheduleTasks,
+    restoreTasks, unarchiveTasks, purgeTasks, emptyTrash,
+    setAutoComplete, addSubtask, toggleSubtask, moveSubtask, deleteSubtask,
+    addTimeEntry, updateTimeEntry, deleteTimeEntry,
+    undo, redo, canUndo, canRedo, changedElsewhere, syncStatus, syncNow
+  } = useTasks({
+    query,
+    syncEndpoint,
+    listId: activeListId,
+    lists,
+    defaultSort: activeList?.defaultSort,
+    defaultFilter: activeList?.defaultFilter,
+    housekeeping,
+    locale
+  });
+  const [view, setView] = useLocalStorage<TaskView>('view', 'list');
+  const [boardColumns, setBoardColumns] = useLocalStorage<BoardColumn[]>('boardColumns', DEFAULT_BOARD_COLUMNS, boardColumnsSerializer);
+  const { tagColors, setTagColor } = useTagColors();
+  const availableTags = useMemo(() => collectTags(allTasks.map(task => task.tags), compare), [allTasks, compare]);
+  const { activeReminders, dismiss, snooze, notificationPermission, requestPermission } = useReminders(allTasks);
+  const now = useNow();
+  const { updateAvailable, applyUpdate, dismissUpdate } = useServiceWorker();
+  const { persistence, requestPersistence } = usePersistentStorage();
+  // Corbeille comprise : historique d'activité, chronomètre et doublons à l'import
+  const tasksWithTrash = useMemo(() => [...allTasks, ...trashedTasks], [allTasks, trashedTasks]);
+  // Une tâche supprimée garde sa place dans l'historique
+  const activityLog = useActivityLog(tasksWithTrash, loading);
+  // Sélection limitée aux tâches visibles avec le filtre courant
+  const selection = useSelection(tasks.map(task => task.id));
+  const updateHousekeeping = (changes: Partial<HousekeepingSettings>) => setHousekeeping({ ...housekeeping, ...changes });
+  const [shortcuts, setShortcuts] = useLocalStorage<ShortcutBindings>('shortcuts', DEFAULT_SHORTCUTS, shortcutsSerializer);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [helpOpen, setHelpOpen] = useState(false);
+  // Tâche courante au clavier (vue liste) et demande d'édition envoyée à son TaskItem
+  const [focusedTaskId, setFocusedTaskId] = useState<string | null>(null);
+  const [editRequest, setEditRequest] = useState<{ taskId: string; count: number } | null>(null);
+  const titleRef = useRef<HTMLInputElement>(null);
+  const searchRef = useRef<HTMLInputElement>(null);
+  const { theme, motion, updatePreferences } = useDisplayPreferences();
+  const { announcement, announce } = useAnnouncer();
+  const timer = useTimer((taskId, start, end) => addTimeEntry(taskId, { start, end }));
+  // La tâche chronométrée peut avoir été mise à la corbeille entre-temps
+  const timedTask = timer.running && tasksWithTrash.find(task => task.id === timer.running?.taskId);
+  const timeTracking: TimeTracking = {
+    running: timer.running,
+    onStart: timer.start,
+    onStop: timer.stop,
+    onAdd: addTimeEntry,
+    onUpdate: updateTimeEntry,
+    onDelete: deleteTimeEntry
+  };
+
+  // Création, complétion et suppression sont annoncées aux lecteurs d'écran
+  const handleCreate = (taskData: TaskFormData) => {
+    createTask(taskData);
+    announce(t('announce.created', { title: taskData.title }));
+  };
+
+  const handleToggle = (taskId: string) => {
+    const task = allTasks.find(candidate => candidate.id === taskId);
+    toggleTaskComplete(taskId);
+    if (task) announce(t(isCompleted(task) ? 'announce.reopened' : 'announce.completed', { title: task.title }));
+  };
 
-  // Ajouter une tâche
-  const addTask = () => {
-    if (title.trim()) {
-      const newTask: Task = {
-        id: Date.now().toString(),
-        title: title.trim(),
-        description: description.trim(),
-        completed: false,
-        createdAt: new Date()
-      };
-      setTasks([...tasks, newTask]);
-      setTitle('');
-      setDescription('');
+  const handleDelete = (taskId: string) => {
+    const task = allTasks.find(candidate => candidate.id === taskId);
+    deleteTask(taskId);
+    if (task) announce(t('announce.deleted', { title: task.title }));
+  };
+
+  // Ouvrir une liste applique son tri et son filtre par défaut
+  const selectList = (listId: string, list = lists.find(l => l.id === listId)) => {
+    setActiveListId(listId);
+    if (list) {
+      setSort(list.defaultSort);
+      setFilter(list.defaultFilter);
     }
   };
 
-  // Toggle completion
-  const toggleTask = (id: string) => {
-    setTasks(tasks.map(task => 
-      task.id === id ? { ...task, completed: !task.completed } : task
-    ));
+  const focusedIndex = view === 'list' ? tasks.findIndex(task => task.id === focusedTaskId) : -1;
+  const focusedTask = focusedIndex === -1 ? undefined : tasks[focusedIndex];
+
+  // j / k : tâche suivante / précédente de la liste affichée
+  const moveFocus = (offset: number) => {
+    if (tasks.length === 0) return;
+    const index = focusedIndex === -1
+      ? (offset > 0 ? 0 : tasks.length - 1)
+      : Math.min(tasks.length - 1, Math.max(0, focusedIndex + offset));
+    setView('list');
+    setFocusedTaskId(tasks[index].id);
   };
 
-  // Supprimer une tâche
-  const deleteTask = (id: string) => {
-    setTasks(tasks.filter(task => task.id !== id));
+  const focusSearch = () => {
+    searchRef.current?.focus();
+    searchRef.current?.select();
+  };
+
+  // Depuis la palette : la tâche est rendue visible (recherche et filtres levés au besoin) puis focalisée
+  const openTask = (taskId: string) => {
+    const task = allTasks.find(candidate => candidate.id === taskId);
+    if (!task) return;
+    if (isArchived(task)) {
+      setView('archive');
+      setQuery(task.title);
+      return;
+    }
+    if (!tasks.some(candidate => candidate.id === taskId)) {
+      setQuery('');
+      // Le filtre par défaut de la liste pourrait encore la masquer
+      resetCriteria();
+      setFilter('all');
+      if (activeListId !== ALL_LISTS && task.listId !== activeListId) setActiveListId(task.listId);
+    }
+    setView('list');
+    setFocusedTaskId(taskId);
   };
 
-  // Filtrer les tâches
-  const filteredTasks = tasks.filter(task => {
-    if (filter === 'completed') return task.completed;
-    if (filter === 'pending') return !task.completed;
-    return true;
+  useKeyboardShortcuts(shortcuts, {
+    newTask: () => titleRef.current?.focus(),
+    nextTask: () => moveFocus(1),
+    previousTask: () => moveFocus(-1),
+    toggleTask: () => focusedTask && handleToggle(focusedTask.id),
+    editTask: () => focusedTask && setEditRequest(prev => ({ taskId: focusedTask.id, count: (prev?.count ?? 0) + 1 })),
+    deleteTask: () => {
+      if (!focusedTask) return;
+      handleDelete(focusedTask.id);
+      // Le focus passe à la voisine plutôt que de retomber en haut de la page
+      setFocusedTaskId((tasks[focusedIndex + 1] ?? tasks[focusedIndex - 1])?.id ?? null);
+    },
+    search: focusSearch,
+    filterAll: () => setFilter('all'),
+    filterPending: () => setFilter('pending'),
+    filterCompleted: () => setFilter('completed'),
+    commandPalette: () => setPaletteOpen(true),
+    shortcutHelp: () => setHelpOpen(true)
   });
 
-  // Stats
-  const stats = {
-    total: tasks.length,
-    completed: tasks.filter(t => t.completed).length,
-    pending: tasks.filter(t => !t.completed).length
-  };
+  const paletteCommands: PaletteCommand[] = [
+    { id: 'new-task', label: t('palette.newTask'), binding: shortcuts.newTask, run: () => titleRef.current?.focus() },
+    { id: 'search', label: t('palette.search'), binding: shortcuts.search, run: focusSearch },
+    { id: 'undo', label: t('app.undo'), binding: 'Mod+z', run: undo },
+    { id: 'redo', label: t('app.redo'), binding: 'Mod+Shift+z', run: redo },
+    { id: 'filter-all', label: t('palette.filter', { label: t('filter.all') }), binding: shortcuts.filterAll, run: () => setFilter('all') },
+    { id: 'filter-pending', label: t('palette.filter', { label: t('filter.pending') }), binding: shortcuts.filterPending, run: () => setFilter('pending') },
+    { id: 'filter-completed', label: t('palette.filter', { label: t('filter.completed') }), binding: shortcuts.filterCompleted, run: () => setFilter('completed') },
+    { id: 'reset-filters', label: t('palette.resetFilters'), run: resetCriteria },
+    ...VIEWS.map(value => ({
+      id: `view-${value}`,
+      label: t('palette.view', { label: t(`view.${value}`) }),
+      run: () => setView(value)
+    })),
+    { id: 'list-all', label: t('palette.allLists'), run: () => selectList(ALL_LISTS) },
+    ...lists.map(list => ({ id: `list-${list.id}`, label: t('palette.openList', { name: list.name }), run: () => selectList(list.id, list) })),
+    { id: 'shortcuts', label: t('palette.shortcuts'), binding: shortcuts.shortcutHelp, run: () => setHelpOpen(true) },
+    ...(timer.running ? [{ id: 'stop-timer', label: t('palette.stopTimer', { title: timedTask?.title ?? '' }), run: timer.stop }] : []),
+    ...LOCALES.filter(value => value !== locale).map(value => ({
+      id: `language-${value}`,
+      label: t('palette.language', { name: LOCALE_NAMES[value] }),
+      run: () => setLocale(value)
+    }))
+  ];
+
+  // Annuler / rétablir : Ctrl+Z et Ctrl+Shift+Z (hors champs de saisie)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   return (
     <div style={styles.app}>
       <header style={styles.header}>
-        <h1 style={styles.title}>🚀 Gestionnaire de Tâches</h1>
-        <p>Total: {stats.total} | Terminées: {stats.completed} | En cours: {stats.pending}</p>
+        <h1 style={styles.title}>🚀 {t('app.title')}</h1>
+        <p>
+          {activeList ? `📁 ${activeList.name}` : t('app.allLists')} — {t('app.summary', {
+            total: stats.total,
+            completed: stats.completed,
+            pending: stats.pending,
+            inProgress: stats.byStatus.in_progress,
+            blocked: stats.byStatus.blocked
+          })}
+          {stats.subtasks.total > 0 && t('app.subtasksSummary', { completed: stats.subtasks.completed, total: stats.subtasks.total })}
+        </p>
+        <p>
+          {t('app.dueSummary', { overdue: stats.overdue, today: stats.dueToday, week: stats.dueThisWeek })}
+        </p>
+        {timer.running && <RunningTimerBar timer={timer.running} title={timedTask?.title ?? ''} onStop={timer.stop} />}
+        <button style={styles.historyButton} onClick={undo} disabled={!canUndo} title={t('app.undoTitle')}>
+          {t('app.undo')}
+        </button>
+        <button style={styles.historyButton} onClick={redo} disabled={!canRedo} title={t('app.redoTitle')}>
+          {t('app.redo')}
+        </button>
+        <button style={styles.historyButton} onClick={() => setPaletteOpen(true)} title={t('app.commandsTitle')}>
+          {t('app.commands')}
+        </button>
+        <button style={styles.historyButton} onClick={() => setHelpOpen(true)} title={t('app.shortcutsTitle')}>
+          {t('app.shortcuts')}
+        </button>
+        {notificationPermission === 'default' && (
+          <button style={styles.historyButton} onClick={requestPermission}>
+            {t('app.enableNotifications')}
+          </button>
+        )}
+        {persistence === 'best-effort' && (
+          <button
+            style={styles.historyButton}
+            onClick={requestPersistence}
+            title={t('app.persistTitle')}
+          >
+            {t('app.persist')}
+          </button>
+        )}
+        <select
+          style={{ ...styles.select, marginTop: '10px' }}
+          value={locale}
+          onChange={(e) => setLocale(e.target.value as Locale)}
+          aria-label={t('app.language')}
+        >
+          {LOCALES.map(value => (
+            <option key={value} value={value} lang={value}>🌐 {LOCALE_NAMES[value]}</option>
+          ))}
+        </select>
+        <span role="group" aria-label={t('app.display')}>
+          <button
+            style={styles.historyButton}
+            onClick={() => updatePreferences({ theme: theme === 'contrast' ? 'neon' : 'contrast' })}
+            aria-pressed={theme === 'contrast'}
+          >
+            {t('app.highContrast')}
+          </button>
+          <button
+            style={styles.historyButton}
+            onClick={() => updatePreferences({ motion: motion === 'reduced' ? 'full' : 'reduced' })}
+            aria-pressed={motion === 'reduced'}
+          >
+            {t('app.reducedMotion')}
+          </button>
+        </span>
       </header>
 
       <div style={styles.container}>
-        {/* Formulaire */}
-        <div style={styles.form}>
-          <h2 style={{color: '#b834ff', marginBottom: '20px'}}>➕ Nouvelle Tâche</h2>
-          
-          <input
-            style={styles.input}
-            type="text"
-            placeholder="Titre de la tâche..."
-            value={title}
-            onChange={(e) => setTitle(e.target.value)}
-            onKeyPress={(e) => e.key === 'Enter' && addTask()}
-          />
-          
-          <textarea
-            style={{...styles.input, minHeight: '80px', resize: 'vertical'}}
-            placeholder="Description (optionnelle)..."
-            value={description}
-            onChange={(e) => setDescription(e.target.value)}
+        <div>
+          <ListSidebar
+            lists={lists}
+            activeListId={activeListId}
+            statsByList={statsByList}
+            onSelect={selectList}
+            onCreate={(name, color) => {
+              const list = createList(name, color);
+              selectList(list.id, list);
+            }}
+            onUpdate={updateList}
+            onDelete={deleteList}
           />
-          
-          <button 
-            style={styles.button}
-            onClick={addTask}
-            onMouseOver={(e) => e.currentTarget.style.transform = 'translateY(-2px)'}
-            onMouseOut={(e) => e.currentTarget.style.transform = 'translateY(0)'}
-          >
-            Ajouter la tâche
-          </button>
+
+          {/* Formulaire */}
+          <TaskForm onSubmit={handleCreate} availableTags={availableTags} tagColors={tagColors} titleRef={titleRef} />
         </div>
 
         {/* Liste des tâches */}
         <div>
-          {/* Filtres */}
-          <div style={styles.filters}>
-            <h3 style={{color: '#b834ff', marginBottom: '15px'}}>🔍 Filtres</h3>
-            
-            {(['all', 'pending', 'completed'] as const).map(filterType => (
+          {/* Recherche et filtres */}
+          <div style={{ marginBottom: '20px' }}>
+            <SearchBar query={query} onQueryChange={setQuery} inputRef={searchRef} />
+          </div>
+
+          <TaskFilters
+            criteria={criteria}
+            sort={sort}
+            tagCounts={stats.byTag}
+            tagColors={tagColors}
+            onFilterChange={setFilter}
+            onCriteriaChange={updateCriteria}
+            onReset={resetCriteria}
+            onSortChange={setSort}
+            onTagColorChange={setTagColor}
+          />
+
+          <ImportExportPanel allTasks={allTasks} visibleTasks={tasks} existingTasks={tasksWithTrash} onImport={importTasks} />
+
+          <SyncPanel
+            endpoint={syncEndpoint}
+            status={syncStatus}
+            onEndpointChange={setSyncEndpoint}
+            onSyncNow={syncNow}
+          />
+
+          <div style={{ ...styles.filterRow, marginBottom: '15px' }} role="group" aria-label={t('app.views')}>
+            {VIEWS.map(value => (
               <button
-                key={filterType}
-                style={{
-                  ...styles.filterButton,
-                  ...(filter === filterType ? styles.filterButtonActive : {})
-                }}
-                onClick={() => setFilter(filterType)}
+                key={value}
+                style={{ ...styles.filterButton, ...(view === value ? styles.filterButtonActive : {}) }}
+                onClick={() => setView(value)}
+                aria-pressed={view === value}
               >
-                {filterType === 'all' ? 'Toutes' : 
-                 filterType === 'pending' ? 'En cours' : 'Terminées'}
+                {value === 'archive' ? t('view.withCount', { label: t('view.archive'), count: archivedTasks.length }) :
+                 value === 'trash' ? t('view.withCount', { label: t('view.trash'), count: trashedTasks.length }) :
+                 t(`view.${value}`)}
               </button>
             ))}
           </div>
 
           {/* Tâches */}
-          <div style={styles.taskList}>
-            {filteredTasks.length === 0 ? (
-              <div style={{
-                ...styles.task,
-                textAlign: 'center',
-                color: '#b834ff',
-                fontSize: '1.2rem'
-              }}>
-                {filter === 'all' ? '📝 Aucune tâche créée' :
-                 filter === 'pending' ? '✅ Aucune tâche en cours' :
-                 '🎉 Aucune tâche terminée'}
-              </div>
-            ) : (
-              filteredTasks.map(task => (
-                <div 
-                  key={task.id} 
-                  style={{
-                    ...styles.task,
-                    ...(task.completed ? styles.taskCompleted : {})
-                  }}
-                >
-                  <div style={{display: 'flex', alignItems: 'flex-start', marginBottom: '15px'}}>
-                    <input
-                      type="checkbox"
-                      style={styles.checkbox}
-                      checked={task.completed}
-                      onChange={() => toggleTask(task.id)}
-                    />
-                    <div style={{flex: 1}}>
-                      <div style={styles.taskTitle}>{task.title}</div>
-                      {task.description && (
-                        <div style={styles.taskDesc}>{task.description}</div>
-                      )}
-                      <small style={{color: '#666'}}>
-                        Créée le {task.createdAt.toLocaleDateString()}
-                      </small>
-                    </div>
-                  </div>
-                  
-                  <div style={styles.taskActions}>
-                    <button
-                      style={styles.deleteBtn}
-                      onClick={() => deleteTask(task.id)}
-                      onMouseOver={(e) => e.currentTarget.style.background = '#ff4757'}
-                      onMouseOut={(e) => e.currentTarget.style.background = 'rgba(255,71,87,0.2)'}
-                    >
-                      🗑️ Supprimer
-                    </button>
-                  </div>
+          {view === 'board' ? (
+            <BoardView
+              tasks={tasks}
+              columns={boardColumns}
+              tagColors={tagColors}
+              highlightTerms={searchTerms}
+              now={now}
+              onMove={moveTask}
+              onColumnsChange={setBoardColumns}
+            />
+          ) : view === 'calendar' ? (
+            <CalendarView tasks={tasks} now={now} onReschedule={rescheduleTask} />
+          ) : view === 'stats' ? (
+            <>
+              <AnalyticsView log={activityLog} lists={lists} tagColors={tagColors} now={now} />
+              <TimeReport tasks={allTasks} running={timer.running} now={now} />
+            </>
+          ) : view === 'archive' ? (
+            <ArchiveView
+              tasks={archivedTasks}
+              highlightTerms={searchTerms}
+              settings={housekeeping}
+              onSettingsChange={updateHousekeeping}
+              onUnarchive={unarchiveTasks}
+              onDelete={handleDelete}
+            />
+          ) : view === 'trash' ? (
+            <TrashView
+              tasks={trashedTasks}
+              now={now}
+              settings={housekeeping}
+              onSettingsChange={updateHousekeeping}
+              onRestore={restoreTasks}
+              onPurge={purgeTasks}
+              onEmpty={emptyTrash}
+            />
+          ) : (
+            <div style={styles.taskList}>
+              <BulkActionBar
+                visibleCount={tasks.length}
+                selectedCount={selection.selectedIds.length}
+                allSelected={selection.allSelected}
+                lists={lists}
+                availableTags={availableTags}
+                tagColors={tagColors}
+                onSelectAll={selection.selectAll}
+                onClear={selection.clear}
+                onComplete={() => {
+                  completeTasks(selection.selectedIds);
+                  announce(t('announce.bulkCompleted', { count: selection.selectedIds.length }));
+                }}
+                onReopen={() => {
+                  reopenTasks(selection.selectedIds);
+                  announce(t('announce.bulkReopened', { count: selection.selectedIds.length }));
+                }}
+                onDelete={() => {
+                  deleteTasks(selection.selectedIds);
+                  announce(t('announce.bulkDeleted', { count: selection.selectedIds.length }));
+                  selection.clear();
+                }}
+                onMove={targetListId => moveTasksToList(selection.selectedIds, targetListId)}
+                onTag={tags => tagTasks(selection.selectedIds, tags)}
+                onReschedule={dueDate => rescheduleTasks(selection.selectedIds, dueDate)}
+              />
+              {tasks.length === 0 ? (
+                <div style={{
+                  ...styles.task,
+                  textAlign: 'center',
+                  color: 'var(--accent-secondary)',
+                  fontSize: '1.2rem'
+                }}>
+                  {loading ? t('app.loading') :
+                   query ? t('app.noSearchResults') :
+                   filter === 'all' ? t('app.emptyAll') :
+                   filter === 'pending' ? t('app.emptyPending') :
+                   t('app.emptyCompleted')}
                 </div>
-              ))
-            )}
-          </div>
+              ) : (
+                <TaskList
+                  tasks={tasks}
+                  manual={sort === 'manual'}
+                  onReorder={reorderTask}
+                  selection={{ isSelected: selection.isSelected, onToggle: selection.toggle }}
+                  focusedTaskId={focusedTaskId}
+                  onFocusTask={setFocusedTaskId}
+                  renderTask={task => (
+                    <TaskItem
+                      task={task}
+                      onToggle={handleToggle}
+                      onUpdate={updateTask}
+                      onSkipOccurrence={skipOccurrence}
+                      onDelete={handleDelete}
+                      onSetAutoComplete={setAutoComplete}
+                      onAddSubtask={addSubtask}
+                      onToggleSubtask={toggleSubtask}
+                      onMoveSubtask={moveSubtask}
+                      onDeleteSubtask={deleteSubtask}
+                      onMoveToList={moveTaskToList}
+                      lists={lists}
+                      list={activeListId === ALL_LISTS ? lists.find(l => l.id === task.listId) ?? lists[0] : undefined}
+                      availableTags={availableTags}
+                      tagColors={tagColors}
+                      highlightTerms={searchTerms}
+                      changedElsewhere={changedElsewhere.has(task.id)}
+                      urgency={dueUrgency(task, now)}
+                      editRequest={editRequest?.taskId === task.id ? editRequest.count : undefined}
+                      timeTracking={timeTracking}
+                    />
+                  )}
+                />
+              )}
+            </div>
+          )}
         </div>
       </div>
+
+      <div style={styles.srOnly} role="status" aria-live="polite">
+        {announcement}
+      </div>
+      <ReminderToasts reminders={activeReminders} onDismiss={dismiss} onSnooze={snooze} />
+      {updateAvailable && <UpdatePrompt onUpdate={applyUpdate} onDismiss={dismissUpdate} />}
+      <CommandPalette
+        open={paletteOpen}
+        commands={paletteCommands}
+        tasks={allTasks}
+        onOpenTask={openTask}
+        onClose={() => setPaletteOpen(false)}
+      />
+      <ShortcutHelp open={helpOpen} bindings={shortcuts} onChange={setShortcuts} onClose={() => setHelpOpen(false)} />
     </div>
   );
 }
@@ -0,0 +1,192 @@
+import { useState } from "react";
+import type { TodoList } from "../types/Task";
+import { getTagColor, type TagColors } from "../hooks/useTagColors";
+import { computeAnalytics, type ActivityBreakdown, type ActivityLog, type AnalyticsPeriod } from "../utils/analytics";
+import type { Translator } from "../i18n/i18n";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+interface AnalyticsViewProps {
+  log: ActivityLog;
+  lists: TodoList[];
+  tagColors: TagColors;
+  now: Date;
+}
+
+const CREATED_COLOR = "#b834ff";
+const COMPLETED_COLOR = "#39ff14";
+
+const CHART_HEIGHT = 160;
+
+const formatDuration = (ms: number, { t }: Translator): string => {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return t("stats.minutes", { count: minutes });
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return t("stats.hours", { count: hours });
+  return t("stats.daysHours", { days: Math.floor(hours / 24), hours: hours % 24 });
+};
+
+function Metric({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div style={{ ...styles.boardCard, flexDirection: "column", gap: "4px", flex: "1 1 140px" }}>
+      <small style={{ color: "var(--text-muted)" }}>{label}</small>
+      <strong style={{ fontSize: "1.4rem", color: "white" }}>{value}</strong>
+      {detail && <small style={{ color: "var(--text-muted)" }}>{detail}</small>}
+    </div>
+  );
+}
+
+function BreakdownBars({ title, entries, labelOf, colorOf }: {
+  title: string;
+  entries: ActivityBreakdown[];
+  labelOf: (key: string) => string;
+  colorOf: (key: string) => string;
+}) {
+  const { t } = useI18n();
+  const max = Math.max(1, ...entries.map(entry => entry.created));
+
+  return (
+    <section style={{ flex: "1 1 260px" }}>
+      <h3 style={{ color: "var(--accent-secondary)", margin: "0 0 10px" }}>{title}</h3>
+      {entries.length === 0 && <small style={{ color: "var(--text-muted)" }}>{t("stats.noActivity")}</small>}
+      {entries.map(entry => (
+        <div key={entry.key} style={{ marginBottom: "8px" }}>
+          <div style={{ display: "flex", justifyContent: "space-between", color: "var(--text)", fontSize: "0.9rem" }}>
+            <span style={{ color: colorOf(entry.key) }}>{labelOf(entry.key)}</span>
+            <span>{t("stats.breakdown", { completed: entry.completed, created: entry.created })}</span>
+          </div>
+          <div style={{ height: "6px", background: "rgba(255,255,255,0.08)", borderRadius: "3px" }} aria-hidden="true">
+            <div
+              style={{
+                width: `${(entry.created / max) * 100}%`,
+                height: "100%",
+                background: colorOf(entry.key),
+                opacity: 0.35,
+                borderRadius: "3px"
+              }}
+            >
+              <div
+                style={{
+                  width: `${entry.created > 0 ? Math.min(100, (entry.completed / entry.created) * 100) : 100}%`,
+                  height: "100%",
+                  background: colorOf(entry.key),
+                  borderRadius: "3px"
+                }}
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+    </section>
+  );
+}
+
+export function AnalyticsView({ log, lists, tagColors, now }: AnalyticsViewProps) {
+  const i18n = useI18n();
+  const { t, locale } = i18n;
+  const [period, setPeriod] = useState<AnalyticsPeriod>("day");
+  const analytics = computeAnalytics(log, now, period, i18n);
+  const { buckets } = analytics;
+
+  const max = Math.max(1, ...buckets.flatMap(bucket => [bucket.created, bucket.completed]));
+  const slot = 100 / buckets.length;
+  const barWidth = slot * 0.35;
+  const listName = (listId: string) => lists.find(list => list.id === listId)?.name ?? lists[0]?.name ?? listId;
+  const listColor = (listId: string) => lists.find(list => list.id === listId)?.color ?? "#00d4ff";
+  const periodLabel = t(period === "day" ? "stats.lastDays" : "stats.lastWeeks", { count: buckets.length });
+  const percent = new Intl.NumberFormat(locale, { style: "percent" });
+
+  return (
+    <div style={styles.taskList}>
+      <div style={{ ...styles.filters, padding: "12px 20px" }}>
+        <div style={styles.filterRow} role="group" aria-label={t("stats.period")}>
+          {([["day", "stats.byDay"], ["week", "stats.byWeek"]] as const).map(([value, label]) => (
+            <button
+              key={value}
+              style={{ ...styles.filterButton, ...(period === value ? styles.filterButtonActive : {}) }}
+              onClick={() => setPeriod(value)}
+              aria-pressed={period === value}
+            >
+              {t(label)}
+            </button>
+          ))}
+          <small style={{ color: "var(--text-muted)" }}>{t("stats.scope")}</small>
+        </div>
+      </div>
+
+      <div style={styles.filterRow}>
+        <Metric label={t("stats.created")} value={i18n.formatNumber(analytics.created)} detail={periodLabel} />
+        <Metric label={t("stats.completed")} value={i18n.formatNumber(analytics.completed)} detail={periodLabel} />
+        <Metric
+          label={t("stats.averageCompletion")}
+          value={analytics.averageCompletionMs === null ? "—" : formatDuration(analytics.averageCompletionMs, i18n)}
+        />
+        <Metric
+          label={t("stats.missedDue")}
+          value={analytics.overdueRate === null ? "—" : percent.format(analytics.overdueRate)}
+          detail={t("stats.missedDueDetail", { count: analytics.dueCount })}
+        />
+        <Metric
+          label={t("stats.streak")}
+          value={t("stats.streakDays", { count: analytics.currentStreak })}
+          detail={t("stats.longestStreak", { count: analytics.longestStreak })}
+        />
+      </div>
+
+      <section style={styles.task}>
+        <h3 style={{ color: "var(--accent-secondary)", margin: "0 0 10px" }}>{t("stats.chartTitle")}</h3>
+        <div style={{ ...styles.filterRow, fontSize: "0.85rem", marginBottom: "8px" }} aria-hidden="true">
+          <span style={{ color: CREATED_COLOR }}>■ {t("stats.created")}</span>
+          <span style={{ color: COMPLETED_COLOR }}>■ {t("stats.completed")}</span>
+        </div>
+        <svg
+          viewBox={`0 0 100 ${CHART_HEIGHT / 4}`}
+          preserveAspectRatio="none"
+          style={{ width: "100%", height: `${CHART_HEIGHT}px`, display: "block" }}
+          aria-hidden="true"
+        >
+          {buckets.map((bucket, index) => {
+            const height = CHART_HEIGHT / 4;
+            const x = index * slot + (slot - barWidth * 2) / 2;
+            return (
+              <g key={bucket.key}>
+                <rect x={x} width={barWidth} y={height - (bucket.created / max) * height} height={(bucket.created / max) * height} fill={CREATED_COLOR}>
+                  <title>{t("stats.barCreated", { label: bucket.label, count: bucket.created })}</title>
+                </rect>
+                <rect x={x + barWidth} width={barWidth} y={height - (bucket.completed / max) * height} height={(bucket.completed / max) * height} fill={COMPLETED_COLOR}>
+                  <title>{t("stats.barCompleted", { label: bucket.label, count: bucket.completed })}</title>
+                </rect>
+              </g>
+            );
+          })}
+        </svg>
+        <div style={{ display: "grid", gridTemplateColumns: `repeat(${buckets.length}, 1fr)`, fontSize: "0.7rem", color: "var(--text-muted)", textAlign: "center" }} aria-hidden="true">
+          {buckets.map(bucket => <span key={bucket.key}>{bucket.label}</span>)}
+        </div>
+
+        {/* Mêmes données en tableau pour les lecteurs d'écran */}
+        <table style={styles.srOnly}>
+          <caption>{t("stats.chartCaption", { period: periodLabel })}</caption>
+          <thead>
+            <tr><th scope="col">{t("stats.period")}</th><th scope="col">{t("stats.created")}</th><th scope="col">{t("stats.completed")}</th></tr>
+          </thead>
+          <tbody>
+            {buckets.map(bucket => (
+              <tr key={bucket.key}><th scope="row">{bucket.label}</th><td>{bucket.created}</td><td>{bucket.completed}</td></tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <div style={{ ...styles.task, display: "flex", flexWrap: "wrap", gap: "30px" }}>
+        <BreakdownBars
+          title={t("stats.byTag")}
+          entries={analytics.byTag}
+          labelOf={tag => `#${tag}`}
+          colorOf={tag => getTagColor(tagColors, tag)}
+        />
+        <BreakdownBars title={t("stats.byList")} entries={analytics.byList} labelOf={listName} colorOf={listColor} />
+      </div>
+    </div>
+  );
+}
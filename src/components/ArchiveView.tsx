@@ -0,0 +1,61 @@
+import type { Task } from "../types/Task";
+import type { HousekeepingSettings } from "../utils/trash";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+import { Highlight } from "./Highlight";
+
+interface ArchiveViewProps {
+  tasks: Task[];
+  highlightTerms: string[];
+  settings: HousekeepingSettings;
+  onSettingsChange: (changes: Partial<HousekeepingSettings>) => void;
+  onUnarchive: (taskIds: string[]) => void;
+  onDelete: (taskId: string) => void;
+}
+
+export function ArchiveView({ tasks, highlightTerms, settings, onSettingsChange, onUnarchive, onDelete }: ArchiveViewProps) {
+  const { t, formatDate } = useI18n();
+
+  return (
+    <div style={styles.taskList}>
+      <div style={{ ...styles.filters, padding: "12px 20px" }}>
+        <div style={styles.filterRow}>
+          <label style={{ color: "var(--accent-secondary)" }} htmlFor="archive-after">{t("archive.after")}</label>
+          <input
+            id="archive-after"
+            type="number"
+            min={0}
+            style={{ ...styles.select, width: "80px" }}
+            value={settings.archiveAfterDays}
+            onChange={(e) => onSettingsChange({ archiveAfterDays: Math.max(0, Math.floor(Number(e.target.value))) })}
+          />
+          <span>{t("archive.days")}</span>
+        </div>
+      </div>
+
+      {tasks.length === 0 ? (
+        <div style={{ ...styles.task, textAlign: "center", color: "var(--accent-secondary)", fontSize: "1.2rem" }}>
+          {highlightTerms.length > 0 ? t("archive.noResults") : t("archive.empty")}
+        </div>
+      ) : (
+        tasks.map(task => (
+          <div key={task.id} style={styles.task}>
+            <div style={styles.taskTitle}><Highlight text={task.title} terms={highlightTerms} /></div>
+            {task.description && (
+              <div style={styles.taskDesc}><Highlight text={task.description} terms={highlightTerms} /></div>
+            )}
+            <small style={{ color: "var(--text-muted)" }}>{task.archivedAt && t("archive.archivedOn", { date: formatDate(task.archivedAt) })}</small>
+            <div style={styles.taskActions}>
+              <button style={styles.editBtn} onClick={() => onUnarchive([task.id])}>
+                {t("archive.unarchive")}
+              </button>
+              <button style={styles.deleteBtn} onClick={() => onDelete(task.id)}>
+                {t("archive.trash")}
+              </button>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
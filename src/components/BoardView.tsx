@@ -0,0 +1,286 @@
+import { useEffect, useRef, useState, type KeyboardEvent } from "react";
+import type { Task, TaskStatus } from "../types/Task";
+import type { TagColors } from "../hooks/useTagColors";
+import { usePointerDrag } from "../hooks/usePointerDrag";
+import { isTaskStatus, type BoardColumn } from "../utils/status";
+import { compareRanks } from "../utils/rank";
+import { countSubtasks } from "../utils/subtasks";
+import { URGENCY_COLORS, dueUrgency, formatDue } from "../utils/dueDates";
+import { PRIORITY_COLORS } from "../utils/priority";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+import { TagChip } from "./TagInput";
+import { Highlight } from "./Highlight";
+
+interface BoardViewProps {
+  tasks: Task[];
+  columns: BoardColumn[];
+  tagColors: TagColors;
+  highlightTerms: string[];
+  now: Date;
+  onMove: (taskId: string, status: TaskStatus, beforeTaskId: string | null) => void;
+  onColumnsChange: (columns: BoardColumn[]) => void;
+}
+
+// Emplacement visé : avant beforeId dans la colonne status (null = en fin de colonne)
+interface Placement {
+  taskId: string;
+  status: TaskStatus;
+  beforeId: string | null;
+}
+
+// Colonne et carte sous le pointeur, d'après les attributs data-status et data-task-id
+const dropTargetAt = (x: number, y: number, taskId: string): Omit<Placement, "taskId"> | null => {
+  const column = document.elementFromPoint(x, y)?.closest<HTMLElement>("[data-status]");
+  const status = column?.dataset.status;
+  if (!column || !isTaskStatus(status)) return null;
+
+  const cards = [...column.querySelectorAll<HTMLElement>("[data-task-id]")].filter(card => card.dataset.taskId !== taskId);
+  const before = cards.find(card => {
+    const rect = card.getBoundingClientRect();
+    return y < rect.top + rect.height / 2;
+  });
+  return { status, beforeId: before?.dataset.taskId ?? null };
+};
+
+export function BoardView({
+  tasks,
+  columns,
+  tagColors,
+  highlightTerms,
+  now,
+  onMove,
+  onColumnsChange
+}: BoardViewProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  // Déplacement au clavier ; le glisser à la souris ou au doigt est suivi par usePointerDrag
+  const [grab, setGrab] = useState<Placement | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const [showSettings, setShowSettings] = useState(false);
+  const boardRef = useRef<HTMLDivElement>(null);
+  const pendingFocus = useRef<string | null>(null);
+
+  // Une carte déposée change de colonne, donc d'élément : la poignée reprend le focus
+  useEffect(() => {
+    if (!pendingFocus.current) return;
+    boardRef.current?.querySelector<HTMLElement>(`[data-handle-id="${pendingFocus.current}"]`)?.focus();
+    pendingFocus.current = null;
+  });
+
+  const visibleColumns = columns.filter(column => column.visible);
+  const columnTasks = (status: TaskStatus) => tasks.filter(task => task.status === status).sort(compareRanks);
+  // Libellé personnalisé, sinon celui de la langue de l'interface
+  const labelOf = (column: BoardColumn) => column.label || t(`board.column.${column.status}`);
+  const columnLabel = (status: TaskStatus) => {
+    const column = columns.find(candidate => candidate.status === status);
+    return column ? labelOf(column) : status;
+  };
+  const titleOf = (taskId: string) => tasks.find(task => task.id === taskId)?.title ?? "";
+
+  const drop = ({ taskId, status, beforeId }: Placement) => {
+    onMove(taskId, status, beforeId);
+    setAnnouncement(t("board.dropped", { title: titleOf(taskId), column: columnLabel(status) }));
+  };
+
+  const pointer = usePointerDrag(dropTargetAt, (taskId, target) => drop({ taskId, ...target }));
+  const dragged = pointer.drag?.id ?? grab?.taskId;
+  const placement = pointer.drag
+    ? pointer.drag.target && { taskId: pointer.drag.id, ...pointer.drag.target }
+    : grab;
+
+  // Clavier : Espace ou Entrée pour saisir puis déposer, flèches pour déplacer, Échap pour annuler
+  const handleKeyDown = (e: KeyboardEvent<HTMLButtonElement>, task: Task) => {
+    if (grab?.taskId !== task.id) {
+      if (e.key !== " " && e.key !== "Enter") return;
+      e.preventDefault();
+      const column = columnTasks(task.status);
+      const next = column[column.findIndex(t => t.id === task.id) + 1];
+      setGrab({ taskId: task.id, status: task.status, beforeId: next?.id ?? null });
+      setAnnouncement(
+        t("board.grabbed", { title: task.title })
+      );
+      return;
+    }
+
+    const target = (status: TaskStatus, position: number) => {
+      const others = columnTasks(status).filter(t => t.id !== task.id);
+      const clamped = Math.max(0, Math.min(position, others.length));
+      setGrab({ taskId: task.id, status, beforeId: others[clamped]?.id ?? null });
+      setAnnouncement(t("board.position", { column: columnLabel(status), position: clamped + 1, total: others.length + 1 }));
+    };
+    const others = columnTasks(grab.status).filter(t => t.id !== task.id);
+    const position = grab.beforeId ? others.findIndex(t => t.id === grab.beforeId) : others.length;
+    const columnIndex = visibleColumns.findIndex(column => column.status === grab.status);
+
+    switch (e.key) {
+      case "ArrowUp":
+        target(grab.status, position - 1);
+        break;
+      case "ArrowDown":
+        target(grab.status, position + 1);
+        break;
+      case "ArrowLeft":
+      case "ArrowRight": {
+        const column = visibleColumns[columnIndex + (e.key === "ArrowLeft" ? -1 : 1)];
+        if (column) target(column.status, position);
+        break;
+      }
+      case " ":
+      case "Enter":
+        setGrab(null);
+        pendingFocus.current = task.id;
+        drop(grab);
+        break;
+      case "Escape":
+        setGrab(null);
+        setAnnouncement(t("board.cancelled", { title: task.title }));
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const moveColumn = (status: TaskStatus, offset: number) => {
+    const index = columns.findIndex(column => column.status === status);
+    const target = index + offset;
+    if (target < 0 || target >= columns.length) return;
+
+    const reordered = [...columns];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(target, 0, moved);
+    onColumnsChange(reordered);
+  };
+
+  const updateColumn = (status: TaskStatus, changes: Partial<BoardColumn>) => {
+    onColumnsChange(columns.map(column => (column.status === status ? { ...column, ...changes } : column)));
+  };
+
+  const dropIndicator = <div style={styles.dropIndicator} aria-hidden="true" />;
+
+  return (
+    <div>
+      <div style={{ ...styles.filterRow, marginBottom: "10px" }}>
+        <button style={styles.subtaskButton} onClick={() => setShowSettings(show => !show)} aria-expanded={showSettings}>
+          {t("board.columns")}
+        </button>
+      </div>
+
+      {showSettings && (
+        <div style={styles.filters}>
+          {columns.map((column, index) => (
+            <div key={column.status} style={{ ...styles.filterRow, marginBottom: "8px" }}>
+              <input
+                type="checkbox"
+                style={styles.checkbox}
+                checked={column.visible}
+                onChange={(e) => updateColumn(column.status, { visible: e.target.checked })}
+                aria-label={t("board.showColumn", { label: labelOf(column) })}
+              />
+              <input
+                style={{ ...styles.subtaskInput, flex: "0 1 200px" }}
+                value={column.label}
+                placeholder={t(`board.column.${column.status}`)}
+                onChange={(e) => updateColumn(column.status, { label: e.target.value })}
+                aria-label={t("board.columnLabel", { label: t(`board.column.${column.status}`) })}
+              />
+              <button
+                style={styles.subtaskButton}
+                onClick={() => moveColumn(column.status, -1)}
+                disabled={index === 0}
+                aria-label={t("board.moveColumnLeft", { label: labelOf(column) })}
+              >
+                ◀
+              </button>
+              <button
+                style={styles.subtaskButton}
+                onClick={() => moveColumn(column.status, 1)}
+                disabled={index === columns.length - 1}
+                aria-label={t("board.moveColumnRight", { label: labelOf(column) })}
+              >
+                ▶
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div ref={boardRef} style={styles.board}>
+        {visibleColumns.map(column => {
+          const items = columnTasks(column.status);
+          const isTarget = placement?.status === column.status;
+          return (
+            <section
+              key={column.status}
+              data-status={column.status}
+              style={{ ...styles.boardColumn, borderTopColor: isTarget ? "var(--accent)" : "rgba(255,255,255,0.2)" }}
+              aria-label={labelOf(column)}
+            >
+              <h2 style={styles.boardColumnTitle}>
+                {labelOf(column)}
+                <span style={styles.progress}>{items.length}</span>
+              </h2>
+              {items.map(task => {
+                const progress = countSubtasks(task.subtasks);
+                const urgency = dueUrgency(task, now);
+                const isDragged = dragged === task.id;
+                return (
+                  <div key={task.id}>
+                    {isTarget && placement.beforeId === task.id && dropIndicator}
+                    <div
+                      data-task-id={task.id}
+                      style={{ ...styles.boardCard, opacity: isDragged ? 0.4 : 1 }}
+                    >
+                      <button
+                        data-handle-id={task.id}
+                        style={{ ...styles.boardHandle, borderColor: grab?.taskId === task.id ? "var(--accent)" : "transparent" }}
+                        aria-label={t("board.move", { title: task.title })}
+                        aria-pressed={grab?.taskId === task.id}
+                        {...pointer.handlers(task.id)}
+                        onKeyDown={(e) => handleKeyDown(e, task)}
+                        onBlur={() => setGrab(prev => (prev?.taskId === task.id ? null : prev))}
+                      >
+                        ⠿
+                      </button>
+                      <div style={{ flex: 1, minWidth: 0 }}>
+                        <div style={{ color: "white", fontWeight: "bold", overflowWrap: "anywhere" }}>
+                          <Highlight text={task.title} terms={highlightTerms} />
+                          {progress.total > 0 && <span style={styles.progress}> {progress.completed}/{progress.total}</span>}
+                        </div>
+                        {task.dueDate && <small style={{ color: "var(--text-muted)" }}>📅 {formatDue(task, i18n)}</small>}
+                        <div style={{ ...styles.tagList, marginTop: "6px", marginBottom: 0 }}>
+                          {task.priority !== "normal" && (
+                            <span style={{ ...styles.tagChip, color: PRIORITY_COLORS[task.priority], borderColor: PRIORITY_COLORS[task.priority] }}>
+                              {t(`priority.${task.priority}`)}
+                            </span>
+                          )}
+                          {urgency && (
+                            <span style={{ ...styles.tagChip, color: URGENCY_COLORS[urgency], borderColor: URGENCY_COLORS[urgency] }}>
+                              {t(`urgency.${urgency}`)}
+                            </span>
+                          )}
+                          {task.tags.map(tag => <TagChip key={tag} tag={tag} tagColors={tagColors} />)}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+              {isTarget && placement.beforeId === null && dropIndicator}
+            </section>
+          );
+        })}
+      </div>
+
+      {pointer.drag && (
+        <div style={{ ...styles.dragGhost, left: pointer.drag.x + 12, top: pointer.drag.y + 12 }} aria-hidden="true">
+          {titleOf(pointer.drag.id)}
+        </div>
+      )}
+      <div style={styles.srOnly} role="status" aria-live="assertive">
+        {announcement}
+      </div>
+    </div>
+  );
+}
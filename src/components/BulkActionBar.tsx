@@ -0,0 +1,113 @@
+import { useState } from "react";
+import type { TodoList } from "../types/Task";
+import type { TagColors } from "../hooks/useTagColors";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+import { TagInput } from "./TagInput";
+
+interface BulkActionBarProps {
+  visibleCount: number;
+  selectedCount: number;
+  allSelected: boolean;
+  lists: TodoList[];
+  availableTags: string[];
+  tagColors: TagColors;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onComplete: () => void;
+  onReopen: () => void;
+  onDelete: () => void;
+  onMove: (listId: string) => void;
+  onTag: (tags: string[]) => void;
+  onReschedule: (dueDate: Date | undefined) => void;
+}
+
+export function BulkActionBar({
+  visibleCount,
+  selectedCount,
+  allSelected,
+  lists,
+  availableTags,
+  tagColors,
+  onSelectAll,
+  onClear,
+  onComplete,
+  onReopen,
+  onDelete,
+  onMove,
+  onTag,
+  onReschedule
+}: BulkActionBarProps) {
+  const { t } = useI18n();
+  const [tags, setTags] = useState<string[]>([]);
+  const [dueDate, setDueDate] = useState("");
+
+  if (visibleCount === 0) return null;
+
+  return (
+    <div style={{ ...styles.filters, padding: "12px 20px" }} role="toolbar" aria-label={t("bulk.toolbar")}>
+      <div style={styles.filterRow}>
+        <label style={{ color: "var(--accent-secondary)" }}>
+          <input
+            type="checkbox"
+            style={styles.checkbox}
+            checked={allSelected}
+            onChange={() => (allSelected ? onClear() : onSelectAll())}
+          />
+          {t("bulk.selectAll", { count: visibleCount })}
+        </label>
+        {selectedCount > 0 && (
+          <>
+            <strong style={{ color: "white" }} aria-live="polite">{t("bulk.selected", { count: selectedCount })}</strong>
+            <button style={styles.editBtn} onClick={onComplete}>{t("bulk.complete")}</button>
+            <button style={styles.editBtn} onClick={onReopen}>{t("bulk.reopen")}</button>
+            <button style={styles.deleteBtn} onClick={onDelete}>{t("bulk.delete")}</button>
+            <button style={styles.subtaskButton} onClick={onClear}>{t("bulk.clear")}</button>
+          </>
+        )}
+      </div>
+
+      {selectedCount > 0 && (
+        <div style={{ ...styles.filterRow, marginTop: "10px" }}>
+          {lists.length > 1 && (
+            <select
+              style={styles.select}
+              value=""
+              onChange={(e) => e.target.value && onMove(e.target.value)}
+              aria-label={t("bulk.moveLabel")}
+            >
+              <option value="">{t("bulk.move")}</option>
+              {lists.map(list => <option key={list.id} value={list.id}>{list.name}</option>)}
+            </select>
+          )}
+          <div style={{ flex: "1 1 200px" }}>
+            <TagInput value={tags} onChange={setTags} suggestions={availableTags} tagColors={tagColors} />
+          </div>
+          <button
+            style={styles.subtaskButton}
+            disabled={tags.length === 0}
+            onClick={() => {
+              onTag(tags);
+              setTags([]);
+            }}
+          >
+            {t("bulk.tag")}
+          </button>
+          <input
+            type="date"
+            style={styles.select}
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            aria-label={t("bulk.newDueDate")}
+          />
+          <button style={styles.subtaskButton} disabled={!dueDate} onClick={() => onReschedule(new Date(dueDate))}>
+            {t("bulk.reschedule")}
+          </button>
+          <button style={styles.subtaskButton} onClick={() => onReschedule(undefined)}>
+            {t("bulk.removeDue")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import { useEffect, useRef, useState, type KeyboardEvent } from "react";
+import type { Task } from "../types/Task";
+import { useLocalStorage } from "../hooks/useLocalStorage";
+import { usePointerDrag } from "../hooks/usePointerDrag";
+import {
+  AGENDA_DAYS,
+  addDays,
+  dayKeyOf,
+  dayKeyToDate,
+  describePeriod,
+  formatDay,
+  monthWeeks,
+  shiftPeriod,
+  todayKey,
+  weekDays,
+  weekHeaderLabels,
+  type CalendarMode
+} from "../utils/calendar";
+import { PRIORITY_COLORS } from "../utils/priority";
+import { isCompleted } from "../utils/status";
+import type { MessageKey, Translator } from "../i18n/i18n";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+interface CalendarViewProps {
+  tasks: Task[];
+  now: Date;
+  onReschedule: (taskId: string, dueDate: Date | undefined) => void;
+}
+
+// Jour visé par un déplacement ; null = bac des tâches sans échéance
+interface DayTarget {
+  day: string | null;
+}
+
+const MODES: { value: CalendarMode; label: MessageKey }[] = [
+  { value: "month", label: "calendar.month" },
+  { value: "week", label: "calendar.week" },
+  { value: "agenda", label: "calendar.agenda" }
+];
+
+// Les cases de jour portent data-day="AAAA-MM-JJ", le bac data-day=""
+const dayAt = (x: number, y: number): DayTarget | null => {
+  const cell = document.elementFromPoint(x, y)?.closest<HTMLElement>("[data-day]");
+  if (!cell) return null;
+  return { day: cell.dataset.day || null };
+};
+
+const describeDay = (day: string | null, i18n: Translator): string =>
+  day ? formatDay(day, { weekday: "long", day: "numeric", month: "long", year: "numeric" }, i18n) : i18n.t("calendar.noDueDate");
+
+// Tâches de la journée : d'abord celles qui ont une heure, dans l'ordre
+const compareDueTimes = ({ compare }: Translator) => (a: Task, b: Task): number =>
+  (a.dueTime ?? "99:99").localeCompare(b.dueTime ?? "99:99") || compare(a.title, b.title);
+
+export function CalendarView({ tasks, now, onReschedule }: CalendarViewProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [mode, setMode] = useLocalStorage<CalendarMode>("calendarMode", "month");
+  const today = todayKey(now);
+  const [anchor, setAnchor] = useState(today);
+  // Déplacement au clavier ; le glisser à la souris ou au doigt est suivi par usePointerDrag
+  const [grab, setGrab] = useState<{ taskId: string; day: string | null } | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const calendarRef = useRef<HTMLDivElement>(null);
+  const pendingFocus = useRef<string | null>(null);
+
+  // Une tâche déplacée change de case, donc d'élément : elle reprend le focus
+  useEffect(() => {
+    if (!pendingFocus.current) return;
+    calendarRef.current?.querySelector<HTMLElement>(`[data-chip-id="${pendingFocus.current}"]`)?.focus();
+    pendingFocus.current = null;
+  });
+
+  const tasksByDay = new Map<string, Task[]>();
+  tasks.forEach(task => {
+    if (!task.dueDate) return;
+    const day = dayKeyOf(task.dueDate);
+    tasksByDay.set(day, [...(tasksByDay.get(day) ?? []), task]);
+  });
+  tasksByDay.forEach(dayTasks => dayTasks.sort(compareDueTimes(i18n)));
+  const undated = tasks.filter(task => !task.dueDate);
+  const titleOf = (taskId: string) => tasks.find(task => task.id === taskId)?.title ?? "";
+
+  const drop = (taskId: string, day: string | null) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!day && task?.recurrence) {
+      setAnnouncement(t("calendar.recurringKeepsDue", { title: task.title }));
+      return;
+    }
+    onReschedule(taskId, day ? dayKeyToDate(day) : undefined);
+    setAnnouncement(t("calendar.moved", { title: titleOf(taskId), day: describeDay(day, i18n) }));
+  };
+
+  const pointer = usePointerDrag(dayAt, (taskId, target) => drop(taskId, target.day));
+  const dragged = pointer.drag?.id ?? grab?.taskId;
+  const targetDay = pointer.drag ? pointer.drag.target?.day : grab?.day;
+
+  const visibleDays =
+    mode === "month" ? monthWeeks(anchor).flat()
+    : mode === "week" ? weekDays(anchor)
+    : Array.from({ length: AGENDA_DAYS }, (_, index) => addDays(anchor, index));
+
+  // Clavier : Espace ou Entrée pour saisir puis déposer, flèches pour changer de jour,
+  // Suppr pour retirer l'échéance, Échap pour annuler
+  const handleKeyDown = (e: KeyboardEvent<HTMLButtonElement>, task: Task) => {
+    if (grab?.taskId !== task.id) {
+      if (e.key !== " " && e.key !== "Enter") return;
+      e.preventDefault();
+      setGrab({ taskId: task.id, day: task.dueDate ? dayKeyOf(task.dueDate) : null });
+      setAnnouncement(
+        t("calendar.grabbed", { title: task.title })
+      );
+      return;
+    }
+
+    const moveTo = (day: string | null) => {
+      setGrab({ taskId: task.id, day });
+      if (day && !visibleDays.includes(day)) setAnchor(day);
+      setAnnouncement(describeDay(day, i18n));
+    };
+    const step = mode === "agenda" ? 1 : 7;
+    const from = grab.day ?? today;
+
+    switch (e.key) {
+      case "ArrowLeft":
+        moveTo(addDays(from, -1));
+        break;
+      case "ArrowRight":
+        moveTo(addDays(from, 1));
+        break;
+      case "ArrowUp":
+        moveTo(addDays(from, -step));
+        break;
+      case "ArrowDown":
+        moveTo(addDays(from, step));
+        break;
+      case "Delete":
+      case "Backspace":
+        moveTo(null);
+        break;
+      case " ":
+      case "Enter":
+        setGrab(null);
+        pendingFocus.current = task.id;
+        drop(task.id, grab.day);
+        break;
+      case "Escape":
+        setGrab(null);
+        setAnnouncement(t("calendar.cancelled", { title: task.title }));
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const renderChip = (task: Task) => (
+    <button
+      key={task.id}
+      data-chip-id={task.id}
+      style={{
+        ...styles.calendarChip,
+        borderLeftColor: PRIORITY_COLORS[task.priority],
+        outline: grab?.taskId === task.id ? "2px solid var(--accent)" : "none",
+        opacity: dragged === task.id ? 0.4 : isCompleted(task) ? 0.6 : 1,
+        textDecoration: isCompleted(task) ? "line-through" : "none"
+      }}
+      title={task.title}
+      aria-label={
+        task.dueDate
+          ? t("calendar.moveWithDue", { title: task.title, day: describeDay(dayKeyOf(task.dueDate), i18n) })
+          : t("calendar.move", { title: task.title })
+      }
+      aria-pressed={grab?.taskId === task.id}
+      {...pointer.handlers(task.id)}
+      onKeyDown={(e) => handleKeyDown(e, task)}
+      onBlur={() => setGrab(prev => (prev?.taskId === task.id ? null : prev))}
+    >
+      {task.dueTime && <strong>{task.dueTime} </strong>}
+      {task.title}
+    </button>
+  );
+
+  const cellStyle = (day: string) => ({
+    ...styles.calendarCell,
+    borderColor: targetDay === day ? "var(--accent)" : day === today ? "var(--accent-secondary)" : "rgba(255,255,255,0.1)",
+    opacity: mode === "month" && day.slice(0, 7) !== anchor.slice(0, 7) ? 0.5 : 1
+  });
+
+  return (
+    <div ref={calendarRef}>
+      <div style={{ ...styles.filterRow, marginBottom: "15px" }}>
+        {MODES.map(option => (
+          <button
+            key={option.value}
+            style={{ ...styles.filterButton, ...(mode === option.value ? styles.filterButtonActive : {}) }}
+            onClick={() => setMode(option.value)}
+            aria-pressed={mode === option.value}
+          >
+            {t(option.label)}
+          </button>
+        ))}
+        <button style={styles.subtaskButton} onClick={() => setAnchor(shiftPeriod(mode, anchor, -1))} aria-label={t("calendar.previous")}>
+          ◀
+        </button>
+        <button style={styles.subtaskButton} onClick={() => setAnchor(today)}>
+          {t("calendar.today")}
+        </button>
+        <button style={styles.subtaskButton} onClick={() => setAnchor(shiftPeriod(mode, anchor, 1))} aria-label={t("calendar.next")}>
+          ▶
+        </button>
+        <h2 style={{ ...styles.boardColumnTitle, margin: 0 }}>{describePeriod(mode, anchor, i18n)}</h2>
+      </div>
+
+      <div style={styles.calendarLayout}>
+        {mode === "agenda" ? (
+          <div>
+            {visibleDays.map(day => (
+              <section key={day} data-day={day} style={{ ...cellStyle(day), minHeight: "auto", marginBottom: "8px" }}>
+                <h3 style={{ margin: "0 0 6px", fontSize: "0.95rem", color: day === today ? "var(--accent-secondary)" : "white" }}>
+                  {formatDay(day, { weekday: "long", day: "numeric", month: "long" }, i18n)}
+                </h3>
+                {tasksByDay.get(day)?.map(renderChip) ?? <small style={{ color: "var(--text-muted)" }}>—</small>}
+              </section>
+            ))}
+          </div>
+        ) : (
+          <div style={styles.calendarGrid}>
+            {weekHeaderLabels(i18n).map(label => (
+              <div key={label} style={{ color: "var(--accent-secondary)", textAlign: "center", fontSize: "0.85rem" }}>{label}</div>
+            ))}
+            {visibleDays.map(day => (
+              <div key={day} data-day={day} style={{ ...cellStyle(day), minHeight: mode === "week" ? "240px" : "90px" }}>
+                <div style={{ color: day === today ? "var(--accent-secondary)" : "var(--text-muted)", fontSize: "0.8rem", marginBottom: "4px" }}>
+                  {mode === "week" ? formatDay(day, { day: "numeric", month: "short" }, i18n) : formatDay(day, { day: "numeric" }, i18n)}
+                </div>
+                {tasksByDay.get(day)?.map(renderChip)}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <aside data-day="" style={{ ...styles.calendarCell, borderColor: targetDay === null ? "var(--accent)" : "rgba(255,255,255,0.1)" }}>
+          <h3 style={{ margin: "0 0 8px", fontSize: "0.95rem", color: "white" }}>{t("calendar.undated", { count: undated.length })}</h3>
+          {undated.map(renderChip)}
+        </aside>
+      </div>
+
+      {pointer.drag && (
+        <div style={{ ...styles.dragGhost, left: pointer.drag.x + 12, top: pointer.drag.y + 12 }} aria-hidden="true">
+          {titleOf(pointer.drag.id)}
+        </div>
+      )}
+      <div style={styles.srOnly} role="status" aria-live="assertive">
+        {announcement}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useEffect, useId, useRef, useState, type KeyboardEvent } from "react";
+import type { Task } from "../types/Task";
+import { fuzzyMatch } from "../utils/fuzzy";
+import { formatBinding } from "../utils/shortcuts";
+import { isCompleted } from "../utils/status";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  binding?: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  commands: PaletteCommand[];
+  tasks: Task[];
+  onOpenTask: (taskId: string) => void;
+  onClose: () => void;
+}
+
+interface PaletteEntry {
+  id: string;
+  label: string;
+  detail: string;
+  binding?: string;
+  indices: number[];
+  score: number;
+  run: () => void;
+}
+
+const MAX_RESULTS = 30;
+
+// Texte avec les lettres retrouvées surlignées
+function MatchedText({ text, indices }: { text: string; indices: number[] }) {
+  const matched = new Set(indices);
+  return (
+    <>
+      {[...text].map((char, index, chars) => {
+        const offset = chars.slice(0, index).join("").length;
+        return matched.has(offset)
+          ? <mark key={index} style={styles.highlight}>{char}</mark>
+          : <span key={index}>{char}</span>;
+      })}
+    </>
+  );
+}
+
+// Ctrl+K : commandes et titres de tâches en recherche approximative, navigation aux flèches, Entrée pour exécuter
+export function CommandPalette({ open, commands, tasks, onOpenTask, onClose }: CommandPaletteProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const listboxId = useId();
+  const optionId = useId();
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+    if (open && !dialog.open) dialog.showModal();
+    if (!open && dialog.open) dialog.close();
+  }, [open]);
+
+  const close = () => {
+    setQuery("");
+    setActiveIndex(0);
+    onClose();
+  };
+
+  const commandEntries = commands.map(command => ({
+    id: `command-${command.id}`,
+    label: command.label,
+    detail: t("palette.command"),
+    binding: command.binding,
+    run: command.run
+  }));
+  // Sans saisie, seules les commandes sont proposées
+  const taskEntries = query.trim() === "" ? [] : tasks.map(task => ({
+    id: `task-${task.id}`,
+    label: task.title,
+    detail: isCompleted(task) ? t("palette.taskDone") : t("palette.task"),
+    binding: undefined,
+    run: () => onOpenTask(task.id)
+  }));
+
+  const entries: PaletteEntry[] = [...commandEntries, ...taskEntries]
+    .flatMap(entry => {
+      const match = fuzzyMatch(query, entry.label);
+      return match ? [{ ...entry, ...match }] : [];
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RESULTS);
+  const active = Math.min(activeIndex, entries.length - 1);
+
+  // La modale est fermée avant d'exécuter : le focus peut alors aller ailleurs dans la page
+  const runEntry = (entry: PaletteEntry) => {
+    dialogRef.current?.close();
+    close();
+    entry.run();
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (entries.length === 0) return;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const next = (active + (e.key === "ArrowDown" ? 1 : -1) + entries.length) % entries.length;
+      setActiveIndex(next);
+      document.getElementById(`${optionId}-${next}`)?.scrollIntoView({ block: "nearest" });
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      runEntry(entries[active]);
+    }
+  };
+
+  return (
+    <dialog
+      ref={dialogRef}
+      style={{ ...styles.dialog, maxWidth: "560px", width: "90vw", borderColor: "var(--accent)", padding: "15px" }}
+      aria-label={t("palette.label")}
+      onCancel={(e) => {
+        e.preventDefault();
+        close();
+      }}
+    >
+      <input
+        style={styles.input}
+        type="text"
+        role="combobox"
+        aria-expanded={entries.length > 0}
+        aria-controls={listboxId}
+        aria-activedescendant={entries.length > 0 ? `${optionId}-${active}` : undefined}
+        aria-autocomplete="list"
+        aria-label={t("palette.input")}
+        placeholder={t("palette.placeholder")}
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        autoFocus
+      />
+      <ul id={listboxId} role="listbox" aria-label={t("palette.results")} style={{ listStyle: "none", maxHeight: "50vh", overflowY: "auto" }}>
+        {entries.map((entry, index) => (
+          <li
+            key={entry.id}
+            id={`${optionId}-${index}`}
+            role="option"
+            aria-selected={index === active}
+            style={{
+              ...styles.listEntry,
+              color: "var(--text)",
+              borderLeftColor: index === active ? "var(--accent)" : "transparent",
+              background: index === active ? "rgba(0,212,255,0.12)" : "transparent"
+            }}
+            onMouseMove={() => index !== active && setActiveIndex(index)}
+            onClick={() => runEntry(entry)}
+          >
+            <span style={{ minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+              <MatchedText text={entry.label} indices={entry.indices} />
+            </span>
+            <small style={{ color: "var(--text-muted)", flexShrink: 0, marginLeft: "10px" }}>
+              {entry.binding
+                ? formatBinding(entry.binding, i18n).map(key => <kbd key={key} style={styles.kbd}>{key}</kbd>)
+                : entry.detail}
+            </small>
+          </li>
+        ))}
+      </ul>
+      {entries.length === 0 && <p style={{ color: "var(--text-muted)", padding: "8px 12px" }}>{t("palette.noResults")}</p>}
+    </dialog>
+  );
+}
@@ -0,0 +1,51 @@
+import { useEffect, useId, useRef } from "react";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+interface ConfirmDialogProps {
+  open: boolean;
+  title: string;
+  message: string;
+  confirmLabel: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Modale native : focus piégé, Échap annule, le focus revient au bouton d'origine à la fermeture
+export function ConfirmDialog({ open, title, message, confirmLabel, onConfirm, onCancel }: ConfirmDialogProps) {
+  const { t } = useI18n();
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const titleId = useId();
+  const messageId = useId();
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+    if (open && !dialog.open) dialog.showModal();
+    if (!open && dialog.open) dialog.close();
+  }, [open]);
+
+  return (
+    <dialog
+      ref={dialogRef}
+      style={styles.dialog}
+      aria-labelledby={titleId}
+      aria-describedby={messageId}
+      onCancel={(e) => {
+        e.preventDefault();
+        onCancel();
+      }}
+    >
+      <h2 id={titleId} style={{ color: "var(--danger)", marginTop: 0 }}>{title}</h2>
+      <p id={messageId} style={{ color: "var(--text)" }}>{message}</p>
+      <div style={{ ...styles.filterRow, justifyContent: "flex-end" }}>
+        <button style={styles.editBtn} onClick={onCancel} autoFocus>
+          {t("dialog.cancel")}
+        </button>
+        <button style={styles.deleteBtn} onClick={onConfirm}>
+          {confirmLabel}
+        </button>
+      </div>
+    </dialog>
+  );
+}
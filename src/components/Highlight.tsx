@@ -0,0 +1,19 @@
+import { highlightSegments } from "../utils/search";
+import { styles } from "../styles";
+
+interface HighlightProps {
+  text: string;
+  terms: string[];
+}
+
+export function Highlight({ text, terms }: HighlightProps) {
+  return (
+    <>
+      {highlightSegments(text, terms).map((segment, index) =>
+        segment.match
+          ? <mark key={index} style={styles.highlight}>{segment.text}</mark>
+          : <span key={index}>{segment.text}</span>
+      )}
+    </>
+  );
+}
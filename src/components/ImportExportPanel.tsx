@@ -0,0 +1,165 @@
+import { useState, type ChangeEvent } from "react";
+import type { Task } from "../types/Task";
+import { EXPORT_FORMATS, downloadTextFile, exportTasks, type ExportFormat } from "../utils/taskExport";
+import {
+  detectImportFormat,
+  parseImportFile,
+  previewImport,
+  type DuplicateStrategy,
+  type ImportPreview,
+  type ImportRowStatus,
+  type ImportStrategies,
+  type TrashedStrategy
+} from "../utils/taskImport";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+interface ImportExportPanelProps {
+  allTasks: Task[];
+  visibleTasks: Task[];
+  // Toutes les tâches, corbeille comprise, pour reconnaître les doublons à l'import
+  existingTasks: Task[];
+  onImport: (preview: ImportPreview, strategies: ImportStrategies) => void;
+}
+
+const STATUS_COLORS: Record<ImportRowStatus, string> = {
+  new: "#39ff14",
+  duplicate: "#ff8800",
+  trashed: "#b388ff",
+  invalid: "#ff4757"
+};
+
+const DUPLICATE_STRATEGIES: DuplicateStrategy[] = ["merge", "replace", "skip"];
+const TRASHED_STRATEGIES: TrashedStrategy[] = ["restore", "replace", "skip"];
+
+export function ImportExportPanel({ allTasks, visibleTasks, existingTasks, onImport }: ImportExportPanelProps) {
+  const { t } = useI18n();
+  const [format, setFormat] = useState<ExportFormat>("json");
+  const [scope, setScope] = useState<"all" | "view">("all");
+  const [fileName, setFileName] = useState("");
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [strategies, setStrategies] = useState<ImportStrategies>({ duplicate: "skip", trashed: "skip" });
+
+  const handleExport = () => {
+    const { extension, mimeType } = EXPORT_FORMATS[format];
+    const date = new Date().toISOString().slice(0, 10);
+    const content = exportTasks(scope === "all" ? allTasks : visibleTasks, format);
+    downloadTextFile(content, `${t("importExport.fileName")}-${date}.${extension}`, mimeType);
+  };
+
+  // Rien n'est écrit avant la confirmation de l'aperçu
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const content = await file.text();
+    const rows = parseImportFile(content, detectImportFormat(file.name, content));
+    setFileName(file.name);
+    setPreview(previewImport(rows, existingTasks));
+  };
+
+  const confirmImport = () => {
+    if (!preview) return;
+    onImport(preview, strategies);
+    setPreview(null);
+  };
+
+  const importableCount = preview
+    ? preview.counts.new +
+      (strategies.duplicate === "skip" ? 0 : preview.counts.duplicate) +
+      (strategies.trashed === "skip" ? 0 : preview.counts.trashed)
+    : 0;
+
+  return (
+    <div style={styles.filters}>
+      <h3 style={{ color: "var(--accent-secondary)", marginBottom: "15px" }}>{t("importExport.heading")}</h3>
+
+      <div style={styles.filterRow}>
+        <select style={styles.select} aria-label={t("importExport.format")} value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)}>
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(key => (
+            <option key={key} value={key}>{t(`importExport.format.${key}`)}</option>
+          ))}
+        </select>
+        <select style={styles.select} aria-label={t("importExport.scope")} value={scope} onChange={(e) => setScope(e.target.value as "all" | "view")}>
+          <option value="all">{t("importExport.scopeAll", { count: allTasks.length })}</option>
+          <option value="view">{t("importExport.scopeView", { count: visibleTasks.length })}</option>
+        </select>
+        <button style={styles.editBtn} onClick={handleExport}>
+          {t("importExport.export")}
+        </button>
+        <label style={{ ...styles.editBtn, display: "inline-block" }}>
+          {t("importExport.import")}
+          <input
+            type="file"
+            accept=".json,.csv,.md,.markdown,.ics,application/json,text/csv,text/markdown,text/calendar"
+            style={{ display: "none" }}
+            onChange={handleFileChange}
+          />
+        </label>
+      </div>
+
+      {preview && (
+        <div style={{ marginTop: "15px" }}>
+          <span style={styles.filterLabel}>
+            {t("importExport.preview", { file: fileName, ...preview.counts })}
+          </span>
+
+          <div style={{ maxHeight: "240px", overflowY: "auto", marginBottom: "10px" }}>
+            {preview.rows.map((row, index) => (
+              <div key={index} style={{ ...styles.subtaskRow, gap: "10px" }}>
+                <small style={{ color: STATUS_COLORS[row.status], minWidth: "70px" }}>{t(`importExport.row.${row.status}`)}</small>
+                <small style={{ color: "var(--text-muted)", minWidth: "60px" }}>{t(row.source.key, row.source.params)}</small>
+                <span style={{ flex: 1 }}>{row.task?.title ?? "—"}</span>
+                {row.reason && <small style={{ color: "var(--text-muted)" }}>{t(row.reason.key, row.reason.params)}</small>}
+              </div>
+            ))}
+          </div>
+
+          {preview.counts.duplicate > 0 && (
+            <div style={styles.filterRow}>
+              <span style={{ color: "var(--accent-secondary)" }}>{t("importExport.duplicates")}</span>
+              {DUPLICATE_STRATEGIES.map(key => (
+                <label key={key}>
+                  <input
+                    type="radio"
+                    name="duplicateStrategy"
+                    checked={strategies.duplicate === key}
+                    onChange={() => setStrategies(prev => ({ ...prev, duplicate: key }))}
+                  />
+                  {" "}{t(`importExport.strategy.${key}`)}
+                </label>
+              ))}
+            </div>
+          )}
+
+          {preview.counts.trashed > 0 && (
+            <div style={styles.filterRow}>
+              <span style={{ color: "var(--accent-secondary)" }}>{t("importExport.trashed")}</span>
+              {TRASHED_STRATEGIES.map(key => (
+                <label key={key}>
+                  <input
+                    type="radio"
+                    name="trashedStrategy"
+                    checked={strategies.trashed === key}
+                    onChange={() => setStrategies(prev => ({ ...prev, trashed: key }))}
+                  />
+                  {" "}{t(`importExport.trashedStrategy.${key}`)}
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div style={{ ...styles.taskActions, marginTop: "10px" }}>
+            <button style={styles.deleteBtn} onClick={() => setPreview(null)}>
+              {t("importExport.cancel")}
+            </button>
+            <button style={styles.editBtn} onClick={confirmImport} disabled={importableCount === 0}>
+              {t("importExport.confirm", { count: importableCount })}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
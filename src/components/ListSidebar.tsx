@@ -0,0 +1,131 @@
+import { useState, type FormEvent } from "react";
+import type { TaskFilter, TaskSort, TaskStats, TodoList } from "../types/Task";
+import { ALL_LISTS, DEFAULT_LIST_ID } from "../utils/lists";
+import { TASK_FILTERS, TASK_SORTS } from "../utils/taskFilters";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+interface ListSidebarProps {
+  lists: TodoList[];
+  activeListId: string;
+  statsByList: Record<string, TaskStats>;
+  onSelect: (listId: string) => void;
+  onCreate: (name: string, color: string) => void;
+  onUpdate: (listId: string, changes: Partial<Omit<TodoList, "id">>) => void;
+  onDelete: (listId: string) => void;
+}
+
+const NEW_LIST_COLORS = ["#b834ff", "#39ff14", "#ff8800", "#ff006e", "#f59e0b"];
+
+export function ListSidebar({
+  lists,
+  activeListId,
+  statsByList,
+  onSelect,
+  onCreate,
+  onUpdate,
+  onDelete
+}: ListSidebarProps) {
+  const { t } = useI18n();
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(NEW_LIST_COLORS[0]);
+  const activeList = lists.find(list => list.id === activeListId);
+  const totalPending = Object.values(statsByList).reduce((sum, stats) => sum + stats.pending, 0);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onCreate(name, color);
+    setName("");
+    setColor(NEW_LIST_COLORS[(NEW_LIST_COLORS.indexOf(color) + 1) % NEW_LIST_COLORS.length]);
+  };
+
+  const entry = (listId: string, label: string, listColor: string, pending: number) => (
+    <li key={listId}>
+      <button
+        style={{
+          ...styles.listEntry,
+          borderLeftColor: listColor,
+          ...(activeListId === listId ? { background: "rgba(0,212,255,0.12)", color: "white" } : {})
+        }}
+        onClick={() => onSelect(listId)}
+        aria-current={activeListId === listId ? "page" : undefined}
+      >
+        <span>{label}</span>
+        <span style={styles.progress}>{pending}</span>
+      </button>
+    </li>
+  );
+
+  return (
+    <nav style={{ ...styles.form, marginBottom: "30px" }} aria-label={t("lists.nav")}>
+      <h2 style={{ color: "var(--accent-secondary)", marginBottom: "15px" }}>{t("lists.heading")}</h2>
+      <ul style={{ listStyle: "none", padding: 0, margin: "0 0 15px" }}>
+        {entry(ALL_LISTS, t("app.allLists"), "rgba(255,255,255,0.3)", totalPending)}
+        {lists.map(list => entry(list.id, list.name, list.color, statsByList[list.id]?.pending ?? 0))}
+      </ul>
+
+      <form onSubmit={handleSubmit} style={styles.subtaskForm}>
+        <input
+          style={styles.subtaskInput}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t("lists.newPlaceholder")}
+          aria-label={t("lists.newName")}
+        />
+        <input type="color" value={color} onChange={(e) => setColor(e.target.value)} aria-label={t("lists.newColor")} />
+        <button type="submit" style={styles.subtaskButton} disabled={!name.trim()}>
+          {t("lists.add")}
+        </button>
+      </form>
+
+      {activeList && (
+        <details style={{ color: "var(--accent)" }}>
+          <summary style={{ cursor: "pointer" }}>{t("lists.settings", { name: activeList.name })}</summary>
+          <label style={styles.filterLabel} htmlFor="list-name">{t("lists.name")}</label>
+          <div style={styles.filterRow}>
+            <input
+              id="list-name"
+              style={{ ...styles.subtaskInput, flex: 1 }}
+              value={activeList.name}
+              onChange={(e) => onUpdate(activeList.id, { name: e.target.value })}
+            />
+            <input
+              type="color"
+              value={activeList.color}
+              onChange={(e) => onUpdate(activeList.id, { color: e.target.value })}
+              aria-label={t("lists.color")}
+            />
+          </div>
+          <label style={styles.filterLabel} htmlFor="list-sort">{t("lists.defaultSort")}</label>
+          <select
+            id="list-sort"
+            style={styles.select}
+            value={activeList.defaultSort}
+            onChange={(e) => onUpdate(activeList.id, { defaultSort: e.target.value as TaskSort })}
+          >
+            {TASK_SORTS.map(option => (
+              <option key={option} value={option}>{t(`sort.${option}`)}</option>
+            ))}
+          </select>
+          <label style={styles.filterLabel} htmlFor="list-filter">{t("lists.defaultFilter")}</label>
+          <select
+            id="list-filter"
+            style={styles.select}
+            value={activeList.defaultFilter}
+            onChange={(e) => onUpdate(activeList.id, { defaultFilter: e.target.value as TaskFilter })}
+          >
+            {TASK_FILTERS.map(option => (
+              <option key={option} value={option}>{t(`filter.${option}`)}</option>
+            ))}
+          </select>
+          {activeList.id !== DEFAULT_LIST_ID && (
+            <button style={{ ...styles.deleteBtn, display: "block", marginTop: "15px" }} onClick={() => onDelete(activeList.id)}>
+              {t("lists.delete", { fallback: lists[0].name })}
+            </button>
+          )}
+        </details>
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,59 @@
+import type { QuickAddToken } from "../utils/quickAdd";
+import { getTagColor, type TagColors } from "../hooks/useTagColors";
+import { formatDay } from "../utils/calendar";
+import { PRIORITY_COLORS } from "../utils/priority";
+import type { Translator } from "../i18n/i18n";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+interface QuickAddChipsProps {
+  tokens: QuickAddToken[];
+  tagColors: TagColors;
+  // Retirer une chip laisse son texte dans le titre
+  onIgnore: (text: string) => void;
+}
+
+const describeToken = (token: QuickAddToken, i18n: Translator): string => {
+  switch (token.kind) {
+    case "date":
+      return `📅 ${formatDay(token.value, { weekday: "long", day: "numeric", month: "short" }, i18n)}`;
+    case "time":
+      return `⏰ ${token.value}`;
+    case "tag":
+      return `#${token.value}`;
+    case "priority":
+      return `⚑ ${i18n.t(`priority.${token.value}`)}`;
+  }
+};
+
+const tokenColor = (token: QuickAddToken, tagColors: TagColors): string => {
+  if (token.kind === "tag") return getTagColor(tagColors, token.value);
+  if (token.kind === "priority") return PRIORITY_COLORS[token.value];
+  return "#00d4ff";
+};
+
+export function QuickAddChips({ tokens, tagColors, onIgnore }: QuickAddChipsProps) {
+  const i18n = useI18n();
+  if (tokens.length === 0) return null;
+
+  return (
+    <div style={{ ...styles.tagList, marginBottom: "15px" }} aria-live="polite" aria-label={i18n.t("quickAdd.region")}>
+      {tokens.map(token => {
+        const color = tokenColor(token, tagColors);
+        return (
+          <span key={`${token.kind}-${token.text}`} style={{ ...styles.tagChip, color, borderColor: color }} title={token.text}>
+            {describeToken(token, i18n)}
+            <button
+              type="button"
+              style={styles.tagRemove}
+              onClick={() => onIgnore(token.text)}
+              aria-label={i18n.t("quickAdd.keep", { text: token.text })}
+            >
+              ×
+            </button>
+          </span>
+        );
+      })}
+    </div>
+  );
+}
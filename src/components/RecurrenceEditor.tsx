@@ -0,0 +1,141 @@
+import type { RecurrenceFrequency, RecurrenceRule } from "../types/Task";
+import { WEEKDAY_ORDER, weekdayLabels } from "../utils/recurrence";
+import { toDateInputValue } from "../utils/validation";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+interface RecurrenceEditorProps {
+  value?: RecurrenceRule;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+}
+
+type EndMode = "never" | "until" | "count";
+
+const defaultRule = (frequency: RecurrenceFrequency): RecurrenceRule => ({
+  frequency,
+  interval: 1,
+  weekdays: frequency === "weekly" ? [new Date().getDay()] : []
+});
+
+export function RecurrenceEditor({ value, onChange }: RecurrenceEditorProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const endMode: EndMode = value?.until ? "until" : value?.count !== undefined ? "count" : "never";
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+    const weekdays = value.weekdays.includes(day)
+      ? value.weekdays.filter(d => d !== day)
+      : [...value.weekdays, day];
+    update({ weekdays });
+  };
+
+  const changeEndMode = (mode: EndMode) => {
+    update({
+      until: mode === "until" ? value?.until ?? new Date() : undefined,
+      count: mode === "count" ? value?.count ?? 10 : undefined
+    });
+  };
+
+  return (
+    <fieldset style={styles.recurrence}>
+      <legend style={{ color: "var(--accent-secondary)", padding: "0 6px" }}>{t("recurrence.legend")}</legend>
+
+      <div style={styles.filterRow}>
+        <select
+          style={styles.select}
+          aria-label={t("recurrence.frequency")}
+          value={value?.frequency ?? "none"}
+          onChange={(e) => onChange(e.target.value === "none" ? undefined : defaultRule(e.target.value as RecurrenceFrequency))}
+        >
+          <option value="none">{t("recurrence.none")}</option>
+          <option value="daily">{t("recurrence.daily")}</option>
+          <option value="weekly">{t("recurrence.weekly")}</option>
+          <option value="monthly">{t("recurrence.monthly")}</option>
+        </select>
+
+        {value && (
+          <label>
+            {t("recurrence.every")}{" "}
+            <input
+              style={{ ...styles.select, width: "60px" }}
+              type="number"
+              min={1}
+              aria-label={t("recurrence.interval")}
+              value={value.interval}
+              onChange={(e) => update({ interval: Number(e.target.value) })}
+            />{" "}
+            {t("recurrence.unit", { frequency: value.frequency })}
+          </label>
+        )}
+      </div>
+
+      {value?.frequency === "weekly" && (
+        <div style={{ ...styles.filterRow, marginTop: "10px" }}>
+          {WEEKDAY_ORDER.map(day => (
+            <label key={day}>
+              <input type="checkbox" checked={value.weekdays.includes(day)} onChange={() => toggleWeekday(day)} />
+              {" "}{weekdayLabels(i18n)[day]}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {value?.frequency === "monthly" && (
+        <div style={{ ...styles.filterRow, marginTop: "10px" }}>
+          <select
+            style={styles.select}
+            aria-label={t("recurrence.monthDay")}
+            value={value.monthDay ?? 0}
+            onChange={(e) => update({ monthDay: Number(e.target.value) || undefined })}
+          >
+            <option value={0}>{t("recurrence.sameDay")}</option>
+            {Array.from({ length: 31 }, (_, i) => i + 1).map(day => (
+              <option key={day} value={day}>{t("recurrence.dayOfMonth", { day })}</option>
+            ))}
+            <option value={-1}>{t("recurrence.lastDay")}</option>
+          </select>
+        </div>
+      )}
+
+      {value && (
+        <div style={{ ...styles.filterRow, marginTop: "10px" }}>
+          <select
+            style={styles.select}
+            aria-label={t("recurrence.end")}
+            value={endMode}
+            onChange={(e) => changeEndMode(e.target.value as EndMode)}
+          >
+            <option value="never">{t("recurrence.endNever")}</option>
+            <option value="until">{t("recurrence.endUntil")}</option>
+            <option value="count">{t("recurrence.endCount")}</option>
+          </select>
+
+          {endMode === "until" && (
+            <input
+              style={styles.select}
+              type="date"
+              aria-label={t("recurrence.untilDate")}
+              value={toDateInputValue(value.until)}
+              onChange={(e) => update({ until: e.target.value ? new Date(e.target.value) : undefined })}
+            />
+          )}
+          {endMode === "count" && (
+            <input
+              style={{ ...styles.select, width: "70px" }}
+              type="number"
+              min={1}
+              aria-label={t("recurrence.count")}
+              value={value.count}
+              onChange={(e) => update({ count: Number(e.target.value) })}
+            />
+          )}
+        </div>
+      )}
+    </fieldset>
+  );
+}
@@ -0,0 +1,48 @@
+import type { TaskFormData } from "../types/Task";
+import type { TaskFormErrors } from "../utils/validation";
+import { DEFAULT_REMINDER_TIME, REMINDER_OFFSETS } from "../utils/dueDates";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+type ReminderValues = Pick<TaskFormData, "dueTime" | "reminderOffset">;
+
+interface ReminderFieldsProps {
+  value: ReminderValues;
+  errors: TaskFormErrors;
+  onChange: (changes: Partial<ReminderValues>) => void;
+}
+
+export function ReminderFields({ value, errors, onChange }: ReminderFieldsProps) {
+  const { t } = useI18n();
+
+  return (
+    <>
+      <div style={{ ...styles.filterRow, marginBottom: "15px" }}>
+        <input
+          style={styles.select}
+          type="time"
+          aria-label={t("reminder.dueTime")}
+          title={t("reminder.dueTimeHint")}
+          value={value.dueTime}
+          onChange={(e) => onChange({ dueTime: e.target.value })}
+        />
+        <select
+          style={{ ...styles.select, flex: 1 }}
+          aria-label={t("reminder.label")}
+          value={value.reminderOffset ?? ""}
+          onChange={(e) => onChange({ reminderOffset: e.target.value === "" ? undefined : Number(e.target.value) })}
+        >
+          <option value="">{t("reminder.none")}</option>
+          {REMINDER_OFFSETS.map(minutes => (
+            <option key={minutes} value={minutes}>
+              🔔 {t("reminder.offset", { minutes })}
+              {!value.dueTime && minutes < 24 * 60 ? t("reminder.reference", { time: DEFAULT_REMINDER_TIME }) : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+      {errors.dueTime && <span style={styles.errorMessage}>{errors.dueTime}</span>}
+      {errors.reminderOffset && <span style={styles.errorMessage}>{errors.reminderOffset}</span>}
+    </>
+  );
+}
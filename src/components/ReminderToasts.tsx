@@ -0,0 +1,52 @@
+import { reminderMessage, type Reminder } from "../utils/reminders";
+import type { MessageKey, MessageParams } from "../i18n/i18n";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+interface ReminderToastsProps {
+  reminders: Reminder[];
+  onDismiss: (key: string) => void;
+  onSnooze: (key: string, minutes: number) => void;
+}
+
+const SNOOZE_OPTIONS: { minutes: number; label: MessageKey; params?: MessageParams }[] = [
+  { minutes: 10, label: "reminder.delayMinutes", params: { count: 10 } },
+  { minutes: 60, label: "reminder.delayHours", params: { count: 1 } },
+  { minutes: 24 * 60, label: "reminder.snoozeTomorrow" }
+];
+
+export function ReminderToasts({
+  reminders,
+  onDismiss,
+  onSnooze
+}: ReminderToastsProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  if (reminders.length === 0) return null;
+
+  return (
+    <div style={styles.toastStack} role="region" aria-label={t("reminder.region")} aria-live="polite">
+      {reminders.map(reminder => (
+        <div
+          key={reminder.key}
+          style={{ ...styles.toast, borderColor: reminder.kind === "overdue" ? "var(--danger)" : "var(--accent)" }}
+          role="alert"
+        >
+          <strong>{reminder.kind === "overdue" ? "⏰" : "🔔"} {reminder.title}</strong>
+          <small style={{ display: "block", color: "var(--text-muted)", margin: "4px 0 10px" }}>{reminderMessage(reminder, i18n)}</small>
+          <div style={styles.filterRow}>
+            <span style={{ color: "var(--text-muted)", fontSize: "0.85rem" }}>{t("reminder.snooze")}</span>
+            {SNOOZE_OPTIONS.map(option => (
+              <button key={option.minutes} style={styles.subtaskButton} onClick={() => onSnooze(reminder.key, option.minutes)}>
+                {t(option.label, option.params)}
+              </button>
+            ))}
+            <button style={styles.editBtn} onClick={() => onDismiss(reminder.key)}>
+              {t("reminder.ok")}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
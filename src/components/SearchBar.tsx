@@ -0,0 +1,39 @@
+import type { Ref } from "react";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+interface SearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  inputRef?: Ref<HTMLInputElement>;
+}
+
+const SEARCH_HELP = [
+  '"expression exacte"',
+  "-exclure",
+  "is:done · is:todo · is:doing · is:blocked · is:overdue",
+  "due:<2026-11-01 · due:none",
+  "tag:travail · #travail",
+  "prio:>=haute"
+].join("\n");
+
+export function SearchBar({ query, onQueryChange, inputRef }: SearchBarProps) {
+  const { t } = useI18n();
+
+  return (
+    <div style={styles.filterRow}>
+      <input
+        style={{ ...styles.input, marginBottom: 0, flex: 1 }}
+        type="search"
+        ref={inputRef}
+        aria-label={t("search.label")}
+        placeholder={t("search.placeholder")}
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+      />
+      <span title={SEARCH_HELP} style={{ cursor: "help", color: "var(--accent-secondary)" }} aria-label={t("search.syntax")}>
+        ❔
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useId, useRef, useState, type KeyboardEvent } from "react";
+import {
+  DEFAULT_SHORTCUTS,
+  RESERVED_BINDINGS,
+  SHORTCUT_ACTIONS,
+  eventToBinding,
+  findShortcut,
+  formatBinding,
+  rebindShortcut,
+  type ShortcutAction,
+  type ShortcutBindings
+} from "../utils/shortcuts";
+import type { MessageKey } from "../i18n/i18n";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+interface ShortcutHelpProps {
+  open: boolean;
+  bindings: ShortcutBindings;
+  onChange: (bindings: ShortcutBindings) => void;
+  onClose: () => void;
+}
+
+// Raccourcis fixes, rappelés pour mémoire
+const FIXED_SHORTCUTS: [string, MessageKey][] = [
+  ["Mod+z", "shortcuts.fixed.undo"],
+  ["Mod+Shift+z", "shortcuts.fixed.redo"],
+  ["Alt+ArrowUp", "shortcuts.fixed.moveUp"],
+  ["Alt+ArrowDown", "shortcuts.fixed.moveDown"],
+  ["Escape", "shortcuts.fixed.escape"]
+];
+
+function Keys({ binding }: { binding: string }) {
+  const i18n = useI18n();
+  if (binding === "") return <small style={{ color: "var(--text-muted)" }}>{i18n.t("shortcuts.none")}</small>;
+  return <>{formatBinding(binding, i18n).map(key => <kbd key={key} style={styles.kbd}>{key}</kbd>)}</>;
+}
+
+// "?" : aide des raccourcis, chacun pouvant être remplacé par la prochaine touche pressée
+export function ShortcutHelp({ open, bindings, onChange, onClose }: ShortcutHelpProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const titleId = useId();
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+    if (open && !dialog.open) dialog.showModal();
+    if (!open && dialog.open) dialog.close();
+  }, [open]);
+
+  const close = () => {
+    setCapturing(null);
+    setMessage("");
+    onClose();
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDialogElement>) => {
+    if (!capturing) return;
+    const binding = eventToBinding(e.nativeEvent);
+    if (!binding) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    if (binding === "Escape") {
+      setCapturing(null);
+      setMessage(t("shortcuts.cancelled"));
+      return;
+    }
+    const keys = formatBinding(binding, i18n).join("+");
+    if (RESERVED_BINDINGS.includes(binding)) {
+      setMessage(t("shortcuts.reserved", { keys }));
+      return;
+    }
+
+    const previous = findShortcut(bindings, binding);
+    onChange(rebindShortcut(bindings, capturing, binding));
+    setMessage(previous && previous !== capturing
+      ? t("shortcuts.swapped", { keys, action: t(`shortcuts.${capturing}`), previous: t(`shortcuts.${previous}`) })
+      : t("shortcuts.assigned", { keys, action: t(`shortcuts.${capturing}`) }));
+    setCapturing(null);
+  };
+
+  return (
+    <dialog
+      ref={dialogRef}
+      style={{ ...styles.dialog, maxWidth: "520px", width: "90vw", borderColor: "var(--accent-secondary)" }}
+      aria-labelledby={titleId}
+      onKeyDown={handleKeyDown}
+      onCancel={(e) => {
+        e.preventDefault();
+        if (capturing) {
+          setCapturing(null);
+        } else {
+          close();
+        }
+      }}
+    >
+      <h2 id={titleId} style={{ color: "var(--accent-secondary)", marginTop: 0 }}>{t("shortcuts.heading")}</h2>
+      <table style={{ width: "100%", borderCollapse: "collapse", color: "var(--text)", fontSize: "0.9rem" }}>
+        <tbody>
+          {SHORTCUT_ACTIONS.map(action => (
+            <tr key={action}>
+              <th scope="row" style={{ textAlign: "left", fontWeight: "normal", padding: "4px 0" }}>{t(`shortcuts.${action}`)}</th>
+              <td style={{ whiteSpace: "nowrap" }}>
+                {capturing === action ? <small style={{ color: "var(--accent)" }}>{t("shortcuts.pressKey")}</small> : <Keys binding={bindings[action]} />}
+              </td>
+              <td style={{ textAlign: "right" }}>
+                <button
+                  style={styles.subtaskButton}
+                  onClick={() => {
+                    setCapturing(capturing === action ? null : action);
+                    setMessage("");
+                  }}
+                  aria-pressed={capturing === action}
+                  aria-label={t("shortcuts.changeLabel", { action: t(`shortcuts.${action}`) })}
+                >
+                  {capturing === action ? t("shortcuts.escToCancel") : t("shortcuts.change")}
+                </button>
+              </td>
+            </tr>
+          ))}
+          {FIXED_SHORTCUTS.map(([binding, label]) => (
+            <tr key={binding} style={{ color: "var(--text-muted)" }}>
+              <th scope="row" style={{ textAlign: "left", fontWeight: "normal", padding: "4px 0" }}>{t(label)}</th>
+              <td colSpan={2}><Keys binding={binding} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p style={{ color: "var(--accent)", minHeight: "1.5em", margin: "10px 0" }} role="status">{message}</p>
+      <div style={{ ...styles.filterRow, justifyContent: "flex-end" }}>
+        <button
+          style={styles.deleteBtn}
+          onClick={() => {
+            onChange(DEFAULT_SHORTCUTS);
+            setCapturing(null);
+            setMessage(t("shortcuts.resetDone"));
+          }}
+        >
+          {t("shortcuts.reset")}
+        </button>
+        <button style={styles.editBtn} onClick={close} autoFocus>
+          {t("shortcuts.close")}
+        </button>
+      </div>
+    </dialog>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState, type FormEvent } from "react";
+import type { Subtask } from "../types/Task";
+import { MAX_SUBTASK_DEPTH, countSubtasks } from "../utils/subtasks";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+interface SubtaskListProps {
+  subtasks: Subtask[];
+  depth?: number;
+  onToggle: (subtaskId: string) => void;
+  onAdd: (title: string, parentSubtaskId: string | null) => void;
+  onMove: (subtaskId: string, offset: number) => void;
+  onDelete: (subtaskId: string) => void;
+}
+
+interface SubtaskInputProps {
+  placeholder: string;
+  onSubmit: (title: string) => void;
+  onCancel?: () => void;
+}
+
+function SubtaskInput({ placeholder, onSubmit, onCancel }: SubtaskInputProps) {
+  const { t } = useI18n();
+  const [title, setTitle] = useState("");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+
+    onSubmit(title);
+    setTitle("");
+  };
+
+  return (
+    <form style={styles.subtaskForm} onSubmit={handleSubmit}>
+      <input
+        style={styles.subtaskInput}
+        type="text"
+        aria-label={placeholder}
+        placeholder={placeholder}
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        onKeyDown={(e) => e.key === "Escape" && onCancel?.()}
+        autoFocus={Boolean(onCancel)}
+      />
+      <button type="submit" style={styles.subtaskButton} aria-label={t("subtasks.add")}>+</button>
+    </form>
+  );
+}
+
+export function SubtaskList({ subtasks, depth = 1, onToggle, onAdd, onMove, onDelete }: SubtaskListProps) {
+  const { t } = useI18n();
+  const [addingTo, setAddingTo] = useState<string | null>(null);
+
+  return (
+    <div>
+      <ul style={styles.subtaskList}>
+        {subtasks.map((subtask, index) => {
+          const progress = countSubtasks(subtask.subtasks);
+
+          return (
+            <li key={subtask.id}>
+              <div style={styles.subtaskRow}>
+                <input
+                  type="checkbox"
+                  style={styles.checkbox}
+                  checked={subtask.completed}
+                  onChange={() => onToggle(subtask.id)}
+                  aria-label={subtask.title}
+                />
+                <span style={{ flex: 1, ...(subtask.completed ? styles.taskCompleted : {}) }}>
+                  {subtask.title}
+                  {progress.total > 0 && <small style={styles.progress}> {progress.completed}/{progress.total}</small>}
+                </span>
+                <button style={styles.subtaskButton} onClick={() => onMove(subtask.id, -1)} disabled={index === 0} aria-label={t("subtasks.moveUp")}>↑</button>
+                <button style={styles.subtaskButton} onClick={() => onMove(subtask.id, 1)} disabled={index === subtasks.length - 1} aria-label={t("subtasks.moveDown")}>↓</button>
+                {depth < MAX_SUBTASK_DEPTH && (
+                  <button style={styles.subtaskButton} onClick={() => setAddingTo(subtask.id)} aria-label={t("subtasks.addChild")}>＋</button>
+                )}
+                <button style={styles.subtaskButton} onClick={() => onDelete(subtask.id)} aria-label={t("subtasks.delete")}>✕</button>
+              </div>
+
+              {subtask.subtasks.length > 0 && (
+                <SubtaskList
+                  subtasks={subtask.subtasks}
+                  depth={depth + 1}
+                  onToggle={onToggle}
+                  onAdd={onAdd}
+                  onMove={onMove}
+                  onDelete={onDelete}
+                />
+              )}
+
+              {addingTo === subtask.id && (
+                <div style={{ paddingLeft: "20px" }}>
+                  <SubtaskInput
+                    placeholder={t("subtasks.childOf", { title: subtask.title })}
+                    onSubmit={(title) => {
+                      onAdd(title, subtask.id);
+                      setAddingTo(null);
+                    }}
+                    onCancel={() => setAddingTo(null)}
+                  />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {depth === 1 && (
+        <SubtaskInput placeholder={t("subtasks.new")} onSubmit={(title) => onAdd(title, null)} />
+      )}
+    </div>
+  );
+}
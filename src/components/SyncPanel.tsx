@@ -0,0 +1,79 @@
+import { useState, type FormEvent } from "react";
+import type { SyncStatus } from "../storage/syncRepository";
+import { calendarFeedUrl } from "../storage/syncProtocol";
+import type { Translator } from "../i18n/i18n";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+interface SyncPanelProps {
+  endpoint: string;
+  status: SyncStatus | null;
+  onEndpointChange: (endpoint: string) => void;
+  onSyncNow: () => void;
+}
+
+// Le détail d'une erreur vient du serveur ou du navigateur : il n'est pas traduit
+const describeStatus = (status: SyncStatus, { t, formatDate }: Translator): string => {
+  const pending = t("sync.pending", { count: status.pending });
+  switch (status.state) {
+    case "syncing":
+      return t("sync.syncing") + pending;
+    case "offline":
+      return t("sync.offline") + pending;
+    case "error":
+      return t("sync.error", { error: status.error ?? t("sync.unreachable") }) + pending;
+    case "idle":
+      return status.lastSyncedAt
+        ? t("sync.syncedAt", { time: formatDate(status.lastSyncedAt, { timeStyle: "medium" }) }) + pending
+        : t("sync.waiting") + pending;
+  }
+};
+
+export function SyncPanel({ endpoint, status, onEndpointChange, onSyncNow }: SyncPanelProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [draft, setDraft] = useState(endpoint);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onEndpointChange(draft.trim());
+  };
+
+  return (
+    <form style={styles.filters} onSubmit={handleSubmit}>
+      <h3 style={{ color: "var(--accent-secondary)", marginBottom: "15px" }}>{t("sync.heading")}</h3>
+
+      <div style={styles.filterRow}>
+        <input
+          style={{ ...styles.select, flex: 1 }}
+          type="url"
+          aria-label={t("sync.endpoint")}
+          placeholder="http://localhost:8787"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+        />
+        <button type="submit" style={styles.editBtn} disabled={draft.trim() === endpoint}>
+          {t("sync.save")}
+        </button>
+        {status && (
+          <button type="button" style={styles.editBtn} onClick={onSyncNow}>
+            {t("sync.now")}
+          </button>
+        )}
+      </div>
+
+      <small style={{ display: "block", marginTop: "10px", color: "var(--text-muted)" }}>
+        {status ? describeStatus(status, i18n) : t("sync.localOnly")}
+      </small>
+
+      {endpoint && (
+        <small style={{ display: "block", marginTop: "5px", color: "var(--text-muted)" }}>
+          {t("sync.calendarFeed")}{" "}
+          <a href={calendarFeedUrl(endpoint)} style={{ color: "var(--accent-secondary)", wordBreak: "break-all" }}>
+            {calendarFeedUrl(endpoint)}
+          </a>
+        </small>
+      )}
+    </form>
+  );
+}
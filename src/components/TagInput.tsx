@@ -0,0 +1,103 @@
+import { useId, useState, type KeyboardEvent } from "react";
+import { getTagColor, type TagColors } from "../hooks/useTagColors";
+import { normalizeTag } from "../utils/tags";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+interface TagChipProps {
+  tag: string;
+  tagColors: TagColors;
+  count?: number;
+  active?: boolean;
+  onClick?: () => void;
+  onRemove?: () => void;
+}
+
+export function TagChip({ tag, tagColors, count, active = true, onClick, onRemove }: TagChipProps) {
+  const { t } = useI18n();
+  const color = getTagColor(tagColors, tag);
+
+  return (
+    <span
+      style={{
+        ...styles.tagChip,
+        color,
+        borderColor: color,
+        opacity: active ? 1 : 0.5,
+        cursor: onClick ? "pointer" : "default"
+      }}
+      onClick={onClick}
+    >
+      #{tag}
+      {count !== undefined && <small> ({count})</small>}
+      {onRemove && (
+        <button type="button" style={styles.tagRemove} onClick={onRemove} aria-label={t("tags.remove", { tag })}>
+          ×
+        </button>
+      )}
+    </span>
+  );
+}
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[];
+  tagColors: TagColors;
+}
+
+export function TagInput({ value, onChange, suggestions, tagColors }: TagInputProps) {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState("");
+  const listId = useId();
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !value.includes(tag)) {
+      onChange([...value, tag]);
+    }
+    setDraft("");
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === "Backspace" && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div>
+      {value.length > 0 && (
+        <div style={styles.tagList}>
+          {value.map(tag => (
+            <TagChip
+              key={tag}
+              tag={tag}
+              tagColors={tagColors}
+              onRemove={() => onChange(value.filter(other => other !== tag))}
+            />
+          ))}
+        </div>
+      )}
+      <input
+        style={styles.input}
+        type="text"
+        list={listId}
+        aria-label={t("tags.label")}
+        placeholder={t("tags.placeholder")}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => draft && addTag(draft)}
+      />
+      <datalist id={listId}>
+        {suggestions.filter(tag => !value.includes(tag)).map(tag => (
+          <option key={tag} value={tag} />
+        ))}
+      </datalist>
+    </div>
+  );
+}
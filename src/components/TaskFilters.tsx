@@ -0,0 +1,152 @@
+import type { TaskCriteria, TaskFilter, TaskPriority, TaskSort } from "../types/Task";
+import { getTagColor, type TagColors } from "../hooks/useTagColors";
+import { TASK_PRIORITIES } from "../utils/priority";
+import { TASK_FILTERS, TASK_SORTS } from "../utils/taskFilters";
+import { TagChip } from "./TagInput";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+interface TaskFiltersProps {
+  criteria: TaskCriteria;
+  sort: TaskSort;
+  tagCounts: Record<string, number>;
+  tagColors: TagColors;
+  onFilterChange: (status: TaskFilter) => void;
+  onCriteriaChange: (changes: Partial<TaskCriteria>) => void;
+  onReset: () => void;
+  onSortChange: (sort: TaskSort) => void;
+  onTagColorChange: (tag: string, color: string) => void;
+}
+
+export function TaskFilters({
+  criteria,
+  sort,
+  tagCounts,
+  tagColors,
+  onFilterChange,
+  onCriteriaChange,
+  onReset,
+  onSortChange,
+  onTagColorChange
+}: TaskFiltersProps) {
+  const { t, compare } = useI18n();
+  const tags = Object.keys(tagCounts).sort(compare);
+
+  const toggleTag = (tag: string) => {
+    onCriteriaChange({
+      tags: criteria.tags.includes(tag) ? criteria.tags.filter(other => other !== tag) : [...criteria.tags, tag]
+    });
+  };
+
+  return (
+    <div style={styles.filters}>
+      <h3 style={{color: "var(--accent-secondary)", marginBottom: "15px"}}>{t("filters.heading")}</h3>
+
+      {TASK_FILTERS.map(filterType => (
+        <button
+          key={filterType}
+          style={{
+            ...styles.filterButton,
+            ...(criteria.status === filterType ? styles.filterButtonActive : {})
+          }}
+          onClick={() => onFilterChange(filterType)}
+        >
+          {t(`filter.${filterType}`)}
+        </button>
+      ))}
+
+      {tags.length > 0 && (
+        <>
+          <span style={styles.filterLabel}>{t("filters.tags")}</span>
+          <div style={styles.tagList}>
+            {tags.map(tag => (
+              <span key={tag} style={{ display: "inline-flex", alignItems: "center", gap: "4px" }}>
+                <TagChip
+                  tag={tag}
+                  tagColors={tagColors}
+                  count={tagCounts[tag]}
+                  active={criteria.tags.length === 0 || criteria.tags.includes(tag)}
+                  onClick={() => toggleTag(tag)}
+                />
+                <input
+                  type="color"
+                  aria-label={t("filters.tagColor", { tag })}
+                  value={getTagColor(tagColors, tag)}
+                  onChange={(e) => onTagColorChange(tag, e.target.value)}
+                  style={{ width: "18px", height: "18px", border: "none", background: "transparent", cursor: "pointer" }}
+                />
+              </span>
+            ))}
+          </div>
+          {criteria.tags.length > 1 && (
+            <select
+              style={styles.select}
+              aria-label={t("filters.tagMode")}
+              value={criteria.tagMode}
+              onChange={(e) => onCriteriaChange({ tagMode: e.target.value as TaskCriteria["tagMode"] })}
+            >
+              <option value="any">{t("filters.tagModeAny")}</option>
+              <option value="all">{t("filters.tagModeAll")}</option>
+            </select>
+          )}
+        </>
+      )}
+
+      <span style={styles.filterLabel}>{t("filters.priority")}</span>
+      <div style={styles.filterRow}>
+        <select
+          style={styles.select}
+          aria-label={t("filters.minPriority")}
+          value={criteria.minPriority}
+          onChange={(e) => onCriteriaChange({ minPriority: e.target.value as TaskPriority })}
+        >
+          {TASK_PRIORITIES.map(priority => <option key={priority} value={priority}>{t(`priority.${priority}`)}</option>)}
+        </select>
+        {t("filters.to")}
+        <select
+          style={styles.select}
+          aria-label={t("filters.maxPriority")}
+          value={criteria.maxPriority}
+          onChange={(e) => onCriteriaChange({ maxPriority: e.target.value as TaskPriority })}
+        >
+          {TASK_PRIORITIES.map(priority => <option key={priority} value={priority}>{t(`priority.${priority}`)}</option>)}
+        </select>
+      </div>
+
+      <span style={styles.filterLabel}>{t("filters.due")}</span>
+      <div style={styles.filterRow}>
+        {t("filters.from")}
+        <input
+          style={styles.select}
+          type="date"
+          aria-label={t("filters.dueFrom")}
+          value={criteria.dueFrom}
+          onChange={(e) => onCriteriaChange({ dueFrom: e.target.value })}
+        />
+        {t("filters.until")}
+        <input
+          style={styles.select}
+          type="date"
+          aria-label={t("filters.dueTo")}
+          value={criteria.dueTo}
+          onChange={(e) => onCriteriaChange({ dueTo: e.target.value })}
+        />
+      </div>
+
+      <span style={styles.filterLabel}>{t("filters.sort")}</span>
+      <div style={styles.filterRow}>
+        <select
+          style={styles.select}
+          aria-label={t("filters.sort")}
+          value={sort}
+          onChange={(e) => onSortChange(e.target.value as TaskSort)}
+        >
+          {TASK_SORTS.map(option => (
+            <option key={option} value={option}>{t(`sort.${option}`)}</option>
+          ))}
+        </select>
+        <button style={styles.filterButton} onClick={onReset}>{t("filters.reset")}</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { I18nProvider } from "../i18n/I18nProvider";
+import { TaskItem } from "./TaskItem";
+import type { TimeTracking } from "./TimeTracker";
+import type { Task } from "../types/Task";
+import { DISPLAY_MODES, applyDisplayMode, axeViolations } from "../test/axe";
+import { TEST_LISTS, makeTask } from "../test/fixtures";
+
+const timeTracking: TimeTracking = {
+  running: null,
+  onStart: vi.fn(),
+  onStop: vi.fn(),
+  onAdd: vi.fn(),
+  onUpdate: vi.fn(),
+  onDelete: vi.fn()
+};
+
+const renderTaskItem = (task: Task) =>
+  render(
+    <I18nProvider>
+      <ul>
+        <li>
+          <TaskItem
+            task={task}
+            onToggle={vi.fn()}
+            onUpdate={vi.fn()}
+            onSkipOccurrence={vi.fn()}
+            onDelete={vi.fn()}
+            onSetAutoComplete={vi.fn()}
+            onAddSubtask={vi.fn()}
+            onToggleSubtask={vi.fn()}
+            onMoveSubtask={vi.fn()}
+            onDeleteSubtask={vi.fn()}
+            onMoveToList={vi.fn()}
+            lists={TEST_LISTS}
+            availableTags={["travail"]}
+            tagColors={{}}
+            urgency="soon"
+            timeTracking={timeTracking}
+          />
+        </li>
+      </ul>
+    </I18nProvider>
+  );
+
+describe.each(DISPLAY_MODES)("TaskItem (thème $theme, animations $motion)", (mode) => {
+  it("n'a aucune violation WCAG AA", async () => {
+    applyDisplayMode(mode);
+    const { container } = renderTaskItem(makeTask({
+      title: "Préparer la facture",
+      description: "Pour le client",
+      dueDate: new Date("2026-11-02T00:00:00.000Z"),
+      priority: "high",
+      tags: ["travail"],
+      estimateMinutes: 60,
+      subtasks: [{ id: "subtask_1", title: "Relire", completed: false, subtasks: [] }]
+    }));
+
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it("étiquette la case de complétion avec le titre", () => {
+    applyDisplayMode(mode);
+    renderTaskItem(makeTask({ title: "Appeler Paul" }));
+
+    expect(screen.getByRole("checkbox", { name: /Appeler Paul/ })).toBeTruthy();
+  });
+});
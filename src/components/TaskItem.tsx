@@ -0,0 +1,333 @@
+import { useState, type FormEvent } from "react";
+import type { OccurrenceRecord, Task, TaskFormData, TaskPriority, TodoList } from "../types/Task";
+import type { RecurrenceScope } from "../hooks/useTasks";
+import type { TagColors } from "../hooks/useTagColors";
+import { toDateInputValue, validateTaskForm, type TaskFormErrors } from "../utils/validation";
+import { countSubtasks } from "../utils/subtasks";
+import { describeRecurrence } from "../utils/recurrence";
+import { URGENCY_COLORS, formatDue, type DueUrgency } from "../utils/dueDates";
+import { PRIORITY_COLORS, TASK_PRIORITIES } from "../utils/priority";
+import { STATUS_COLORS, isCompleted } from "../utils/status";
+import { durationInputValue } from "../utils/timeTracking";
+import type { Translator } from "../i18n/i18n";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+import { SubtaskList } from "./SubtaskList";
+import { TagChip, TagInput } from "./TagInput";
+import { Highlight } from "./Highlight";
+import { RecurrenceEditor } from "./RecurrenceEditor";
+import { ReminderFields } from "./ReminderFields";
+import { TimeTracker, type TimeTracking } from "./TimeTracker";
+
+const describeOccurrence = (entry: OccurrenceRecord, { t, formatDate }: Translator): string =>
+  t("task.historyEntry", {
+    index: entry.index,
+    date: formatDate(entry.scheduledDate, { timeZone: "UTC" }),
+    skipped: String(entry.skipped ?? false),
+    completedAt: entry.completedAt ? formatDate(entry.completedAt) : ""
+  });
+
+interface TaskItemProps {
+  task: Task;
+  onToggle: (taskId: string) => void;
+  onUpdate: (taskId: string, taskData: TaskFormData, scope?: RecurrenceScope) => void;
+  onSkipOccurrence: (taskId: string) => void;
+  onDelete: (taskId: string) => void;
+  onSetAutoComplete: (taskId: string, autoComplete: boolean) => void;
+  onAddSubtask: (taskId: string, title: string, parentSubtaskId: string | null) => void;
+  onToggleSubtask: (taskId: string, subtaskId: string) => void;
+  onMoveSubtask: (taskId: string, subtaskId: string, offset: number) => void;
+  onDeleteSubtask: (taskId: string, subtaskId: string) => void;
+  onMoveToList: (taskId: string, listId: string) => void;
+  lists: TodoList[];
+  // Vue de toutes les listes : la liste de la tâche est affichée
+  list?: TodoList;
+  availableTags: string[];
+  tagColors: TagColors;
+  highlightTerms?: string[];
+  changedElsewhere?: boolean;
+  urgency?: DueUrgency | null;
+  // Raccourci "modifier" : chaque nouvelle valeur ouvre le formulaire d'édition
+  editRequest?: number;
+  timeTracking?: TimeTracking;
+}
+
+export function TaskItem({
+  task,
+  onToggle,
+  onUpdate,
+  onSkipOccurrence,
+  onDelete,
+  onSetAutoComplete,
+  onAddSubtask,
+  onToggleSubtask,
+  onMoveSubtask,
+  onDeleteSubtask,
+  onMoveToList,
+  lists,
+  list,
+  availableTags,
+  tagColors,
+  highlightTerms = [],
+  changedElsewhere = false,
+  urgency = null,
+  editRequest,
+  timeTracking
+}: TaskItemProps) {
+  const i18n = useI18n();
+  const { t, formatDate } = i18n;
+  const [isEditing, setIsEditing] = useState(false);
+  const [formData, setFormData] = useState<TaskFormData>({ title: "", description: "", dueDate: "", dueTime: "", priority: "normal", tags: [] });
+  const [errors, setErrors] = useState<TaskFormErrors>({});
+  const progress = countSubtasks(task.subtasks);
+
+  const startEditing = () => {
+    setFormData({
+      title: task.title,
+      description: task.description ?? "",
+      dueDate: toDateInputValue(task.dueDate),
+      dueTime: task.dueTime ?? "",
+      reminderOffset: task.reminderOffset,
+      priority: task.priority,
+      tags: task.tags,
+      recurrence: task.recurrence?.rule,
+      estimate: durationInputValue(task.estimateMinutes)
+    });
+    setErrors({});
+    setIsEditing(true);
+  };
+
+  // Mise à jour pendant le rendu plutôt que dans un effet : pas de rendu intermédiaire
+  const [handledEditRequest, setHandledEditRequest] = useState(editRequest);
+  if (editRequest !== handledEditRequest) {
+    setHandledEditRequest(editRequest);
+    if (editRequest !== undefined) startEditing();
+  }
+
+  const handleSubmit = (e: FormEvent, scope: RecurrenceScope = "series") => {
+    e.preventDefault();
+
+    const newErrors = validateTaskForm(formData, i18n, { previousDueDate: toDateInputValue(task.dueDate) });
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    onUpdate(task.id, formData, scope);
+    setIsEditing(false);
+  };
+
+  const handleChange = <K extends keyof TaskFormData>(name: K, value: TaskFormData[K]) => {
+    setFormData(prev => ({ ...prev, [name]: value }));
+    if (errors[name]) {
+      setErrors(prev => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <form style={styles.task} onSubmit={handleSubmit} onKeyDown={(e) => e.key === "Escape" && setIsEditing(false)}>
+        {changedElsewhere && (
+          <small style={styles.remoteChange} role="status">
+            {t("task.changedElsewhere")}
+          </small>
+        )}
+        <input
+          style={styles.input}
+          type="text"
+          aria-label={t("task.title")}
+          value={formData.title}
+          onChange={(e) => handleChange("title", e.target.value)}
+          autoFocus
+        />
+        {errors.title && <span style={styles.errorMessage}>{errors.title}</span>}
+
+        <textarea
+          style={{ ...styles.input, minHeight: "80px", resize: "vertical" }}
+          aria-label={t("form.description")}
+          placeholder={t("form.descriptionPlaceholder")}
+          value={formData.description}
+          onChange={(e) => handleChange("description", e.target.value)}
+        />
+
+        <input
+          style={styles.input}
+          type="date"
+          aria-label={t("form.dueDate")}
+          value={formData.dueDate}
+          onChange={(e) => handleChange("dueDate", e.target.value)}
+        />
+        {errors.dueDate && <span style={styles.errorMessage}>{errors.dueDate}</span>}
+
+        <ReminderFields
+          value={formData}
+          errors={errors}
+          onChange={(changes) => setFormData(prev => ({ ...prev, ...changes }))}
+        />
+
+        <select
+          style={styles.input}
+          aria-label={t("form.priority")}
+          value={formData.priority}
+          onChange={(e) => handleChange("priority", e.target.value as TaskPriority)}
+        >
+          {TASK_PRIORITIES.map(priority => (
+            <option key={priority} value={priority}>{t("priority.option", { label: t(`priority.${priority}`) })}</option>
+          ))}
+        </select>
+
+        <input
+          style={styles.input}
+          type="text"
+          aria-label={t("form.estimate")}
+          placeholder={t("form.estimatePlaceholder")}
+          value={formData.estimate ?? ""}
+          onChange={(e) => handleChange("estimate", e.target.value)}
+        />
+        {errors.estimate && <span style={styles.errorMessage}>{errors.estimate}</span>}
+
+        <TagInput
+          value={formData.tags}
+          onChange={(tags) => handleChange("tags", tags)}
+          suggestions={availableTags}
+          tagColors={tagColors}
+        />
+
+        {/* Pour une occurrence, la règle se modifie au niveau de la série */}
+        <RecurrenceEditor value={formData.recurrence} onChange={(recurrence) => handleChange("recurrence", recurrence)} />
+        {errors.recurrence && <span style={styles.errorMessage}>{errors.recurrence}</span>}
+
+        <div style={styles.taskActions}>
+          <button type="button" style={styles.deleteBtn} onClick={() => setIsEditing(false)}>
+            {t("task.cancel")}
+          </button>
+          {task.recurrence && (
+            <button type="button" style={styles.editBtn} onClick={(e) => handleSubmit(e, "occurrence")}>
+              {t("task.saveOccurrence")}
+            </button>
+          )}
+          <button type="submit" style={styles.editBtn}>
+            {task.recurrence ? t("task.saveSeries") : t("task.save")}
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        ...styles.task,
+        ...(isCompleted(task) ? styles.taskCompleted : {})
+      }}
+    >
+      <div style={{display: "flex", alignItems: "flex-start", marginBottom: "15px"}}>
+        <input
+          type="checkbox"
+          style={styles.checkbox}
+          checked={isCompleted(task)}
+          onChange={() => onToggle(task.id)}
+          aria-label={t("task.toggle", { title: task.title })}
+        />
+        <div style={{flex: 1}}>
+          <div style={styles.taskTitle} onDoubleClick={startEditing}>
+            <Highlight text={task.title} terms={highlightTerms} />
+            {progress.total > 0 && <span style={styles.progress}> {progress.completed}/{progress.total}</span>}
+            {changedElsewhere && (
+              <small style={{ ...styles.remoteChange, display: "inline", marginLeft: "8px" }} role="status">
+                {t("task.changedElsewhereShort")}
+              </small>
+            )}
+          </div>
+          {task.description && (
+            <div style={styles.taskDesc}><Highlight text={task.description} terms={highlightTerms} /></div>
+          )}
+          <div style={styles.tagList}>
+            {list && (
+              <span style={{ ...styles.tagChip, color: list.color, borderColor: list.color }}>📁 {list.name}</span>
+            )}
+            {(task.status === "in_progress" || task.status === "blocked") && (
+              <span style={{ ...styles.tagChip, color: STATUS_COLORS[task.status], borderColor: STATUS_COLORS[task.status] }}>
+                {t(`status.${task.status}`)}
+              </span>
+            )}
+            {task.priority !== "normal" && (
+              <span style={{ ...styles.tagChip, color: PRIORITY_COLORS[task.priority], borderColor: PRIORITY_COLORS[task.priority] }}>
+                {t(`priority.${task.priority}`)}
+              </span>
+            )}
+            {urgency && (
+              <span style={{ ...styles.tagChip, color: URGENCY_COLORS[urgency], borderColor: URGENCY_COLORS[urgency] }}>
+                {t(`urgency.${urgency}`)}
+              </span>
+            )}
+            {task.tags.map(tag => <TagChip key={tag} tag={tag} tagColors={tagColors} />)}
+          </div>
+          <small style={{color: "var(--text-muted)"}}>
+            {t("task.createdOn", { date: formatDate(task.createdAt) })}
+            {task.dueDate && t("task.dueOn", { due: formatDue(task, i18n) })}
+            {task.reminderOffset !== undefined && <span title={t("task.reminderSet")}> · 🔔</span>}
+          </small>
+          {task.recurrence && (
+            <small style={{ display: "block", color: "var(--accent-secondary)", marginTop: "4px" }}>
+              🔁 {describeRecurrence(task.recurrence.rule, i18n)} · {t("task.occurrence", { index: task.recurrence.index })}
+              {task.recurrence.rule.count !== undefined && `/${task.recurrence.rule.count}`}
+              {task.recurrence.history.length > 0 && (
+                <span title={task.recurrence.history.map(entry => describeOccurrence(entry, i18n)).join("\n")}>
+                  {t("task.history", {
+                    completed: task.recurrence.history.filter(entry => !entry.skipped).length,
+                    skipped: task.recurrence.history.filter(entry => entry.skipped).length
+                  })}
+                </span>
+              )}
+            </small>
+          )}
+        </div>
+      </div>
+
+      <SubtaskList
+        subtasks={task.subtasks}
+        onToggle={(subtaskId) => onToggleSubtask(task.id, subtaskId)}
+        onAdd={(title, parentSubtaskId) => onAddSubtask(task.id, title, parentSubtaskId)}
+        onMove={(subtaskId, offset) => onMoveSubtask(task.id, subtaskId, offset)}
+        onDelete={(subtaskId) => onDeleteSubtask(task.id, subtaskId)}
+      />
+
+      {timeTracking && <TimeTracker task={task} tracking={timeTracking} />}
+
+      {task.subtasks.length > 0 && (
+        <label style={{ display: "block", color: "var(--accent-secondary)", fontSize: "0.85rem", marginBottom: "10px" }}>
+          <input
+            type="checkbox"
+            style={styles.checkbox}
+            checked={task.autoComplete ?? false}
+            onChange={(e) => onSetAutoComplete(task.id, e.target.checked)}
+          />
+          {t("task.autoComplete")}
+        </label>
+      )}
+
+      <div style={styles.taskActions}>
+        {lists.length > 1 && (
+          <select
+            style={styles.select}
+            value={lists.some(l => l.id === task.listId) ? task.listId : lists[0].id}
+            onChange={(e) => onMoveToList(task.id, e.target.value)}
+            aria-label={t("task.moveToList")}
+          >
+            {lists.map(l => <option key={l.id} value={l.id}>📁 {l.name}</option>)}
+          </select>
+        )}
+        {task.recurrence && !isCompleted(task) && (
+          <button style={styles.editBtn} onClick={() => onSkipOccurrence(task.id)}>
+            {t("task.skip")}
+          </button>
+        )}
+        <button style={styles.editBtn} onClick={startEditing}>
+          {t("task.edit")}
+        </button>
+        <button className="danger-button" style={styles.deleteBtn} onClick={() => onDelete(task.id)}>
+          {t("task.delete")}
+        </button>
+      </div>
+    </div>
+  );
+}
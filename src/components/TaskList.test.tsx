@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { I18nProvider } from "../i18n/I18nProvider";
+import { TaskList } from "./TaskList";
+import { DISPLAY_MODES, applyDisplayMode, axeViolations } from "../test/axe";
+import { makeTask } from "../test/fixtures";
+
+const tasks = [makeTask({ title: "Écrire le rapport" }), makeTask({ title: "Envoyer le devis", status: "done" })];
+
+const renderTaskList = (manual: boolean) =>
+  render(
+    <I18nProvider>
+      <TaskList
+        tasks={tasks}
+        manual={manual}
+        onReorder={vi.fn()}
+        renderTask={task => <p>{task.title}</p>}
+        selection={{ isSelected: () => false, onToggle: vi.fn() }}
+        focusedTaskId={tasks[0].id}
+      />
+    </I18nProvider>
+  );
+
+describe.each(DISPLAY_MODES)("TaskList (thème $theme, animations $motion)", (mode) => {
+  it.each([false, true])("n'a aucune violation WCAG AA (tri manuel : %s)", async (manual) => {
+    applyDisplayMode(mode);
+    const { container } = renderTaskList(manual);
+
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it("expose les tâches comme une liste", () => {
+    applyDisplayMode(mode);
+    renderTaskList(false);
+
+    expect(screen.getByRole("list").querySelectorAll("li")).toHaveLength(tasks.length);
+  });
+});
@@ -0,0 +1,136 @@
+import { useEffect, useRef, useState, type KeyboardEvent, type ReactNode } from "react";
+import type { Task } from "../types/Task";
+import type { ReorderTarget } from "../hooks/useTasks";
+import { usePointerDrag } from "../hooks/usePointerDrag";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+interface TaskListProps {
+  tasks: Task[];
+  // Tri manuel : poignée de glisser-déposer et Alt+Haut / Alt+Bas
+  manual: boolean;
+  onReorder: (taskId: string, target: ReorderTarget) => void;
+  renderTask: (task: Task) => ReactNode;
+  // Sélection multiple : case à cocher devant chaque tâche, Maj+clic pour une plage
+  selection?: {
+    isSelected: (taskId: string) => boolean;
+    onToggle: (taskId: string, range: boolean) => void;
+  };
+  // Tâche courante pour les raccourcis clavier (j / k), mise en évidence et focalisée
+  focusedTaskId?: string | null;
+  onFocusTask?: (taskId: string) => void;
+}
+
+// Tâche sous le pointeur : moitié haute = avant elle, moitié basse = après elle
+const reorderTargetAt = (x: number, y: number, taskId: string): ReorderTarget | null => {
+  const item = document.elementFromPoint(x, y)?.closest<HTMLElement>("[data-task-id]");
+  const id = item?.dataset.taskId;
+  if (!item || !id || id === taskId) return null;
+
+  const rect = item.getBoundingClientRect();
+  return y < rect.top + rect.height / 2 ? { before: id } : { after: id };
+};
+
+export function TaskList({ tasks, manual, onReorder, renderTask, selection, focusedTaskId, onFocusTask }: TaskListProps) {
+  const { t } = useI18n();
+  const [announcement, setAnnouncement] = useState("");
+  const pendingFocus = useRef<HTMLElement | null>(null);
+
+  // Une tâche déplacée est réinsérée dans le DOM : l'élément qui avait le focus le reprend
+  useEffect(() => {
+    if (!pendingFocus.current) return;
+    pendingFocus.current.focus();
+    pendingFocus.current = null;
+  });
+
+  // Tâche courante changée au clavier ou depuis la palette : le focus la suit, sauf s'il y est déjà
+  useEffect(() => {
+    if (!focusedTaskId) return;
+    const item = document.querySelector<HTMLElement>(`[data-task-id="${CSS.escape(focusedTaskId)}"]`);
+    if (!item || item.contains(document.activeElement)) return;
+    item.focus();
+    item.scrollIntoView({ block: "nearest" });
+  }, [focusedTaskId]);
+
+  const titleOf = (taskId: string) => tasks.find(task => task.id === taskId)?.title ?? "";
+
+  const reorder = (taskId: string, target: ReorderTarget) => {
+    onReorder(taskId, target);
+    setAnnouncement("before" in target
+      ? t("task.movedBefore", { title: titleOf(taskId), anchor: titleOf(target.before) })
+      : t("task.movedAfter", { title: titleOf(taskId), anchor: titleOf(target.after) }));
+  };
+
+  const pointer = usePointerDrag(reorderTargetAt, reorder);
+  const target = pointer.drag?.target;
+
+  // Alt+Haut / Alt+Bas : échange avec la tâche visible voisine
+  const handleKeyDown = (e: KeyboardEvent<HTMLLIElement>, task: Task, index: number) => {
+    if (!manual || !e.altKey || (e.key !== "ArrowUp" && e.key !== "ArrowDown")) return;
+    if ((e.target as HTMLElement).closest("input, textarea, select")) return;
+
+    e.preventDefault();
+    const neighbour = tasks[index + (e.key === "ArrowUp" ? -1 : 1)];
+    if (!neighbour) return;
+
+    pendingFocus.current = document.activeElement as HTMLElement | null;
+    reorder(task.id, e.key === "ArrowUp" ? { before: neighbour.id } : { after: neighbour.id });
+  };
+
+  const dropIndicator = <div style={styles.dropIndicator} aria-hidden="true" />;
+
+  return (
+    <>
+      {/* role="list" : Safari retire la sémantique de liste quand les puces sont masquées */}
+      <ul style={{ ...styles.taskList, listStyle: "none" }} role="list" aria-label={t("task.list")}>
+        {tasks.map((task, index) => (
+          <li
+            key={task.id}
+            data-task-id={task.id}
+            tabIndex={-1}
+            style={focusedTaskId === task.id ? styles.taskFocused : undefined}
+            onKeyDown={(e) => handleKeyDown(e, task, index)}
+            onFocus={() => onFocusTask?.(task.id)}
+          >
+            {target && "before" in target && target.before === task.id && dropIndicator}
+            <div style={{ display: "flex", gap: "8px", alignItems: "flex-start", opacity: pointer.drag?.id === task.id ? 0.4 : 1 }}>
+              {manual && (
+                <button
+                  style={{ ...styles.boardHandle, marginTop: "20px" }}
+                  aria-label={t("task.move", { title: task.title })}
+                  title={t("task.moveTitle")}
+                  {...pointer.handlers(task.id)}
+                >
+                  ⠿
+                </button>
+              )}
+              {/* onClick plutôt que onChange : seul l'événement souris porte shiftKey */}
+              {selection && (
+                <input
+                  type="checkbox"
+                  style={{ ...styles.checkbox, marginTop: "24px" }}
+                  checked={selection.isSelected(task.id)}
+                  readOnly
+                  onClick={(e) => selection.onToggle(task.id, e.shiftKey)}
+                  aria-label={t("task.select", { title: task.title })}
+                  title={t("task.selectTitle")}
+                />
+              )}
+              <div style={{ flex: 1, minWidth: 0 }}>{renderTask(task)}</div>
+            </div>
+            {target && "after" in target && target.after === task.id && dropIndicator}
+          </li>
+        ))}
+      </ul>
+
+      {pointer.drag && (
+        <div style={{ ...styles.dragGhost, left: pointer.drag.x + 12, top: pointer.drag.y + 12 }} aria-hidden="true">
+          {titleOf(pointer.drag.id)}
+        </div>
+      )}
+      <div style={styles.srOnly} role="status" aria-live="polite">
+        {announcement}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,100 @@
+import type { Task } from "../types/Task";
+import {
+  dailyTotals,
+  exportTimeEntries,
+  formatTrackedTime,
+  isOverEstimate,
+  trackedTime,
+  type RunningTimer
+} from "../utils/timeTracking";
+import { addDays, formatDay, todayKey } from "../utils/calendar";
+import { downloadTextFile } from "../utils/taskExport";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+interface TimeReportProps {
+  tasks: Task[];
+  running: RunningTimer | null;
+  now: Date;
+}
+
+// Jours affichés dans le total par jour, aujourd'hui compris
+const REPORT_DAYS = 14;
+
+export function TimeReport({ tasks, running, now }: TimeReportProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const totals = dailyTotals(tasks, running, now);
+  const days = Array.from({ length: REPORT_DAYS }, (_, index) => addDays(todayKey(now), -index));
+  const periodTotal = days.reduce((total, day) => total + (totals.get(day) ?? 0), 0);
+  const byTask = tasks
+    .map(task => ({ task, tracked: trackedTime(task, running, now) }))
+    .filter(({ tracked }) => tracked > 0)
+    .sort((a, b) => b.tracked - a.tracked);
+  const hasEntries = tasks.some(task => (task.timeEntries?.length ?? 0) > 0);
+
+  const handleExport = () => {
+    downloadTextFile(exportTimeEntries(tasks), `${t("time.fileName")}-${todayKey(now)}.csv`, "text/csv");
+  };
+
+  return (
+    <section style={{ ...styles.filters, marginTop: "20px", color: "var(--text)" }} aria-labelledby="time-report-heading">
+      <h3 id="time-report-heading" style={{ color: "var(--accent-secondary)", marginBottom: "15px" }}>{t("time.reportHeading")}</h3>
+
+      {byTask.length === 0 ? (
+        <small style={{ color: "var(--text-muted)" }}>{t("time.noEntries")}</small>
+      ) : (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "20px" }}>
+          <table style={{ flex: "1 1 220px", borderCollapse: "collapse", fontSize: "0.9rem" }}>
+            <caption style={{ textAlign: "left", color: "var(--accent-secondary)", marginBottom: "6px" }}>
+              {t("time.byDay", { count: REPORT_DAYS })}
+            </caption>
+            <tbody>
+              {days.map(day => (
+                <tr key={day}>
+                  <th scope="row" style={{ textAlign: "left", fontWeight: "normal", padding: "2px 10px 2px 0" }}>
+                    {formatDay(day, { weekday: "short", day: "numeric", month: "short" }, i18n)}
+                  </th>
+                  <td style={{ textAlign: "right", color: totals.has(day) ? "var(--text)" : "var(--text-muted)" }}>
+                    {totals.has(day) ? formatTrackedTime(totals.get(day) ?? 0, i18n) : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td colSpan={2} style={{ paddingTop: "6px", color: "var(--accent)" }}>
+                  {t("time.total", { duration: formatTrackedTime(periodTotal, i18n) })}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+
+          <table style={{ flex: "2 1 300px", borderCollapse: "collapse", fontSize: "0.9rem" }}>
+            <caption style={{ textAlign: "left", color: "var(--accent-secondary)", marginBottom: "6px" }}>{t("time.byTask")}</caption>
+            <tbody>
+              {byTask.map(({ task, tracked }) => (
+                <tr key={task.id}>
+                  <th scope="row" style={{ textAlign: "left", fontWeight: "normal", padding: "2px 10px 2px 0" }}>{task.title}</th>
+                  <td style={{ textAlign: "right", color: isOverEstimate(task, tracked) ? "var(--danger)" : "var(--text)" }}>
+                    {task.estimateMinutes === undefined
+                      ? formatTrackedTime(tracked, i18n)
+                      : t("time.ofEstimate", {
+                          tracked: formatTrackedTime(tracked, i18n),
+                          estimate: formatTrackedTime(task.estimateMinutes * 60_000, i18n)
+                        })}
+                    {isOverEstimate(task, tracked) && <> {t("time.overEstimate")}</>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <button style={{ ...styles.editBtn, marginTop: "15px" }} onClick={handleExport} disabled={!hasEntries}>
+        {t("time.export")}
+      </button>
+    </section>
+  );
+}
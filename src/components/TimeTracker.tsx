@@ -0,0 +1,214 @@
+import { useState, type ChangeEvent, type FormEvent } from "react";
+import type { Task, TimeEntry } from "../types/Task";
+import {
+  durationInputValue,
+  entryDuration,
+  formatElapsed,
+  formatTrackedTime,
+  isOverEstimate,
+  parseDuration,
+  trackedTime,
+  type RunningTimer,
+  type TimeEntryData
+} from "../utils/timeTracking";
+import { todayKey } from "../utils/calendar";
+import { useNow } from "../hooks/useNow";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+// Chronomètre partagé et entrées de temps, transmis par App à chaque tâche
+export interface TimeTracking {
+  running: RunningTimer | null;
+  onStart: (taskId: string) => void;
+  onStop: () => void;
+  onAdd: (taskId: string, entry: TimeEntryData) => void;
+  onUpdate: (taskId: string, entryId: string, entry: TimeEntryData) => void;
+  onDelete: (taskId: string, entryId: string) => void;
+}
+
+interface EntryFormValues {
+  date: string;
+  time: string;
+  duration: string;
+  note: string;
+}
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+// Date et heure locales de l'entrée ; une nouvelle entrée commence maintenant
+const entryFormValues = (entry?: TimeEntry): EntryFormValues => {
+  const start = entry?.start ?? new Date();
+  return {
+    date: todayKey(start),
+    time: `${pad(start.getHours())}:${pad(start.getMinutes())}`,
+    duration: entry ? durationInputValue(Math.max(1, Math.round(entryDuration(entry) / 60_000))) : "",
+    note: entry?.note ?? ""
+  };
+};
+
+interface TimeEntryFormProps {
+  entry?: TimeEntry;
+  onSubmit: (entry: TimeEntryData) => void;
+  onCancel?: () => void;
+}
+
+function TimeEntryForm({ entry, onSubmit, onCancel }: TimeEntryFormProps) {
+  const { t } = useI18n();
+  const [values, setValues] = useState(() => entryFormValues(entry));
+  const [error, setError] = useState("");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const minutes = parseDuration(values.duration);
+    const start = new Date(`${values.date}T${values.time}`);
+    if (minutes === null || Number.isNaN(start.getTime())) {
+      setError(t("time.entryInvalid"));
+      return;
+    }
+
+    onSubmit({ start, end: new Date(start.getTime() + minutes * 60_000), note: values.note.trim() || undefined });
+    setError("");
+    if (!entry) setValues(entryFormValues());
+  };
+
+  const change = (name: keyof EntryFormValues) => (e: ChangeEvent<HTMLInputElement>) =>
+    setValues(prev => ({ ...prev, [name]: e.target.value }));
+
+  return (
+    <form style={styles.timeEntryForm} onSubmit={handleSubmit} onKeyDown={(e) => e.key === "Escape" && onCancel?.()}>
+      <input style={styles.subtaskInput} type="date" aria-label={t("time.date")} value={values.date} onChange={change("date")} />
+      <input style={styles.subtaskInput} type="time" aria-label={t("time.startTime")} value={values.time} onChange={change("time")} />
+      <input
+        style={styles.subtaskInput}
+        type="text"
+        aria-label={t("time.duration")}
+        placeholder={t("time.durationPlaceholder")}
+        value={values.duration}
+        onChange={change("duration")}
+        autoFocus={Boolean(entry)}
+      />
+      <input
+        style={styles.subtaskInput}
+        type="text"
+        aria-label={t("time.note")}
+        placeholder={t("time.note")}
+        value={values.note}
+        onChange={change("note")}
+      />
+      <button type="submit" style={styles.subtaskButton}>{entry ? t("time.save") : t("time.add")}</button>
+      {onCancel && <button type="button" style={styles.subtaskButton} onClick={onCancel}>{t("time.cancel")}</button>}
+      {error && <span style={{ ...styles.errorMessage, margin: 0, flexBasis: "100%" }} role="alert">{error}</span>}
+    </form>
+  );
+}
+
+interface TimeSummaryProps {
+  task: Task;
+  running: RunningTimer | null;
+  now?: Date;
+}
+
+// Temps passé (sur l'estimation) et dépassement, signalé par un texte et pas seulement par la couleur
+function TimeSummary({ task, running, now }: TimeSummaryProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const tracked = trackedTime(task, running, now);
+  const over = isOverEstimate(task, tracked);
+
+  return (
+    <span style={{ color: over ? "var(--danger)" : "var(--text-muted)", fontSize: "0.85rem" }}>
+      ⏱ {task.estimateMinutes === undefined
+        ? formatTrackedTime(tracked, i18n)
+        : t("time.ofEstimate", { tracked: formatTrackedTime(tracked, i18n), estimate: formatTrackedTime(task.estimateMinutes * 60_000, i18n) })}
+      {running && now && <span role="timer"> · {formatElapsed(now.getTime() - running.startedAt.getTime())}</span>}
+      {over && <strong> {t("time.overEstimate")}</strong>}
+    </span>
+  );
+}
+
+// Rafraîchi chaque seconde, seulement pour la tâche chronométrée
+function LiveTimeSummary({ task, running }: { task: Task; running: RunningTimer }) {
+  const now = useNow(1000);
+  return <TimeSummary task={task} running={running} now={now} />;
+}
+
+export function TimeTracker({ task, tracking }: { task: Task; tracking: TimeTracking }) {
+  const i18n = useI18n();
+  const { t, formatDate } = i18n;
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const running = tracking.running?.taskId === task.id ? tracking.running : null;
+  const entries = task.timeEntries ?? [];
+
+  return (
+    <div style={{ marginBottom: "10px" }}>
+      <div style={styles.filterRow}>
+        {running ? <LiveTimeSummary task={task} running={running} /> : <TimeSummary task={task} running={null} />}
+        {running ? (
+          <button style={styles.subtaskButton} onClick={tracking.onStop} aria-label={t("time.stopLabel", { title: task.title })}>
+            {t("time.stop")}
+          </button>
+        ) : (
+          <button style={styles.subtaskButton} onClick={() => tracking.onStart(task.id)} aria-label={t("time.startLabel", { title: task.title })}>
+            {t("time.start")}
+          </button>
+        )}
+      </div>
+
+      <details style={{ marginTop: "6px" }}>
+        <summary style={{ cursor: "pointer", color: "var(--accent-secondary)", fontSize: "0.85rem" }}>
+          {t("time.entries", { count: entries.length })}
+        </summary>
+        <ul style={styles.subtaskList}>
+          {entries.map(entry => {
+            const date = formatDate(entry.start, { dateStyle: "short" });
+            return editingId === entry.id ? (
+              <li key={entry.id}>
+                <TimeEntryForm
+                  entry={entry}
+                  onSubmit={(data) => {
+                    tracking.onUpdate(task.id, entry.id, data);
+                    setEditingId(null);
+                  }}
+                  onCancel={() => setEditingId(null)}
+                />
+              </li>
+            ) : (
+              <li key={entry.id} style={{ ...styles.subtaskRow, fontSize: "0.85rem" }}>
+                <span style={{ flex: 1 }}>
+                  {t("time.entry", {
+                    date,
+                    start: formatDate(entry.start, { timeStyle: "short" }),
+                    end: formatDate(entry.end, { timeStyle: "short" }),
+                    duration: formatTrackedTime(entryDuration(entry), i18n)
+                  })}
+                  {entry.note && ` — ${entry.note}`}
+                </span>
+                <button style={styles.subtaskButton} onClick={() => setEditingId(entry.id)} aria-label={t("time.editEntry", { date })}>
+                  ✏️
+                </button>
+                <button style={styles.subtaskButton} onClick={() => tracking.onDelete(task.id, entry.id)} aria-label={t("time.deleteEntry", { date })}>
+                  🗑️
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+        <TimeEntryForm onSubmit={(data) => tracking.onAdd(task.id, data)} />
+      </details>
+    </div>
+  );
+}
+
+// Rappel du chronomètre en cours dans l'en-tête, même si sa tâche n'est pas affichée
+export function RunningTimerBar({ timer, title, onStop }: { timer: RunningTimer; title: string; onStop: () => void }) {
+  const { t } = useI18n();
+  const now = useNow(1000);
+
+  return (
+    <p style={{ margin: "10px 0 0", color: "var(--accent)" }}>
+      {t("time.running", { title })}{" "}
+      <span role="timer">{formatElapsed(now.getTime() - timer.startedAt.getTime())}</span>
+      <button style={styles.historyButton} onClick={onStop}>{t("time.stop")}</button>
+    </p>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import type { Task } from "../types/Task";
+import { daysBeforePurge, type HousekeepingSettings } from "../utils/trash";
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+import { ConfirmDialog } from "./ConfirmDialog";
+
+interface TrashViewProps {
+  tasks: Task[];
+  now: Date;
+  settings: HousekeepingSettings;
+  onSettingsChange: (changes: Partial<HousekeepingSettings>) => void;
+  onRestore: (taskIds: string[]) => void;
+  onPurge: (taskIds: string[]) => void;
+  onEmpty: () => void;
+}
+
+// Suppression définitive en attente de confirmation : une tâche ou toute la corbeille
+type PendingPurge = { task: Task } | "all";
+
+export function TrashView({ tasks, now, settings, onSettingsChange, onRestore, onPurge, onEmpty }: TrashViewProps) {
+  const { t, formatDate } = useI18n();
+  const [pending, setPending] = useState<PendingPurge | null>(null);
+
+  const confirm = () => {
+    if (pending === "all") {
+      onEmpty();
+    } else if (pending) {
+      onPurge([pending.task.id]);
+    }
+    setPending(null);
+  };
+
+  return (
+    <div style={styles.taskList}>
+      <div style={{ ...styles.filters, padding: "12px 20px" }}>
+        <div style={styles.filterRow}>
+          <label style={{ color: "var(--accent-secondary)" }} htmlFor="trash-retention">{t("trash.retention")}</label>
+          <input
+            id="trash-retention"
+            type="number"
+            min={0}
+            style={{ ...styles.select, width: "80px" }}
+            value={settings.trashRetentionDays}
+            onChange={(e) => onSettingsChange({ trashRetentionDays: Math.max(0, Math.floor(Number(e.target.value))) })}
+          />
+          <span>{t("trash.days")}</span>
+          <button
+            style={{ ...styles.deleteBtn, marginLeft: "auto" }}
+            disabled={tasks.length === 0}
+            onClick={() => setPending("all")}
+          >
+            {t("trash.empty", { count: tasks.length })}
+          </button>
+        </div>
+      </div>
+
+      {tasks.length === 0 ? (
+        <div style={{ ...styles.task, textAlign: "center", color: "var(--accent-secondary)", fontSize: "1.2rem" }}>
+          {t("trash.isEmpty")}
+        </div>
+      ) : (
+        tasks.map(task => {
+          const remaining = daysBeforePurge(task, now, settings);
+          return (
+            <div key={task.id} style={{ ...styles.task, opacity: 0.8 }}>
+              <div style={{ ...styles.taskTitle, textDecoration: "line-through" }}>{task.title}</div>
+              <small style={{ color: "var(--text-muted)" }}>
+                {task.deletedAt && t("trash.deletedOn", { date: formatDate(task.deletedAt) })}
+                {remaining !== null && t("trash.purgeIn", { days: remaining })}
+              </small>
+              <div style={styles.taskActions}>
+                <button style={styles.editBtn} onClick={() => onRestore([task.id])}>
+                  {t("trash.restore")}
+                </button>
+                <button style={styles.deleteBtn} onClick={() => setPending({ task })}>
+                  {t("trash.purge")}
+                </button>
+              </div>
+            </div>
+          );
+        })
+      )}
+
+      <ConfirmDialog
+        open={pending !== null}
+        title={pending === "all" ? t("trash.confirmEmptyTitle") : t("trash.confirmPurgeTitle")}
+        message={
+          pending === "all"
+            ? t("trash.confirmEmpty", { count: tasks.length })
+            : t("trash.confirmPurge", { title: pending?.task.title ?? "" })
+        }
+        confirmLabel={t("trash.confirm")}
+        onConfirm={confirm}
+        onCancel={() => setPending(null)}
+      />
+    </div>
+  );
+}
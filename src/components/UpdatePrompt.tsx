@@ -0,0 +1,30 @@
+import { useI18n } from "../hooks/useI18n";
+import { styles } from "../styles";
+
+interface UpdatePromptProps {
+  onUpdate: () => void;
+  onDismiss: () => void;
+}
+
+export function UpdatePrompt({ onUpdate, onDismiss }: UpdatePromptProps) {
+  const { t } = useI18n();
+
+  return (
+    <div style={{ ...styles.toastStack, right: "auto", left: "20px" }} role="region" aria-label={t("update.region")}>
+      <div style={styles.toast} role="status">
+        <strong>{t("update.available")}</strong>
+        <small style={{ display: "block", color: "var(--text-muted)", margin: "4px 0 10px" }}>
+          {t("update.hint")}
+        </small>
+        <div style={styles.filterRow}>
+          <button style={styles.editBtn} onClick={onUpdate}>
+            {t("update.apply")}
+          </button>
+          <button style={styles.subtaskButton} onClick={onDismiss}>
+            {t("update.later")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { useEffect } from "react";
+import type { Task } from "../types/Task";
+import { useLocalStorage } from "./useLocalStorage";
+import { normalizeActivityLog, syncActivityLog, type ActivityLog } from "../utils/analytics";
+
+const activityLogSerializer = {
+  parse: (raw: string) => normalizeActivityLog(JSON.parse(raw)),
+  stringify: (log: ActivityLog) => JSON.stringify(log)
+};
+
+const emptyLog: ActivityLog = {};
+
+// Historique des créations et achèvements, alimenté par l'état des tâches (corbeille comprise)
+export function useActivityLog(tasks: Task[], loading: boolean): ActivityLog {
+  const [log, setLog] = useLocalStorage<ActivityLog>("activityLog", emptyLog, activityLogSerializer);
+
+  useEffect(() => {
+    // Avant le premier chargement, la liste vide ferait passer toutes les tâches pour supprimées
+    if (loading) return;
+    const next = syncActivityLog(log, tasks, new Date());
+    if (next) setLog(next);
+  }, [tasks, loading, log, setLog]);
+
+  return log;
+}
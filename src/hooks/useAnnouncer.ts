@@ -0,0 +1,12 @@
+import { useState } from "react";
+
+// Texte d'une zone role="status" : un message identique au précédent est modifié pour être relu
+export function useAnnouncer() {
+  const [announcement, setAnnouncement] = useState("");
+
+  const announce = (message: string) => {
+    setAnnouncement(previous => previous === message ? `${message}\u00a0` : message);
+  };
+
+  return { announcement, announce };
+}
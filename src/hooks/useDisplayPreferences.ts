@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import { useLocalStorage } from "./useLocalStorage";
+
+export type Theme = "neon" | "contrast";
+export type MotionPreference = "full" | "reduced";
+
+export interface DisplayPreferences {
+  theme: Theme;
+  motion: MotionPreference;
+}
+
+const matches = (query: string) => typeof window.matchMedia === "function" && window.matchMedia(query).matches;
+
+// Sans choix enregistré : les préférences du système
+const systemPreferences = (): DisplayPreferences => ({
+  theme: matches("(prefers-contrast: more)") ? "contrast" : "neon",
+  motion: matches("(prefers-reduced-motion: reduce)") ? "reduced" : "full"
+});
+
+const preferencesSerializer = {
+  parse: (raw: string): DisplayPreferences => {
+    const value = JSON.parse(raw) as Partial<DisplayPreferences> | null;
+    return {
+      theme: value?.theme === "contrast" ? "contrast" : "neon",
+      motion: value?.motion === "reduced" ? "reduced" : "full"
+    };
+  },
+  stringify: (preferences: DisplayPreferences) => JSON.stringify(preferences)
+};
+
+// Thème et animations, appliqués à <html data-theme data-motion> que lit index.css
+export function useDisplayPreferences() {
+  const [initialPreferences] = useState(systemPreferences);
+  const [preferences, setPreferences] = useLocalStorage<DisplayPreferences>("display", initialPreferences, preferencesSerializer);
+
+  useEffect(() => {
+    document.documentElement.dataset.theme = preferences.theme;
+    document.documentElement.dataset.motion = preferences.motion;
+  }, [preferences.theme, preferences.motion]);
+
+  const updatePreferences = (changes: Partial<DisplayPreferences>) => setPreferences({ ...preferences, ...changes });
+
+  return { ...preferences, updatePreferences };
+}
@@ -0,0 +1,7 @@
+import { useContext } from "react";
+import { I18nContext } from "../i18n/context";
+
+// Traductions, formats de date et de nombre et ordre alphabétique de la langue courante
+export function useI18n() {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,37 @@
+import { useEffect } from "react";
+import { eventToBinding, findShortcut, type ShortcutAction, type ShortcutBindings } from "../utils/shortcuts";
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+const NON_TEXT_INPUTS = ["checkbox", "radio", "button", "submit", "reset", "range", "color", "file"];
+
+// Champ où la touche sert à écrire : une case à cocher ne bloque pas les raccourcis
+const isTextEntry = (target: HTMLElement): boolean =>
+  target.closest('textarea, select, [contenteditable="true"]') !== null ||
+  (target instanceof HTMLInputElement && !NON_TEXT_INPUTS.includes(target.type));
+
+// Raccourcis globaux. Dans un champ de saisie, seuls ceux avec Ctrl / ⌘ restent actifs ;
+// dans une modale (palette, confirmation...), aucun : elle gère son propre clavier.
+export function useKeyboardShortcuts(bindings: ShortcutBindings, handlers: ShortcutHandlers) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.isComposing) return;
+      const target = e.target as HTMLElement;
+      if (target.closest("dialog")) return;
+
+      const binding = eventToBinding(e);
+      if (!binding) return;
+      if (!binding.startsWith("Mod+") && isTextEntry(target)) return;
+
+      const action = findShortcut(bindings, binding);
+      const handler = action && handlers[action];
+      if (!handler) return;
+
+      e.preventDefault();
+      handler();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [bindings, handlers]);
+}
@@ -0,0 +1,43 @@
+import { useMemo } from "react";
+import { useLocalStorage } from "./useLocalStorage";
+import { useI18n } from "./useI18n";
+import type { TodoList } from "../types/Task";
+import { ALL_LISTS, DEFAULT_LIST, DEFAULT_LIST_ID, generateListId, normalizeLists } from "../utils/lists";
+
+const listsSerializer = {
+  parse: (raw: string) => normalizeLists(JSON.parse(raw)),
+  stringify: (lists: TodoList[]) => JSON.stringify(lists)
+};
+
+export function useLists() {
+  const { t } = useI18n();
+  const [storedLists, setLists] = useLocalStorage<TodoList[]>("lists", [DEFAULT_LIST], listsSerializer);
+  // Le nom par défaut n'est jamais enregistré : il suit la langue
+  const lists = useMemo(
+    () => storedLists.map(list => (list.id === DEFAULT_LIST_ID && !list.name ? { ...list, name: t("lists.defaultName") } : list)),
+    [storedLists, t]
+  );
+  const [storedActiveListId, setActiveListId] = useLocalStorage<string>("activeList", DEFAULT_LIST_ID);
+  // Une liste supprimée dans un autre onglet ramène à la vue de toutes les listes
+  const activeListId = storedActiveListId === ALL_LISTS || lists.some(list => list.id === storedActiveListId)
+    ? storedActiveListId
+    : ALL_LISTS;
+
+  const createList = (name: string, color: string): TodoList => {
+    const list: TodoList = { ...DEFAULT_LIST, id: generateListId(), name: name.trim(), color };
+    setLists([...storedLists, list]);
+    return list;
+  };
+
+  const updateList = (listId: string, changes: Partial<Omit<TodoList, "id">>) => {
+    setLists(storedLists.map(list => (list.id === listId ? { ...list, ...changes } : list)));
+  };
+
+  const deleteList = (listId: string) => {
+    if (listId === DEFAULT_LIST_ID) return;
+    setLists(storedLists.filter(list => list.id !== listId));
+    if (activeListId === listId) setActiveListId(DEFAULT_LIST_ID);
+  };
+
+  return { lists, activeListId, setActiveListId, createList, updateList, deleteList };
+}
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { useLocalStorage } from "./useLocalStorage";
+
+describe("useLocalStorage", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("enchaîne les mises à jour fonctionnelles successives", () => {
+    const { result } = renderHook(() => useLocalStorage("counter", 0));
+
+    act(() => {
+      result.current[1](count => count + 1);
+      result.current[1](count => count + 1);
+    });
+
+    expect(result.current[0]).toBe(2);
+    expect(window.localStorage.getItem("counter")).toBe("2");
+  });
+
+  it("ne réabonne pas l'écouteur quand la valeur initiale est un nouveau littéral à chaque rendu", () => {
+    const addListener = vi.spyOn(window, "addEventListener");
+    const { rerender } = renderHook(() => useLocalStorage("filters", { tags: [] as string[] }));
+
+    rerender();
+    rerender();
+
+    expect(addListener.mock.calls.filter(([type]) => type === "storage")).toHaveLength(1);
+  });
+
+  it("revient à la valeur initiale la plus récente quand un autre onglet vide le stockage", () => {
+    const { result, rerender } = renderHook(({ initial }) => useLocalStorage("mode", initial), { initialProps: { initial: "list" } });
+    act(() => result.current[1]("board"));
+    rerender({ initial: "calendar" });
+
+    act(() => {
+      window.dispatchEvent(new StorageEvent("storage", { key: null }));
+    });
+
+    expect(result.current[0]).toBe("calendar");
+  });
+});
@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+// Heure courante rafraîchie périodiquement (compteurs "en retard", "aujourd'hui"...)
+export function useNow(intervalMs: number = 60_000): Date {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -0,0 +1,28 @@
+import { useEffect, useState } from "react";
+import { readPersistence, requestPersistence, type PersistenceState } from "../storage/persistence";
+
+const logError = (error: unknown) => console.warn("Erreur lors de la demande de stockage persistant:", error);
+
+// Demande le stockage persistant au démarrage ; un refus peut être retenté depuis un bouton
+export function usePersistentStorage() {
+  const [persistence, setPersistence] = useState<PersistenceState | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    readPersistence()
+      .then(state => (state === "best-effort" ? requestPersistence() : state))
+      .then(state => {
+        if (!cancelled) setPersistence(state);
+      })
+      .catch(logError);
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const requestAgain = () => {
+    requestPersistence().then(setPersistence).catch(logError);
+  };
+
+  return { persistence, requestPersistence: requestAgain };
+}
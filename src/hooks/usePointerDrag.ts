@@ -0,0 +1,50 @@
+import { useRef, useState, type PointerEvent } from "react";
+
+// Glisser en cours : élément déplacé, cible sous le pointeur (null = hors zone de dépôt) et position
+export interface PointerDrag<T> {
+  id: string;
+  target: T | null;
+  x: number;
+  y: number;
+}
+
+// Distance en pixels avant qu'un appui devienne un glisser (en deçà, c'est un simple clic)
+const DRAG_THRESHOLD = 5;
+
+// Souris et tactile : les événements pointer couvrent les deux, l'élément saisi capture le pointeur
+export function usePointerDrag<T>(
+  findTarget: (x: number, y: number, id: string) => T | null,
+  onDrop: (id: string, target: T) => void
+) {
+  const [drag, setDrag] = useState<PointerDrag<T> | null>(null);
+  const start = useRef<{ id: string; x: number; y: number } | null>(null);
+
+  const cancel = () => {
+    start.current = null;
+    setDrag(null);
+  };
+
+  const handlers = (id: string) => ({
+    onPointerDown: (e: PointerEvent<HTMLElement>) => {
+      if (e.button !== 0) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      start.current = { id, x: e.clientX, y: e.clientY };
+    },
+    onPointerMove: (e: PointerEvent<HTMLElement>) => {
+      const origin = start.current;
+      if (!origin) return;
+      if (!drag && Math.hypot(e.clientX - origin.x, e.clientY - origin.y) < DRAG_THRESHOLD) return;
+
+      setDrag({ id: origin.id, target: findTarget(e.clientX, e.clientY, origin.id), x: e.clientX, y: e.clientY });
+    },
+    onPointerUp: () => {
+      start.current = null;
+      if (!drag) return;
+      setDrag(null);
+      if (drag.target !== null) onDrop(drag.id, drag.target);
+    },
+    onPointerCancel: cancel
+  });
+
+  return { drag, handlers, cancel };
+}
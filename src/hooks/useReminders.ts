@@ -0,0 +1,83 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { Task } from "../types/Task";
+import type { Translator } from "../i18n/i18n";
+import { reconcileReminders, reminderMessage, scheduledReminders, type Reminder, type ReminderLog } from "../utils/reminders";
+import { useI18n } from "./useI18n";
+import { useLocalStorage } from "./useLocalStorage";
+
+export const REMINDERS_KEY = "reminders";
+
+// setTimeout n'accepte pas plus de 2^31 - 1 ms (~24 jours)
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const notificationsSupported = () => typeof window !== "undefined" && "Notification" in window;
+
+const showNotification = (reminder: Reminder, i18n: Translator) => {
+  if (!notificationsSupported() || Notification.permission !== "granted") return;
+  try {
+    // Même "tag" : un seul affichage même si plusieurs onglets déclenchent le rappel
+    new Notification(reminder.kind === "overdue" ? `⏰ ${reminder.title}` : `🔔 ${reminder.title}`, {
+      body: reminderMessage(reminder, i18n),
+      tag: reminder.key
+    });
+  } catch (error) {
+    console.warn("Notification impossible :", error);
+  }
+};
+
+export function useReminders(tasks: Task[]) {
+  const i18n = useI18n();
+  const [log, setLog] = useLocalStorage<ReminderLog>(REMINDERS_KEY, {});
+  // Avancé à l'heure du prochain rappel pour relancer le calcul
+  const [now, setNow] = useState(() => new Date());
+  const [permission, setPermission] = useState<NotificationPermission | "unsupported">(() =>
+    notificationsSupported() ? Notification.permission : "unsupported"
+  );
+  // Évite une double notification quand l'effet est rejoué avant l'écriture du journal
+  const notified = useRef(new Set<string>());
+
+  const reminders = useMemo(() => scheduledReminders(tasks), [tasks]);
+
+  const schedule = useMemo(() => reconcileReminders(reminders, log, now), [reminders, log, now]);
+
+  useEffect(() => {
+    schedule.fired.forEach(reminder => {
+      if (notified.current.has(reminder.key)) return;
+      notified.current.add(reminder.key);
+      showNotification(reminder, i18n);
+    });
+    if (JSON.stringify(schedule.log) !== JSON.stringify(log)) {
+      setLog(schedule.log);
+    }
+  }, [schedule, log, setLog, i18n]);
+
+  useEffect(() => {
+    if (!schedule.nextAt) return;
+    const delay = Math.min(Math.max(schedule.nextAt.getTime() - Date.now(), 0), MAX_TIMEOUT_MS);
+    const timer = setTimeout(() => setNow(new Date()), delay);
+    return () => clearTimeout(timer);
+  }, [schedule.nextAt]);
+
+  const dismiss = (key: string) => {
+    setLog(prev => ({ ...prev, [key]: { status: "dismissed" } }));
+  };
+
+  const snooze = (key: string, minutes: number) => {
+    const until = new Date(Date.now() + minutes * 60 * 1000).toISOString();
+    notified.current.delete(key);
+    setLog(prev => ({ ...prev, [key]: { status: "snoozed", until } }));
+  };
+
+  const requestPermission = async () => {
+    if (!notificationsSupported()) return;
+    setPermission(await Notification.requestPermission());
+  };
+
+  return {
+    activeReminders: schedule.active,
+    dismiss,
+    snooze,
+    notificationPermission: permission,
+    requestPermission
+  };
+}
@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+
+const readParam = (name: string): string => new URLSearchParams(window.location.search).get(name) ?? "";
+
+// État synchronisé avec un paramètre de l'URL (remplacé sans créer d'entrée d'historique)
+export function useSearchParam(name: string) {
+  const [value, setValue] = useState(() => readParam(name));
+
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    if (value) {
+      url.searchParams.set(name, value);
+    } else {
+      url.searchParams.delete(name);
+    }
+    window.history.replaceState(window.history.state, "", url);
+  }, [name, value]);
+
+  useEffect(() => {
+    const handlePopState = () => setValue(readParam(name));
+
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, [name]);
+
+  return [value, setValue] as const;
+}
@@ -0,0 +1,42 @@
+import { useState } from "react";
+
+// Sélection multiple parmi les éléments visibles (dans leur ordre d'affichage)
+export function useSelection(visibleIds: string[]) {
+  const [selected, setSelected] = useState<ReadonlySet<string>>(new Set());
+  // Dernier élément cliqué sans Maj : point de départ des plages
+  const [anchor, setAnchor] = useState<string | null>(null);
+
+  // Un élément masqué par un filtre ou supprimé sort de la sélection
+  const selectedIds = visibleIds.filter(id => selected.has(id));
+
+  // Maj+clic : toute la plage depuis l'ancre prend l'état de l'élément cliqué
+  const toggle = (id: string, range = false) => {
+    const select = !selected.has(id);
+    const from = anchor ? visibleIds.indexOf(anchor) : -1;
+    const to = visibleIds.indexOf(id);
+    const ids = range && from >= 0 && to >= 0
+      ? visibleIds.slice(Math.min(from, to), Math.max(from, to) + 1)
+      : [id];
+
+    const next = new Set(selectedIds);
+    ids.forEach(current => (select ? next.add(current) : next.delete(current)));
+    setSelected(next);
+    if (!range) setAnchor(id);
+  };
+
+  const selectAll = () => setSelected(new Set(visibleIds));
+
+  const clear = () => {
+    setSelected(new Set());
+    setAnchor(null);
+  };
+
+  return {
+    selectedIds,
+    isSelected: (id: string) => selected.has(id),
+    allSelected: visibleIds.length > 0 && selectedIds.length === visibleIds.length,
+    toggle,
+    selectAll,
+    clear
+  };
+}
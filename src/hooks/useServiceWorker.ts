@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from "react";
+
+// Recherche d'un nouveau build déployé
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+// Enregistre le service worker (build de production uniquement) et signale une nouvelle version en attente
+export function useServiceWorker() {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  // Rechargement uniquement après "Mettre à jour" : la première installation prend aussi le contrôle de la page
+  const updating = useRef(false);
+
+  useEffect(() => {
+    if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+    let cancelled = false;
+    let interval: ReturnType<typeof setInterval> | undefined;
+
+    // Sans contrôleur, c'est la première installation : rien à proposer
+    const offer = (worker: ServiceWorker) => {
+      if (!cancelled && navigator.serviceWorker.controller) setWaitingWorker(worker);
+    };
+
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}service-worker.js`)
+      .then(registration => {
+        if (registration.waiting) offer(registration.waiting);
+        registration.addEventListener("updatefound", () => {
+          const installing = registration.installing;
+          installing?.addEventListener("statechange", () => {
+            if (installing.state === "installed") offer(installing);
+          });
+        });
+        interval = setInterval(() => {
+          registration.update().catch(() => {});
+        }, UPDATE_CHECK_MS);
+      })
+      .catch(error => console.warn("Erreur lors de l'enregistrement du service worker:", error));
+
+    const handleControllerChange = () => {
+      if (!updating.current) return;
+      updating.current = false;
+      window.location.reload();
+    };
+    navigator.serviceWorker.addEventListener("controllerchange", handleControllerChange);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      navigator.serviceWorker.removeEventListener("controllerchange", handleControllerChange);
+    };
+  }, []);
+
+  const applyUpdate = () => {
+    if (!waitingWorker) return;
+    updating.current = true;
+    waitingWorker.postMessage({ type: "SKIP_WAITING" });
+  };
+
+  return {
+    updateAvailable: waitingWorker !== null,
+    applyUpdate,
+    dismissUpdate: () => setWaitingWorker(null)
+  };
+}
@@ -0,0 +1,16 @@
+import { useLocalStorage } from "./useLocalStorage";
+import { defaultTagColor } from "../utils/tags";
+
+export type TagColors = Record<string, string>;
+
+export const getTagColor = (colors: TagColors, tag: string): string => colors[tag] ?? defaultTagColor(tag);
+
+export function useTagColors() {
+  const [tagColors, setTagColors] = useLocalStorage<TagColors>("tagColors", {});
+
+  const setTagColor = (tag: string, color: string) => {
+    setTagColors({ ...tagColors, [tag]: color });
+  };
+
+  return { tagColors, setTagColor };
+}
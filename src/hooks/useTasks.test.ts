@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { useTasks } from "./useTasks";
+import { createMemoryTaskRepository } from "../storage/memoryRepository";
+import type { TaskChannel } from "../storage/taskChannel";
+import type { TaskFormData } from "../types/Task";
+import { makeTask } from "../test/fixtures";
+import { MAX_RANK_LENGTH } from "../utils/rank";
+import { DEFAULT_CRITERIA } from "../utils/taskFilters";
+
+// Aucun autre onglet : les opérations ne sont diffusées nulle part
+const silentChannel: TaskChannel = { publish: () => {}, subscribe: () => () => {}, close: () => {} };
+
+const weeklyTask = makeTask({
+  title: "Réunion d'équipe",
+  description: "Point hebdomadaire",
+  dueDate: new Date("2026-10-19T00:00:00.000Z"),
+  dueTime: "09:00",
+  reminderOffset: 15,
+  priority: "normal",
+  tags: ["travail"],
+  estimateMinutes: 30,
+  recurrence: {
+    rule: { frequency: "weekly", interval: 1, weekdays: [1] },
+    seriesId: "series_test",
+    index: 1,
+    scheduledDate: new Date("2026-10-19T00:00:00.000Z"),
+    history: []
+  }
+});
+
+const renderTasks = async () => {
+  const hook = renderHook(() => useTasks({ repository: createMemoryTaskRepository([weeklyTask]), channel: silentChannel }));
+  await waitFor(() => expect(hook.result.current.loading).toBe(false));
+  return hook;
+};
+
+describe("useTasks : occurrences d'une série", () => {
+  it("ne reporte pas sur l'occurrence suivante une modification limitée à l'occurrence", async () => {
+    const { result } = await renderTasks();
+    const occurrenceEdit: TaskFormData = {
+      title: "Réunion d'équipe (salle B)",
+      description: "Avec le client",
+      dueDate: "2026-10-20",
+      dueTime: "14:00",
+      reminderOffset: 60,
+      priority: "high",
+      tags: ["client"],
+      estimate: "2h"
+    };
+
+    act(() => result.current.updateTask(weeklyTask.id, occurrenceEdit, "occurrence"));
+    act(() => result.current.toggleTaskComplete(weeklyTask.id));
+
+    const next = result.current.allTasks.find(task => task.recurrence?.index === 2);
+    expect(next).toMatchObject({
+      title: "Réunion d'équipe",
+      description: "Point hebdomadaire",
+      dueDate: new Date("2026-10-26T00:00:00.000Z"),
+      dueTime: "09:00",
+      reminderOffset: 15,
+      priority: "normal",
+      tags: ["travail"],
+      estimateMinutes: 30
+    });
+    expect(next?.recurrence?.seriesValues).toBeUndefined();
+  });
+
+  it("rend aux valeurs vides de la série leur absence", async () => {
+    const { result } = await renderTasks();
+    act(() => result.current.updateTask(weeklyTask.id, {
+      title: "Réunion d'équipe",
+      description: "",
+      dueDate: "2026-10-19",
+      dueTime: "",
+      priority: "normal",
+      tags: []
+    }, "series"));
+    act(() => result.current.updateTask(weeklyTask.id, {
+      title: "Réunion d'équipe",
+      description: "",
+      dueDate: "2026-10-19",
+      dueTime: "18:00",
+      reminderOffset: 5,
+      priority: "normal",
+      tags: [],
+      estimate: "45 min"
+    }, "occurrence"));
+    act(() => result.current.toggleTaskComplete(weeklyTask.id));
+
+    const next = result.current.allTasks.find(task => task.recurrence?.index === 2);
+    expect(next?.dueTime).toBeUndefined();
+    expect(next?.reminderOffset).toBeUndefined();
+    expect(next?.estimateMinutes).toBeUndefined();
+  });
+
+  it("met l'occurrence sautée à la corbeille au lieu de la supprimer", async () => {
+    const { result } = await renderTasks();
+
+    act(() => result.current.skipOccurrence(weeklyTask.id));
+
+    const next = result.current.allTasks.find(task => task.recurrence?.index === 2);
+    expect(result.current.trashedTasks).toEqual([
+      expect.objectContaining({ id: weeklyTask.id, recurrence: expect.objectContaining({ nextId: next?.id }) })
+    ]);
+    expect(next?.recurrence?.history).toEqual([{ index: 1, scheduledDate: weeklyTask.recurrence?.scheduledDate, skipped: true }]);
+  });
+});
+
+describe("useTasks : ordre manuel", () => {
+  const form = (title: string): TaskFormData => ({ title, description: "", dueDate: "", dueTime: "", priority: "normal", tags: [] });
+
+  it("garde des clés courtes quand les tâches sont toujours ajoutées en tête", async () => {
+    const { result } = renderHook(() => useTasks({ repository: createMemoryTaskRepository(), channel: silentChannel, defaultSort: "manual" }));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    for (let i = 1; i <= 300; i++) {
+      act(() => result.current.createTask(form(`Tâche ${i}`)));
+    }
+
+    const { allTasks, tasks } = result.current;
+    expect(Math.max(...allTasks.map(task => task.rank?.length ?? 0))).toBeLessThanOrEqual(MAX_RANK_LENGTH);
+    expect(tasks.map(task => task.title)).toEqual(Array.from({ length: 300 }, (_, i) => `Tâche ${300 - i}`));
+  });
+
+  it("garde des clés courtes quand une tâche est toujours replacée en fin de liste", async () => {
+    const initial = Array.from({ length: 5 }, (_, i) => makeTask({ title: `Tâche ${i}`, rank: String(i + 1) }));
+    const { result } = renderHook(() => useTasks({ repository: createMemoryTaskRepository(initial), channel: silentChannel, defaultSort: "manual" }));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    for (let i = 0; i < 200; i++) {
+      const [first, , , , last] = result.current.tasks;
+      act(() => result.current.reorderTask(first.id, { after: last.id }));
+    }
+
+    expect(Math.max(...result.current.allTasks.map(task => task.rank?.length ?? 0))).toBeLessThanOrEqual(MAX_RANK_LENGTH);
+    expect(result.current.tasks.map(task => task.title)).toEqual(["Tâche 0", "Tâche 1", "Tâche 2", "Tâche 3", "Tâche 4"]);
+  });
+});
+
+describe("useTasks : filtres", () => {
+  it("réinitialise les critères sur le filtre par défaut de la liste ouverte", async () => {
+    const { result } = renderHook(() =>
+      useTasks({ repository: createMemoryTaskRepository([weeklyTask]), channel: silentChannel, defaultFilter: "pending" })
+    );
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    act(() => result.current.updateCriteria({ status: "completed", tags: ["travail"], minPriority: "high" }));
+    act(() => result.current.resetCriteria());
+
+    expect(result.current.criteria).toEqual({ ...DEFAULT_CRITERIA, status: "pending" });
+  });
+});
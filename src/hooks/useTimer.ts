@@ -0,0 +1,34 @@
+import { useLocalStorage } from "./useLocalStorage";
+import type { RunningTimer } from "../utils/timeTracking";
+
+const runningTimerSerializer = {
+  parse: (raw: string): RunningTimer | null => {
+    const value = JSON.parse(raw) as Partial<Record<keyof RunningTimer, unknown>> | null;
+    const startedAt = typeof value?.startedAt === "string" ? new Date(value.startedAt) : null;
+    return typeof value?.taskId === "string" && startedAt && !Number.isNaN(startedAt.getTime())
+      ? { taskId: value.taskId, startedAt }
+      : null;
+  },
+  stringify: (timer: RunningTimer | null) => JSON.stringify(timer)
+};
+
+// Un seul chronomètre pour toute l'application (et tous les onglets) ; à l'arrêt, le temps écoulé
+// est confié à onStop, qui l'enregistre comme entrée de temps de la tâche
+export function useTimer(onStop: (taskId: string, start: Date, end: Date) => void) {
+  const [running, setRunning] = useLocalStorage<RunningTimer | null>("runningTimer", null, runningTimerSerializer);
+
+  const stop = () => {
+    if (!running) return;
+    onStop(running.taskId, running.startedAt, new Date());
+    setRunning(null);
+  };
+
+  // Démarrer sur une autre tâche arrête et enregistre le chronomètre précédent
+  const start = (taskId: string) => {
+    if (running?.taskId === taskId) return;
+    stop();
+    setRunning({ taskId, startedAt: new Date() });
+  };
+
+  return { running, start, stop };
+}
@@ -0,0 +1,29 @@
+import { useEffect, type ReactNode } from "react";
+import { useLocalStorage } from "../hooks/useLocalStorage";
+import { detectLocale, getTranslator, isLocale, type Locale } from "./i18n";
+import { I18nContext } from "./context";
+
+const localeSerializer = {
+  parse: (raw: string): Locale => {
+    const value: unknown = JSON.parse(raw);
+    return isLocale(value) ? value : detectLocale();
+  },
+  stringify: (locale: Locale) => JSON.stringify(locale)
+};
+
+// Langue choisie (enregistrée), sinon celle du navigateur ; <html lang> et le titre de la page suivent
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocale] = useLocalStorage<Locale>("locale", detectLocale(), localeSerializer);
+  const translator = getTranslator(locale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.title = translator.t("app.title");
+  }, [locale, translator]);
+
+  return (
+    <I18nContext value={{ ...translator, setLocale }}>
+      {children}
+    </I18nContext>
+  );
+}
@@ -0,0 +1,12 @@
+import { createContext } from "react";
+import { DEFAULT_LOCALE, getTranslator, type Locale, type Translator } from "./i18n";
+
+export interface I18nContextValue extends Translator {
+  setLocale: (locale: Locale) => void;
+}
+
+// Valeur hors fournisseur : français, langue non modifiable
+export const I18nContext = createContext<I18nContextValue>({
+  ...getTranslator(DEFAULT_LOCALE),
+  setLocale: () => {}
+});
@@ -0,0 +1,481 @@
+import type { MessageKey } from "./fr";
+
+export const en: Record<MessageKey, string> = {
+  "app.title": "Task Manager",
+  "app.allLists": "🗂️ All lists",
+  "app.summary": "Total: {total} | Done: {completed} | Remaining: {pending} (in progress: {inProgress}, blocked: {blocked})",
+  "app.subtasksSummary": " | Subtasks: {completed}/{total}",
+  "app.dueSummary": "⏰ Overdue: {overdue} | 📌 Today: {today} | 📅 This week: {week}",
+  "app.undo": "↶ Undo",
+  "app.undoTitle": "Undo (Ctrl+Z)",
+  "app.redo": "↷ Redo",
+  "app.redoTitle": "Redo (Ctrl+Shift+Z)",
+  "app.commands": "⌘ Commands",
+  "app.commandsTitle": "Command palette (Ctrl+K)",
+  "app.shortcuts": "⌨️ Shortcuts",
+  "app.shortcutsTitle": "Keyboard shortcuts (?)",
+  "app.enableNotifications": "🔔 Enable notifications",
+  "app.persist": "💾 Protect my data",
+  "app.persistTitle": "Without persistent storage, the browser may clear your tasks when it runs low on space",
+  "app.language": "Language",
+  "app.highContrast": "◐ High contrast",
+  "app.reducedMotion": "⏸ Reduced motion",
+  "app.display": "Display",
+  "app.views": "View",
+  "app.loading": "⏳ Loading tasks...",
+  "app.noSearchResults": "🔎 No task matches the search",
+  "app.emptyAll": "📝 No tasks yet",
+  "app.emptyPending": "✅ No remaining tasks",
+  "app.emptyCompleted": "🎉 No completed tasks",
+
+  "view.list": "📋 List",
+  "view.board": "🗂️ Board",
+  "view.calendar": "📅 Calendar",
+  "view.stats": "📊 Statistics",
+  "view.archive": "📦 Archive",
+  "view.trash": "🗑️ Trash",
+  "view.withCount": "{label} ({count})",
+
+  "status.todo": "To do",
+  "status.in_progress": "In progress",
+  "status.blocked": "Blocked",
+  "status.done": "Done",
+
+  "priority.low": "Low",
+  "priority.normal": "Normal",
+  "priority.high": "High",
+  "priority.urgent": "Urgent",
+  "priority.option": "Priority: {label}",
+
+  "filter.all": "All",
+  "filter.pending": "Remaining",
+  "filter.completed": "Done",
+
+  "sort.newest": "Newest first",
+  "sort.oldest": "Oldest first",
+  "sort.dueDate": "Due date",
+  "sort.alphabetical": "Alphabetical",
+  "sort.priority": "Priority",
+  "sort.manual": "Manual (drag and drop)",
+
+  "urgency.overdue": "⏰ Overdue",
+  "urgency.today": "📌 Today",
+  "urgency.soon": "⏳ Soon",
+
+  "due.withTime": "{date} at {time}",
+
+  "reminder.offset": "{minutes, plural, =0 {When due} =10 {10 minutes before} =60 {1 hour before} =1440 {1 day before} =10080 {1 week before} other {# minutes before}}",
+  "reminder.none": "🔕 No reminder",
+  "reminder.reference": " (at {time})",
+  "reminder.label": "Reminder",
+  "reminder.dueTime": "Due time",
+  "reminder.dueTimeHint": "Without a time, the task is due all day",
+  "reminder.dueIn": "{minutes, plural, =0 {Due now} other {Due in {delay}}} ({due})",
+  "reminder.overdueSince": "Overdue since {due}",
+  "reminder.delayMinutes": "{count} min",
+  "reminder.delayHours": "{count, plural, one {# hour} other {# hours}}",
+  "reminder.delayDays": "{count, plural, one {# day} other {# days}}",
+  "reminder.region": "Reminders",
+  "reminder.snooze": "Snooze:",
+  "reminder.snoozeTomorrow": "Tomorrow",
+  "reminder.ok": "OK",
+
+  "validation.titleRequired": "A title is required",
+  "validation.titleTooShort": "The title must be at least {min, plural, one {# character} other {# characters}} long",
+  "validation.duePast": "The due date cannot be earlier than today ({today})",
+  "validation.timeWithoutDate": "A due time requires a due date",
+  "validation.reminderWithoutDate": "A reminder requires a due date",
+  "validation.intervalInvalid": "The repeat interval must be a positive whole number",
+  "validation.countInvalid": "The number of occurrences must be a positive whole number",
+  "validation.untilBeforeDue": "The repeat end ({until}) must come after the first due date ({due})",
+  "validation.estimateInvalid": "Unreadable estimate: try 45 min, 2h or 1h30",
+
+  "form.heading": "➕ New Task",
+  "form.title": "Task title",
+  "form.titlePlaceholder": "Title... e.g. Call Paul tomorrow 2pm #work !high",
+  "form.description": "Description",
+  "form.descriptionPlaceholder": "Description (optional)...",
+  "form.dueDate": "Due date",
+  "form.priority": "Priority",
+  "form.estimate": "Estimate",
+  "form.estimatePlaceholder": "Estimate (e.g. 1h30)",
+  "form.submit": "Add task",
+
+  "quickAdd.region": "Recognised in the title",
+  "quickAdd.keep": "Keep “{text}” in the title",
+
+  "tags.label": "Tags",
+  "tags.placeholder": "Tags (Enter to add)...",
+  "tags.remove": "Remove tag {tag}",
+
+  "recurrence.legend": "🔁 Repeat",
+  "recurrence.frequency": "Frequency",
+  "recurrence.none": "Does not repeat",
+  "recurrence.daily": "Daily",
+  "recurrence.weekly": "Weekly",
+  "recurrence.monthly": "Monthly",
+  "recurrence.every": "every",
+  "recurrence.interval": "Interval",
+  "recurrence.unit": "{frequency, select, daily {day(s)} weekly {week(s)} other {month(s)}}",
+  "recurrence.monthDay": "Day of the month",
+  "recurrence.sameDay": "Same day as the due date",
+  "recurrence.dayOfMonth": "On the {day, select, 1 {1st} 2 {2nd} 3 {3rd} 21 {21st} 22 {22nd} 23 {23rd} 31 {31st} other {{day}th}}",
+  "recurrence.lastDay": "On the last day",
+  "recurrence.end": "Repeat end",
+  "recurrence.endNever": "Never ends",
+  "recurrence.endUntil": "Until",
+  "recurrence.endCount": "Number of times",
+  "recurrence.untilDate": "End date",
+  "recurrence.count": "Number of occurrences",
+  "recurrence.describeDaily": "{interval, plural, one {Every day} other {Every # days}}",
+  "recurrence.describeWeekly": "{interval, plural, one {Every week} other {Every # weeks}}",
+  "recurrence.describeMonthly": "{interval, plural, one {Every month} other {Every # months}}",
+  "recurrence.describeWeekdays": " ({days})",
+  "recurrence.describeMonthDay": "{day, select, -1 { on the last day} 1 { on the 1st} 2 { on the 2nd} 3 { on the 3rd} 21 { on the 21st} 22 { on the 22nd} 23 { on the 23rd} 31 { on the 31st} other { on the {day}th}}",
+  "recurrence.describeCount": "{count, plural, one {, once} other {, # times}}",
+  "recurrence.describeUntil": ", until {date}",
+
+  "task.changedElsewhere": "🔄 This task was just changed in another tab",
+  "task.changedElsewhereShort": "🔄 changed in another tab",
+  "task.title": "Title",
+  "task.cancel": "Cancel",
+  "task.saveOccurrence": "💾 This occurrence",
+  "task.saveSeries": "💾 Whole series",
+  "task.save": "💾 Save",
+  "task.createdOn": "Created on {date}",
+  "task.dueOn": " · Due {due}",
+  "task.reminderSet": "Reminder set",
+  "task.occurrence": "occurrence {index}",
+  "task.history": " · history: {completed} done, {skipped} skipped",
+  "task.historyEntry": "#{index} on {date}: {skipped, select, true {skipped} other {done on {completedAt}}}",
+  "task.autoComplete": "Complete automatically when all subtasks are done",
+  "task.moveToList": "Move to list",
+  "task.skip": "⏭️ Skip",
+  "task.edit": "✏️ Edit",
+  "task.delete": "🗑️ Delete",
+  "task.move": "Move “{title}” (Alt+Up / Alt+Down)",
+  "task.moveTitle": "Drag to reorder, or Alt+Up / Alt+Down",
+  "task.select": "Select “{title}”",
+  "task.selectTitle": "Shift+click to select a range",
+  "task.list": "Tasks",
+  "task.toggle": "Done: {title}",
+  "announce.created": "Task “{title}” added",
+  "announce.completed": "“{title}” completed",
+  "announce.reopened": "“{title}” reopened",
+  "announce.deleted": "“{title}” moved to the trash",
+  "announce.bulkCompleted": "{count, plural, one {# task completed} other {# tasks completed}}",
+  "announce.bulkReopened": "{count, plural, one {# task reopened} other {# tasks reopened}}",
+  "announce.bulkDeleted": "{count, plural, one {# task moved to the trash} other {# tasks moved to the trash}}",
+  "task.movedBefore": "“{title}” moved before “{anchor}”.",
+  "task.movedAfter": "“{title}” moved after “{anchor}”.",
+
+  "subtasks.add": "Add subtask",
+  "subtasks.new": "New subtask...",
+  "subtasks.childOf": "Subtask of “{title}”...",
+  "subtasks.moveUp": "Move up",
+  "subtasks.moveDown": "Move down",
+  "subtasks.addChild": "Add a subtask",
+  "subtasks.delete": "Delete subtask",
+
+  "search.label": "Search tasks",
+  "search.placeholder": "🔎 Search... (e.g. report tag:work -draft)",
+  "search.syntax": "Search syntax",
+
+  "filters.heading": "🔍 Filters",
+  "filters.tags": "Tags",
+  "filters.tagColor": "Colour of tag {tag}",
+  "filters.tagMode": "Tag matching",
+  "filters.tagModeAny": "At least one tag",
+  "filters.tagModeAll": "All tags",
+  "filters.priority": "Priority",
+  "filters.minPriority": "Minimum priority",
+  "filters.maxPriority": "Maximum priority",
+  "filters.to": "to",
+  "filters.due": "Due date",
+  "filters.from": "from",
+  "filters.until": "to",
+  "filters.dueFrom": "Due from",
+  "filters.dueTo": "Due until",
+  "filters.sort": "Sort",
+  "filters.reset": "Reset filters",
+
+  "lists.nav": "Lists",
+  "lists.heading": "📁 Lists",
+  "lists.defaultName": "My tasks",
+  "lists.newPlaceholder": "New list...",
+  "lists.newName": "Name of the new list",
+  "lists.newColor": "Colour of the new list",
+  "lists.add": "Add",
+  "lists.settings": "⚙️ “{name}” settings",
+  "lists.name": "Name",
+  "lists.color": "List colour",
+  "lists.defaultSort": "Default sort",
+  "lists.defaultFilter": "Default filter",
+  "lists.delete": "🗑️ Delete list (its tasks move to “{fallback}”)",
+
+  "bulk.toolbar": "Selection actions",
+  "bulk.selectAll": "Select all ({count})",
+  "bulk.selected": "{count} selected",
+  "bulk.complete": "✅ Complete",
+  "bulk.reopen": "↩️ Reopen",
+  "bulk.delete": "🗑️ Delete",
+  "bulk.clear": "Deselect",
+  "bulk.moveLabel": "Move selection to list",
+  "bulk.move": "📁 Move to…",
+  "bulk.tag": "🏷️ Tag",
+  "bulk.newDueDate": "New due date",
+  "bulk.reschedule": "📅 Reschedule",
+  "bulk.removeDue": "Remove due date",
+
+  "importExport.heading": "💾 Export / Import",
+  "importExport.format": "Export format",
+  "importExport.format.json": "JSON",
+  "importExport.format.csv": "CSV",
+  "importExport.format.markdown": "Markdown",
+  "importExport.format.ics": "iCalendar (VTODO tasks)",
+  "importExport.format.icsEvents": "iCalendar (VEVENT events)",
+  "importExport.scope": "Tasks to export",
+  "importExport.scopeAll": "All tasks ({count})",
+  "importExport.scopeView": "Current view ({count})",
+  "importExport.export": "⬇️ Export",
+  "importExport.import": "⬆️ Import",
+  "importExport.fileName": "tasks",
+  "importExport.preview": "Preview of {file}: {new} new, {duplicate, plural, one {# duplicate} other {# duplicates}}, {trashed} in the trash, {invalid} invalid",
+  "importExport.row.new": "New",
+  "importExport.row.duplicate": "Duplicate",
+  "importExport.row.trashed": "Trash",
+  "importExport.row.invalid": "Invalid",
+  "importExport.duplicates": "Duplicates:",
+  "importExport.strategy.merge": "Merge with the existing task",
+  "importExport.strategy.replace": "Replace the existing task",
+  "importExport.strategy.skip": "Skip",
+  "importExport.trashed": "Tasks in the trash:",
+  "importExport.trashedStrategy.restore": "Restore the deleted task",
+  "importExport.trashedStrategy.replace": "Replace it with the imported task",
+  "importExport.trashedStrategy.skip": "Leave it in the trash",
+  "importExport.cancel": "Cancel",
+  "importExport.source.file": "file",
+  "importExport.source.line": "line {line}",
+  "importExport.source.record": "#{index}",
+  "importExport.source.component": "{component} {index}",
+  "importExport.error.unreadableJson": "unreadable JSON",
+  "importExport.error.unknownFormat": "unknown format: an array or { version, tasks } is expected",
+  "importExport.error.newerVersion": "version {version} is newer than the supported version",
+  "importExport.error.missingTitleColumn": "“title” column missing from the header",
+  "importExport.error.unrecognizedLine": "unrecognized line (a “- [ ]” checkbox is expected)",
+  "importExport.error.orphanSubtask": "subtask without a parent task",
+  "importExport.error.notICalendar": "not an iCalendar file (BEGIN:VCALENDAR expected)",
+  "importExport.reason.duplicateInFile": "duplicate of an earlier line in the file",
+  "importExport.reason.sameId": "same identifier",
+  "importExport.reason.sameTitleAndDue": "same title and due date",
+  "importExport.confirm": "Import {count, plural, =0 {no tasks} one {# task} other {# tasks}}",
+
+  "codec.notObject": "the record is not an object",
+  "codec.missingField": "missing or invalid field “{field}”",
+  "codec.invalidField": "invalid field “{field}”",
+  "codec.invalidDate": "invalid date “{field}”",
+  "codec.invalidDateValue": "invalid date “{field}”: {value}",
+  "codec.invalidSubtask": "invalid subtask “{path}”",
+  "codec.invalidTimeEntry": "invalid time entry “{path}”",
+  "codec.timeEntryEndsBeforeStart": "time entry “{path}” ends before it starts",
+  "codec.invalidRecurrenceRule": "invalid repeat rule",
+  "codec.invalidRecurrenceHistory": "invalid repeat history",
+  "codec.invalidHistoryEntry": "invalid history entry {index}",
+  "codec.invalidDueTime": "invalid due time: {value}",
+  "codec.invalidReminder": "invalid reminder: {value}",
+  "codec.invalidStatus": "invalid status: {value}",
+  "codec.invalidRank": "invalid order key: {value}",
+  "codec.invalidPriority": "invalid priority: {value}",
+  "codec.invalidEstimate": "invalid estimate: {value}",
+  "codec.invalidCompleted": "invalid “completed” value: {value}",
+  "codec.invalidICalDate": "invalid {property} date: {value}",
+  "codec.noMigration": "no migration from version {version}",
+  "codec.duplicateId": "duplicate identifier “{id}”",
+  "codec.invalidOperation": "invalid operation: {type}",
+  "codec.unexpected": "unexpected error: {error}",
+
+  "sync.heading": "☁️ Sync",
+  "sync.endpoint": "Sync server address",
+  "sync.save": "Save",
+  "sync.now": "🔄 Sync now",
+  "sync.localOnly": "Local storage only",
+  "sync.pending": "{count, plural, =0 {} one { · # pending change} other { · # pending changes}}",
+  "sync.syncing": "🔄 Syncing...",
+  "sync.offline": "📴 Offline",
+  "sync.error": "⚠️ Error: {error}",
+  "sync.unreachable": "server unreachable",
+  "sync.syncedAt": "✅ Synced at {time}",
+  "sync.waiting": "☁️ Waiting to sync",
+  "sync.calendarFeed": "📅 Calendar subscription (due dates):",
+
+  "board.columns": "⚙️ Columns",
+  "board.column.todo": "To do",
+  "board.column.in_progress": "In progress",
+  "board.column.blocked": "Blocked",
+  "board.column.done": "Done",
+  "board.showColumn": "Show column {label}",
+  "board.columnLabel": "Label of column {label}",
+  "board.moveColumnLeft": "Move column {label} left",
+  "board.moveColumnRight": "Move column {label} right",
+  "board.move": "Move “{title}”",
+  "board.dropped": "“{title}” dropped in {column}.",
+  "board.grabbed": "“{title}” grabbed. Arrow keys to move, Space or Enter to drop, Escape to cancel.",
+  "board.position": "{column}, position {position} of {total}.",
+  "board.cancelled": "Move of “{title}” cancelled.",
+
+  "calendar.month": "Month",
+  "calendar.week": "Week",
+  "calendar.agenda": "Agenda",
+  "calendar.previous": "Previous period",
+  "calendar.today": "Today",
+  "calendar.next": "Next period",
+  "calendar.noDueDate": "no due date",
+  "calendar.undated": "No due date ({count})",
+  "calendar.recurringKeepsDue": "“{title}” is a recurring task: it keeps a due date.",
+  "calendar.moved": "“{title}” moved: {day}.",
+  "calendar.grabbed": "“{title}” grabbed. Arrow keys to change day, Delete to remove the due date, Space or Enter to drop, Escape to cancel.",
+  "calendar.cancelled": "Move of “{title}” cancelled.",
+  "calendar.move": "Move “{title}”",
+  "calendar.moveWithDue": "Move “{title}”, due {day}",
+
+  "archive.after": "Archive tasks completed more than",
+  "archive.days": "days ago (0 = never)",
+  "archive.noResults": "🔎 No archived task matches the search",
+  "archive.empty": "📦 No archived tasks",
+  "archive.archivedOn": "Archived on {date}",
+  "archive.unarchive": "📤 Unarchive",
+  "archive.trash": "🗑️ Trash",
+
+  "trash.retention": "Purge automatically after",
+  "trash.days": "days (0 = never)",
+  "trash.empty": "🗑️ Empty trash ({count})",
+  "trash.isEmpty": "🗑️ The trash is empty",
+  "trash.deletedOn": "Deleted on {date}",
+  "trash.purgeIn": "{days, plural, =0 { — purged today} one { — purged in # day} other { — purged in # days}}",
+  "trash.restore": "♻️ Restore",
+  "trash.purge": "Delete permanently",
+  "trash.confirmEmptyTitle": "Empty the trash?",
+  "trash.confirmPurgeTitle": "Delete permanently?",
+  "trash.confirmEmpty": "{count, plural, one {The task in the trash will be permanently deleted.} other {The # tasks in the trash will be permanently deleted.}}",
+  "trash.confirmPurge": "“{title}” will be permanently deleted.",
+  "trash.confirm": "Delete",
+
+  "dialog.cancel": "Cancel",
+
+  "stats.period": "Period",
+  "stats.byDay": "By day",
+  "stats.byWeek": "By week",
+  "stats.scope": "Computed on this device, deleted tasks included",
+  "stats.lastDays": "{count, plural, one {last day} other {last # days}}",
+  "stats.lastWeeks": "{count, plural, one {last week} other {last # weeks}}",
+  "stats.created": "Created",
+  "stats.completed": "Completed",
+  "stats.averageCompletion": "Average time to complete",
+  "stats.missedDue": "Missed due dates",
+  "stats.missedDueDetail": "{count, plural, one {out of # past due date} other {out of # past due dates}}",
+  "stats.streak": "Current streak",
+  "stats.streakDays": "{count, plural, one {# day} other {# days}}",
+  "stats.longestStreak": "{count, plural, one {best: # day} other {best: # days}}",
+  "stats.chartTitle": "Created and completed",
+  "stats.chartCaption": "Tasks created and completed, {period}",
+  "stats.barCreated": "{label}: {count} created",
+  "stats.barCompleted": "{label}: {count} completed",
+  "stats.byTag": "By tag",
+  "stats.byList": "By list",
+  "stats.noActivity": "No activity in this period",
+  "stats.breakdown": "{completed} completed / {created} created",
+  "stats.minutes": "{count} min",
+  "stats.hours": "{count} h",
+  "stats.daysHours": "{days} d {hours} h",
+
+  "update.region": "Update",
+  "update.available": "✨ New version available",
+  "update.hint": "Reload now to use it; your tasks are kept.",
+  "update.apply": "Update",
+  "update.later": "Later",
+
+  "shortcuts.newTask": "New task",
+  "shortcuts.nextTask": "Next task",
+  "shortcuts.previousTask": "Previous task",
+  "shortcuts.toggleTask": "Complete / reopen task",
+  "shortcuts.editTask": "Edit task",
+  "shortcuts.deleteTask": "Delete task",
+  "shortcuts.search": "Search",
+  "shortcuts.filterAll": "Filter: all",
+  "shortcuts.filterPending": "Filter: remaining",
+  "shortcuts.filterCompleted": "Filter: done",
+  "shortcuts.commandPalette": "Command palette",
+  "shortcuts.shortcutHelp": "Shortcut help",
+  "shortcuts.heading": "⌨️ Keyboard shortcuts",
+  "shortcuts.none": "none",
+  "shortcuts.pressKey": "Press a key…",
+  "shortcuts.change": "Change",
+  "shortcuts.changeLabel": "Change the “{action}” shortcut",
+  "shortcuts.escToCancel": "Escape to cancel",
+  "shortcuts.cancelled": "Change cancelled",
+  "shortcuts.reserved": "{keys} is reserved, pick another key",
+  "shortcuts.assigned": "{keys}: “{action}”",
+  "shortcuts.swapped": "{keys}: “{action}”; “{previous}” takes the old shortcut",
+  "shortcuts.reset": "Reset",
+  "shortcuts.resetDone": "Default shortcuts restored",
+  "shortcuts.close": "Close",
+  "shortcuts.fixed.undo": "Undo",
+  "shortcuts.fixed.redo": "Redo",
+  "shortcuts.fixed.moveUp": "Move task up (manual sort)",
+  "shortcuts.fixed.moveDown": "Move task down (manual sort)",
+  "shortcuts.fixed.escape": "Close / cancel editing",
+  "key.Mod": "Ctrl",
+  "key.Shift": "Shift",
+  "key.Delete": "Del",
+  "key.Space": "Space",
+  "key.Escape": "Esc",
+
+  "palette.label": "Command palette",
+  "palette.input": "Command or task",
+  "palette.placeholder": "Command or task...",
+  "palette.results": "Results",
+  "palette.noResults": "No results",
+  "palette.command": "Command",
+  "palette.task": "Task",
+  "palette.taskDone": "Completed task",
+  "palette.newTask": "➕ New task",
+  "palette.search": "🔎 Search",
+  "palette.filter": "Filter: {label}",
+  "palette.resetFilters": "Reset filters",
+  "palette.view": "Show: {label}",
+  "palette.allLists": "Open: 🗂️ All lists",
+  "palette.openList": "Open list: 📁 {name}",
+  "palette.shortcuts": "⌨️ Keyboard shortcuts",
+  "palette.language": "🌐 Language: {name}",
+  "palette.stopTimer": "⏹ Stop the timer ({title})",
+
+  "time.minutes": "{minutes} min",
+  "time.hoursMinutes": "{hours} h {minutes}",
+  "time.ofEstimate": "{tracked} of {estimate}",
+  "time.overEstimate": "⚠️ Over estimate",
+  "time.start": "▶ Start",
+  "time.startLabel": "Start the timer for “{title}”",
+  "time.stop": "⏹ Stop",
+  "time.stopLabel": "Stop the timer for “{title}”",
+  "time.running": "⏱ Running: {title}",
+  "time.entries": "{count, plural, =0 {Time spent} one {Time spent (# entry)} other {Time spent (# entries)}}",
+  "time.entry": "{date}, {start} – {end} ({duration})",
+  "time.date": "Date",
+  "time.startTime": "Start time",
+  "time.duration": "Duration",
+  "time.durationPlaceholder": "Duration (e.g. 1h30)",
+  "time.note": "Note",
+  "time.add": "+ Add",
+  "time.save": "💾 Save",
+  "time.cancel": "Cancel",
+  "time.editEntry": "Edit the entry of {date}",
+  "time.deleteEntry": "Delete the entry of {date}",
+  "time.entryInvalid": "Enter a date, a start time and a duration (e.g. 45 min, 1h30)",
+  "time.reportHeading": "⏱ Time spent",
+  "time.byDay": "By day ({count, plural, one {last day} other {last # days}})",
+  "time.byTask": "By task",
+  "time.total": "Total: {duration}",
+  "time.noEntries": "No time recorded",
+  "time.export": "⬇️ Export entries (CSV)",
+  "time.fileName": "time-entries"
+};
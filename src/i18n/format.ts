@@ -0,0 +1,78 @@
+export type MessageParams = Record<string, string | number>;
+
+const pluralRules = new Map<string, Intl.PluralRules>();
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+const pluralRulesFor = (locale: string): Intl.PluralRules => {
+  if (!pluralRules.has(locale)) pluralRules.set(locale, new Intl.PluralRules(locale));
+  return pluralRules.get(locale)!;
+};
+
+export const formatNumber = (value: number, locale: string): string => {
+  if (!numberFormats.has(locale)) numberFormats.set(locale, new Intl.NumberFormat(locale));
+  return numberFormats.get(locale)!.format(value);
+};
+
+// Accolade fermante correspondant à celle ouverte en `open` (les options imbriquées en contiennent d'autres)
+function closingBrace(pattern: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < pattern.length; i++) {
+    if (pattern[i] === "{") depth++;
+    if (pattern[i] === "}" && --depth === 0) return i;
+  }
+  return -1;
+}
+
+// Options d'un plural / select : "=0 {aucune} one {# tâche} other {# tâches}"
+function parseOptions(source: string): Map<string, string> {
+  const options = new Map<string, string>();
+  let i = 0;
+  while (i < source.length) {
+    const open = source.indexOf("{", i);
+    if (open === -1) break;
+    const close = closingBrace(source, open);
+    if (close === -1) break;
+    options.set(source.slice(i, open).trim(), source.slice(open + 1, close));
+    i = close + 1;
+  }
+  return options;
+}
+
+function formatArgument(body: string, params: MessageParams, locale: string): string {
+  const [name, type, ...rest] = body.split(",");
+  const key = name.trim();
+  const value = params[key];
+  if (value === undefined) return `{${body}}`;
+  if (type === undefined) return typeof value === "number" ? formatNumber(value, locale) : value;
+
+  const options = parseOptions(rest.join(","));
+  switch (type.trim()) {
+    case "plural": {
+      const count = Number(value);
+      const message = options.get(`=${count}`) ?? options.get(pluralRulesFor(locale).select(count)) ?? options.get("other") ?? "";
+      return formatMessage(message, params, locale, formatNumber(count, locale));
+    }
+    case "select":
+      return formatMessage(options.get(String(value)) ?? options.get("other") ?? "", params, locale);
+    default:
+      return String(value);
+  }
+}
+
+// Sous-ensemble du format ICU MessageFormat : {nom}, {n, plural, =0 {...} one {# ...} other {# ...}}
+// et {x, select, a {...} other {...}}. Les apostrophes restent littérales (pas d'échappement ICU).
+export function formatMessage(pattern: string, params: MessageParams, locale: string, count?: string): string {
+  let result = "";
+  let i = 0;
+  while (i < pattern.length) {
+    const open = pattern.indexOf("{", i);
+    const close = open === -1 ? -1 : closingBrace(pattern, open);
+    const text = pattern.slice(i, close === -1 ? undefined : open);
+    // "#" : le nombre du plural englobant, uniquement dans le texte de ce niveau
+    result += count === undefined ? text : text.replaceAll("#", count);
+    if (close === -1) break;
+    result += formatArgument(pattern.slice(open + 1, close), params, locale);
+    i = close + 1;
+  }
+  return result;
+}
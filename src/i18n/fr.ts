@@ -0,0 +1,483 @@
+// Catalogue de référence : ses clés définissent celles des autres langues.
+// Syntaxe ICU : {nom}, {n, plural, =0 {...} one {# ...} other {# ...}}, {x, select, ... other {...}}
+export const fr = {
+  "app.title": "Gestionnaire de Tâches",
+  "app.allLists": "🗂️ Toutes les listes",
+  "app.summary": "Total : {total} | Terminées : {completed} | Restantes : {pending} (en cours : {inProgress}, bloquées : {blocked})",
+  "app.subtasksSummary": " | Sous-tâches : {completed}/{total}",
+  "app.dueSummary": "⏰ En retard : {overdue} | 📌 Aujourd'hui : {today} | 📅 Cette semaine : {week}",
+  "app.undo": "↶ Annuler",
+  "app.undoTitle": "Annuler (Ctrl+Z)",
+  "app.redo": "↷ Rétablir",
+  "app.redoTitle": "Rétablir (Ctrl+Shift+Z)",
+  "app.commands": "⌘ Commandes",
+  "app.commandsTitle": "Palette de commandes (Ctrl+K)",
+  "app.shortcuts": "⌨️ Raccourcis",
+  "app.shortcutsTitle": "Raccourcis clavier (?)",
+  "app.enableNotifications": "🔔 Activer les notifications",
+  "app.persist": "💾 Protéger mes données",
+  "app.persistTitle": "Sans stockage persistant, le navigateur peut effacer les tâches s'il manque d'espace",
+  "app.language": "Langue",
+  "app.highContrast": "◐ Contraste élevé",
+  "app.reducedMotion": "⏸ Animations réduites",
+  "app.display": "Affichage",
+  "app.views": "Affichage",
+  "app.loading": "⏳ Chargement des tâches...",
+  "app.noSearchResults": "🔎 Aucune tâche ne correspond à la recherche",
+  "app.emptyAll": "📝 Aucune tâche créée",
+  "app.emptyPending": "✅ Aucune tâche en cours",
+  "app.emptyCompleted": "🎉 Aucune tâche terminée",
+
+  "view.list": "📋 Liste",
+  "view.board": "🗂️ Tableau",
+  "view.calendar": "📅 Calendrier",
+  "view.stats": "📊 Statistiques",
+  "view.archive": "📦 Archives",
+  "view.trash": "🗑️ Corbeille",
+  "view.withCount": "{label} ({count})",
+
+  "status.todo": "À faire",
+  "status.in_progress": "En cours",
+  "status.blocked": "Bloquée",
+  "status.done": "Terminée",
+
+  "priority.low": "Basse",
+  "priority.normal": "Normale",
+  "priority.high": "Haute",
+  "priority.urgent": "Urgente",
+  "priority.option": "Priorité : {label}",
+
+  "filter.all": "Toutes",
+  "filter.pending": "Restantes",
+  "filter.completed": "Terminées",
+
+  "sort.newest": "Plus récentes",
+  "sort.oldest": "Plus anciennes",
+  "sort.dueDate": "Date d'échéance",
+  "sort.alphabetical": "Alphabétique",
+  "sort.priority": "Priorité",
+  "sort.manual": "Manuel (glisser-déposer)",
+
+  "urgency.overdue": "⏰ En retard",
+  "urgency.today": "📌 Aujourd'hui",
+  "urgency.soon": "⏳ Bientôt",
+
+  "due.withTime": "{date} à {time}",
+
+  "reminder.offset": "{minutes, plural, =0 {À l'échéance} =10 {10 minutes avant} =60 {1 heure avant} =1440 {1 jour avant} =10080 {1 semaine avant} other {# minutes avant}}",
+  "reminder.none": "🔕 Pas de rappel",
+  "reminder.reference": " (réf. {time})",
+  "reminder.label": "Rappel",
+  "reminder.dueTime": "Heure d'échéance",
+  "reminder.dueTimeHint": "Sans heure, l'échéance dure toute la journée",
+  "reminder.dueIn": "{minutes, plural, =0 {Échéance maintenant} other {Échéance dans {delay}}} ({due})",
+  "reminder.overdueSince": "En retard depuis le {due}",
+  "reminder.delayMinutes": "{count} min",
+  "reminder.delayHours": "{count} h",
+  "reminder.delayDays": "{count, plural, one {# jour} other {# jours}}",
+  "reminder.region": "Rappels",
+  "reminder.snooze": "Reporter :",
+  "reminder.snoozeTomorrow": "Demain",
+  "reminder.ok": "OK",
+
+  "validation.titleRequired": "Le titre est requis",
+  "validation.titleTooShort": "Le titre doit contenir au moins {min, plural, one {# caractère} other {# caractères}}",
+  "validation.duePast": "La date d'échéance ne peut pas être antérieure à aujourd'hui ({today})",
+  "validation.timeWithoutDate": "Une heure d'échéance nécessite une date",
+  "validation.reminderWithoutDate": "Un rappel nécessite une date d'échéance",
+  "validation.intervalInvalid": "L'intervalle de répétition doit être un entier positif",
+  "validation.countInvalid": "Le nombre d'occurrences doit être un entier positif",
+  "validation.untilBeforeDue": "La fin de la répétition ({until}) doit suivre la première échéance ({due})",
+  "validation.estimateInvalid": "Estimation illisible : essayez 45 min, 2h ou 1h30",
+
+  "form.heading": "➕ Nouvelle Tâche",
+  "form.title": "Titre de la tâche",
+  "form.titlePlaceholder": "Titre... ex. Appeler Paul demain 14h #travail !haute",
+  "form.description": "Description",
+  "form.descriptionPlaceholder": "Description (optionnelle)...",
+  "form.dueDate": "Date d'échéance",
+  "form.priority": "Priorité",
+  "form.estimate": "Estimation",
+  "form.estimatePlaceholder": "Estimation (ex. 1h30)",
+  "form.submit": "Ajouter la tâche",
+
+  "quickAdd.region": "Éléments reconnus dans le titre",
+  "quickAdd.keep": "Garder « {text} » dans le titre",
+
+  "tags.label": "Étiquettes",
+  "tags.placeholder": "Étiquettes (Entrée pour ajouter)...",
+  "tags.remove": "Retirer l'étiquette {tag}",
+
+  "recurrence.legend": "🔁 Répétition",
+  "recurrence.frequency": "Fréquence",
+  "recurrence.none": "Ne se répète pas",
+  "recurrence.daily": "Quotidienne",
+  "recurrence.weekly": "Hebdomadaire",
+  "recurrence.monthly": "Mensuelle",
+  "recurrence.every": "tous les",
+  "recurrence.interval": "Intervalle",
+  "recurrence.unit": "{frequency, select, daily {jour(s)} weekly {semaine(s)} other {mois}}",
+  "recurrence.monthDay": "Jour du mois",
+  "recurrence.sameDay": "Même jour que l'échéance",
+  "recurrence.dayOfMonth": "Le {day, plural, =1 {1er} other {#}}",
+  "recurrence.lastDay": "Le dernier jour",
+  "recurrence.end": "Fin de la répétition",
+  "recurrence.endNever": "Sans fin",
+  "recurrence.endUntil": "Jusqu'au",
+  "recurrence.endCount": "Nombre de fois",
+  "recurrence.untilDate": "Date de fin",
+  "recurrence.count": "Nombre d'occurrences",
+  "recurrence.describeDaily": "{interval, plural, one {Tous les jours} other {Tous les # jours}}",
+  "recurrence.describeWeekly": "{interval, plural, one {Toutes les semaines} other {Toutes les # semaines}}",
+  "recurrence.describeMonthly": "{interval, plural, one {Tous les mois} other {Tous les # mois}}",
+  "recurrence.describeWeekdays": " ({days})",
+  "recurrence.describeMonthDay": "{day, plural, =-1 { le dernier jour} =1 { le 1er} other { le #}}",
+  "recurrence.describeCount": "{count, plural, other {, # fois}}",
+  "recurrence.describeUntil": ", jusqu'au {date}",
+
+  "task.changedElsewhere": "🔄 Cette tâche vient d'être modifiée dans un autre onglet",
+  "task.changedElsewhereShort": "🔄 modifiée dans un autre onglet",
+  "task.title": "Titre",
+  "task.cancel": "Annuler",
+  "task.saveOccurrence": "💾 Cette occurrence",
+  "task.saveSeries": "💾 Toute la série",
+  "task.save": "💾 Enregistrer",
+  "task.createdOn": "Créée le {date}",
+  "task.dueOn": " · Échéance le {due}",
+  "task.reminderSet": "Rappel programmé",
+  "task.occurrence": "occurrence {index}",
+  "task.history": " · historique : {completed} terminée(s), {skipped} sautée(s)",
+  "task.historyEntry": "#{index} du {date} : {skipped, select, true {sautée} other {terminée le {completedAt}}}",
+  "task.autoComplete": "Terminer automatiquement quand toutes les sous-tâches sont faites",
+  "task.moveToList": "Déplacer vers la liste",
+  "task.skip": "⏭️ Sauter",
+  "task.edit": "✏️ Modifier",
+  "task.delete": "🗑️ Supprimer",
+  "task.move": "Déplacer « {title} » (Alt+Haut / Alt+Bas)",
+  "task.moveTitle": "Glisser pour réordonner, ou Alt+Haut / Alt+Bas",
+  "task.select": "Sélectionner « {title} »",
+  "task.selectTitle": "Maj+clic pour sélectionner une plage",
+  "task.list": "Tâches",
+  "task.toggle": "Terminée : {title}",
+  "announce.created": "Tâche « {title} » ajoutée",
+  "announce.completed": "« {title} » terminée",
+  "announce.reopened": "« {title} » rouverte",
+  "announce.deleted": "« {title} » placée dans la corbeille",
+  "announce.bulkCompleted": "{count, plural, one {# tâche terminée} other {# tâches terminées}}",
+  "announce.bulkReopened": "{count, plural, one {# tâche rouverte} other {# tâches rouvertes}}",
+  "announce.bulkDeleted": "{count, plural, one {# tâche placée dans la corbeille} other {# tâches placées dans la corbeille}}",
+  "task.movedBefore": "« {title} » déplacée avant « {anchor} ».",
+  "task.movedAfter": "« {title} » déplacée après « {anchor} ».",
+
+  "subtasks.add": "Ajouter la sous-tâche",
+  "subtasks.new": "Nouvelle sous-tâche...",
+  "subtasks.childOf": "Sous-tâche de « {title} »...",
+  "subtasks.moveUp": "Monter",
+  "subtasks.moveDown": "Descendre",
+  "subtasks.addChild": "Ajouter une sous-tâche",
+  "subtasks.delete": "Supprimer la sous-tâche",
+
+  "search.label": "Rechercher des tâches",
+  "search.placeholder": "🔎 Rechercher... (ex. rapport tag:travail -brouillon)",
+  "search.syntax": "Syntaxe de recherche",
+
+  "filters.heading": "🔍 Filtres",
+  "filters.tags": "Étiquettes",
+  "filters.tagColor": "Couleur de l'étiquette {tag}",
+  "filters.tagMode": "Combinaison des étiquettes",
+  "filters.tagModeAny": "Au moins une étiquette",
+  "filters.tagModeAll": "Toutes les étiquettes",
+  "filters.priority": "Priorité",
+  "filters.minPriority": "Priorité minimale",
+  "filters.maxPriority": "Priorité maximale",
+  "filters.to": "à",
+  "filters.due": "Échéance",
+  "filters.from": "du",
+  "filters.until": "au",
+  "filters.dueFrom": "Échéance à partir du",
+  "filters.dueTo": "Échéance jusqu'au",
+  "filters.sort": "Tri",
+  "filters.reset": "Réinitialiser les filtres",
+
+  "lists.nav": "Listes",
+  "lists.heading": "📁 Listes",
+  "lists.defaultName": "Mes tâches",
+  "lists.newPlaceholder": "Nouvelle liste...",
+  "lists.newName": "Nom de la nouvelle liste",
+  "lists.newColor": "Couleur de la nouvelle liste",
+  "lists.add": "Ajouter",
+  "lists.settings": "⚙️ Réglages de « {name} »",
+  "lists.name": "Nom",
+  "lists.color": "Couleur de la liste",
+  "lists.defaultSort": "Tri par défaut",
+  "lists.defaultFilter": "Filtre par défaut",
+  "lists.delete": "🗑️ Supprimer la liste (ses tâches rejoignent « {fallback} »)",
+
+  "bulk.toolbar": "Actions sur la sélection",
+  "bulk.selectAll": "Tout sélectionner ({count})",
+  "bulk.selected": "{count, plural, one {# sélectionnée} other {# sélectionnées}}",
+  "bulk.complete": "✅ Terminer",
+  "bulk.reopen": "↩️ Rouvrir",
+  "bulk.delete": "🗑️ Supprimer",
+  "bulk.clear": "Désélectionner",
+  "bulk.moveLabel": "Déplacer la sélection vers la liste",
+  "bulk.move": "📁 Déplacer vers…",
+  "bulk.tag": "🏷️ Étiqueter",
+  "bulk.newDueDate": "Nouvelle échéance",
+  "bulk.reschedule": "📅 Replanifier",
+  "bulk.removeDue": "Retirer l'échéance",
+
+  "importExport.heading": "💾 Export / Import",
+  "importExport.format": "Format d'export",
+  "importExport.format.json": "JSON",
+  "importExport.format.csv": "CSV",
+  "importExport.format.markdown": "Markdown",
+  "importExport.format.ics": "iCalendar (tâches VTODO)",
+  "importExport.format.icsEvents": "iCalendar (événements VEVENT)",
+  "importExport.scope": "Tâches à exporter",
+  "importExport.scopeAll": "Toutes les tâches ({count})",
+  "importExport.scopeView": "Vue actuelle ({count})",
+  "importExport.export": "⬇️ Exporter",
+  "importExport.import": "⬆️ Importer",
+  "importExport.fileName": "taches",
+  "importExport.preview": "Aperçu de {file} : {new, plural, one {# nouvelle} other {# nouvelles}}, {duplicate, plural, one {# doublon} other {# doublons}}, {trashed} dans la corbeille, {invalid, plural, one {# invalide} other {# invalides}}",
+  "importExport.row.new": "Nouvelle",
+  "importExport.row.duplicate": "Doublon",
+  "importExport.row.trashed": "Corbeille",
+  "importExport.row.invalid": "Invalide",
+  "importExport.duplicates": "Doublons :",
+  "importExport.strategy.merge": "Fusionner avec l'existante",
+  "importExport.strategy.replace": "Remplacer l'existante",
+  "importExport.strategy.skip": "Ignorer",
+  "importExport.trashed": "Tâches de la corbeille :",
+  "importExport.trashedStrategy.restore": "Restaurer la tâche supprimée",
+  "importExport.trashedStrategy.replace": "La remplacer par la tâche importée",
+  "importExport.trashedStrategy.skip": "Laisser à la corbeille",
+  "importExport.cancel": "Annuler",
+  "importExport.source.file": "fichier",
+  "importExport.source.line": "ligne {line}",
+  "importExport.source.record": "#{index}",
+  "importExport.source.component": "{component} {index}",
+  "importExport.error.unreadableJson": "JSON illisible",
+  "importExport.error.unknownFormat": "format inconnu : un tableau ou { version, tasks } est attendu",
+  "importExport.error.newerVersion": "version {version} plus récente que la version supportée",
+  "importExport.error.missingTitleColumn": "colonne « title » absente de l'en-tête",
+  "importExport.error.unrecognizedLine": "ligne non reconnue (une case à cocher « - [ ] » est attendue)",
+  "importExport.error.orphanSubtask": "sous-tâche sans tâche parente",
+  "importExport.error.notICalendar": "ce n'est pas un fichier iCalendar (BEGIN:VCALENDAR attendu)",
+  "importExport.reason.duplicateInFile": "doublon d'une ligne précédente du fichier",
+  "importExport.reason.sameId": "même identifiant",
+  "importExport.reason.sameTitleAndDue": "même titre et même échéance",
+  "importExport.confirm": "Importer {count, plural, =0 {aucune tâche} one {# tâche} other {# tâches}}",
+
+  "codec.notObject": "l'enregistrement n'est pas un objet",
+  "codec.missingField": "champ « {field} » manquant ou invalide",
+  "codec.invalidField": "champ « {field} » invalide",
+  "codec.invalidDate": "date « {field} » invalide",
+  "codec.invalidDateValue": "date « {field} » invalide : {value}",
+  "codec.invalidSubtask": "sous-tâche « {path} » invalide",
+  "codec.invalidTimeEntry": "entrée de temps « {path} » invalide",
+  "codec.timeEntryEndsBeforeStart": "entrée de temps « {path} » terminée avant son début",
+  "codec.invalidRecurrenceRule": "règle de répétition invalide",
+  "codec.invalidRecurrenceHistory": "historique de répétition invalide",
+  "codec.invalidHistoryEntry": "entrée d'historique {index} invalide",
+  "codec.invalidDueTime": "heure d'échéance invalide : {value}",
+  "codec.invalidReminder": "rappel invalide : {value}",
+  "codec.invalidStatus": "statut invalide : {value}",
+  "codec.invalidRank": "clé d'ordre invalide : {value}",
+  "codec.invalidPriority": "priorité invalide : {value}",
+  "codec.invalidEstimate": "estimation invalide : {value}",
+  "codec.invalidCompleted": "valeur « completed » invalide : {value}",
+  "codec.invalidICalDate": "date {property} invalide : {value}",
+  "codec.noMigration": "aucune migration depuis la version {version}",
+  "codec.duplicateId": "identifiant « {id} » en double",
+  "codec.invalidOperation": "opération invalide : {type}",
+  "codec.unexpected": "erreur inattendue : {error}",
+
+  "sync.heading": "☁️ Synchronisation",
+  "sync.endpoint": "Adresse du serveur de synchronisation",
+  "sync.save": "Enregistrer",
+  "sync.now": "🔄 Synchroniser",
+  "sync.localOnly": "Stockage local uniquement",
+  "sync.pending": "{count, plural, =0 {} one { · # modification en attente} other { · # modifications en attente}}",
+  "sync.syncing": "🔄 Synchronisation...",
+  "sync.offline": "📴 Hors ligne",
+  "sync.error": "⚠️ Erreur : {error}",
+  "sync.unreachable": "serveur injoignable",
+  "sync.syncedAt": "✅ Synchronisé à {time}",
+  "sync.waiting": "☁️ En attente de synchronisation",
+  "sync.calendarFeed": "📅 Abonnement agenda (échéances) :",
+
+  "board.columns": "⚙️ Colonnes",
+  "board.column.todo": "À faire",
+  "board.column.in_progress": "En cours",
+  "board.column.blocked": "Bloquées",
+  "board.column.done": "Terminées",
+  "board.showColumn": "Afficher la colonne {label}",
+  "board.columnLabel": "Libellé de la colonne {label}",
+  "board.moveColumnLeft": "Déplacer la colonne {label} vers la gauche",
+  "board.moveColumnRight": "Déplacer la colonne {label} vers la droite",
+  "board.move": "Déplacer « {title} »",
+  "board.dropped": "« {title} » déposée dans {column}.",
+  "board.grabbed": "« {title} » saisie. Flèches pour déplacer, Espace ou Entrée pour déposer, Échap pour annuler.",
+  "board.position": "{column}, position {position} sur {total}.",
+  "board.cancelled": "Déplacement de « {title} » annulé.",
+
+  "calendar.month": "Mois",
+  "calendar.week": "Semaine",
+  "calendar.agenda": "Agenda",
+  "calendar.previous": "Période précédente",
+  "calendar.today": "Aujourd'hui",
+  "calendar.next": "Période suivante",
+  "calendar.noDueDate": "sans échéance",
+  "calendar.undated": "Sans échéance ({count})",
+  "calendar.recurringKeepsDue": "« {title} » est une tâche récurrente : elle garde une échéance.",
+  "calendar.moved": "« {title} » déplacée : {day}.",
+  "calendar.grabbed": "« {title} » saisie. Flèches pour changer de jour, Suppr pour retirer l'échéance, Espace ou Entrée pour déposer, Échap pour annuler.",
+  "calendar.cancelled": "Déplacement de « {title} » annulé.",
+  "calendar.move": "Déplacer « {title} »",
+  "calendar.moveWithDue": "Déplacer « {title} », échéance {day}",
+
+  "archive.after": "Archiver les tâches terminées depuis",
+  "archive.days": "jours (0 = jamais)",
+  "archive.noResults": "🔎 Aucune tâche archivée ne correspond à la recherche",
+  "archive.empty": "📦 Aucune tâche archivée",
+  "archive.archivedOn": "Archivée le {date}",
+  "archive.unarchive": "📤 Désarchiver",
+  "archive.trash": "🗑️ Corbeille",
+
+  "trash.retention": "Purge automatique après",
+  "trash.days": "jours (0 = jamais)",
+  "trash.empty": "🗑️ Vider la corbeille ({count})",
+  "trash.isEmpty": "🗑️ La corbeille est vide",
+  "trash.deletedOn": "Supprimée le {date}",
+  "trash.purgeIn": "{days, plural, =0 { — purge aujourd'hui} one { — purge dans # jour} other { — purge dans # jours}}",
+  "trash.restore": "♻️ Restaurer",
+  "trash.purge": "Supprimer définitivement",
+  "trash.confirmEmptyTitle": "Vider la corbeille ?",
+  "trash.confirmPurgeTitle": "Supprimer définitivement ?",
+  "trash.confirmEmpty": "{count, plural, one {La tâche de la corbeille sera supprimée définitivement.} other {Les # tâches de la corbeille seront supprimées définitivement.}}",
+  "trash.confirmPurge": "« {title} » sera supprimée définitivement.",
+  "trash.confirm": "Supprimer",
+
+  "dialog.cancel": "Annuler",
+
+  "stats.period": "Période",
+  "stats.byDay": "Par jour",
+  "stats.byWeek": "Par semaine",
+  "stats.scope": "Calculé sur cet appareil, tâches supprimées comprises",
+  "stats.lastDays": "{count, plural, one {dernier jour} other {# derniers jours}}",
+  "stats.lastWeeks": "{count, plural, one {dernière semaine} other {# dernières semaines}}",
+  "stats.created": "Créées",
+  "stats.completed": "Terminées",
+  "stats.averageCompletion": "Délai moyen d'achèvement",
+  "stats.missedDue": "Échéances manquées",
+  "stats.missedDueDetail": "{count, plural, one {sur # échéance passée} other {sur # échéances passées}}",
+  "stats.streak": "Série en cours",
+  "stats.streakDays": "{count} j",
+  "stats.longestStreak": "record : {count} j",
+  "stats.chartTitle": "Créées et terminées",
+  "stats.chartCaption": "Tâches créées et terminées, {period}",
+  "stats.barCreated": "{label} : {count, plural, one {# créée} other {# créées}}",
+  "stats.barCompleted": "{label} : {count, plural, one {# terminée} other {# terminées}}",
+  "stats.byTag": "Par étiquette",
+  "stats.byList": "Par liste",
+  "stats.noActivity": "Aucune activité sur la période",
+  "stats.breakdown": "{completed, plural, one {# terminée} other {# terminées}} / {created, plural, one {# créée} other {# créées}}",
+  "stats.minutes": "{count} min",
+  "stats.hours": "{count} h",
+  "stats.daysHours": "{days} j {hours} h",
+
+  "update.region": "Mise à jour",
+  "update.available": "✨ Nouvelle version disponible",
+  "update.hint": "Recharger maintenant pour l'utiliser ; vos tâches sont conservées.",
+  "update.apply": "Mettre à jour",
+  "update.later": "Plus tard",
+
+  "shortcuts.newTask": "Nouvelle tâche",
+  "shortcuts.nextTask": "Tâche suivante",
+  "shortcuts.previousTask": "Tâche précédente",
+  "shortcuts.toggleTask": "Terminer / rouvrir la tâche",
+  "shortcuts.editTask": "Modifier la tâche",
+  "shortcuts.deleteTask": "Supprimer la tâche",
+  "shortcuts.search": "Rechercher",
+  "shortcuts.filterAll": "Filtre : toutes",
+  "shortcuts.filterPending": "Filtre : restantes",
+  "shortcuts.filterCompleted": "Filtre : terminées",
+  "shortcuts.commandPalette": "Palette de commandes",
+  "shortcuts.shortcutHelp": "Aide des raccourcis",
+  "shortcuts.heading": "⌨️ Raccourcis clavier",
+  "shortcuts.none": "aucun",
+  "shortcuts.pressKey": "Appuyez sur une touche…",
+  "shortcuts.change": "Changer",
+  "shortcuts.changeLabel": "Changer le raccourci « {action} »",
+  "shortcuts.escToCancel": "Échap pour annuler",
+  "shortcuts.cancelled": "Modification annulée",
+  "shortcuts.reserved": "{keys} est réservé, choisissez une autre touche",
+  "shortcuts.assigned": "{keys} : « {action} »",
+  "shortcuts.swapped": "{keys} : « {action} » ; « {previous} » reprend l'ancien raccourci",
+  "shortcuts.reset": "Réinitialiser",
+  "shortcuts.resetDone": "Raccourcis par défaut rétablis",
+  "shortcuts.close": "Fermer",
+  "shortcuts.fixed.undo": "Annuler",
+  "shortcuts.fixed.redo": "Rétablir",
+  "shortcuts.fixed.moveUp": "Monter la tâche (tri manuel)",
+  "shortcuts.fixed.moveDown": "Descendre la tâche (tri manuel)",
+  "shortcuts.fixed.escape": "Fermer / annuler l'édition",
+  "key.Mod": "Ctrl",
+  "key.Shift": "Maj",
+  "key.Delete": "Suppr",
+  "key.Space": "Espace",
+  "key.Escape": "Échap",
+
+  "palette.label": "Palette de commandes",
+  "palette.input": "Commande ou tâche",
+  "palette.placeholder": "Commande ou tâche...",
+  "palette.results": "Résultats",
+  "palette.noResults": "Aucun résultat",
+  "palette.command": "Commande",
+  "palette.task": "Tâche",
+  "palette.taskDone": "Tâche terminée",
+  "palette.newTask": "➕ Nouvelle tâche",
+  "palette.search": "🔎 Rechercher",
+  "palette.filter": "Filtre : {label}",
+  "palette.resetFilters": "Réinitialiser les filtres",
+  "palette.view": "Afficher : {label}",
+  "palette.allLists": "Ouvrir : 🗂️ Toutes les listes",
+  "palette.openList": "Ouvrir la liste : 📁 {name}",
+  "palette.shortcuts": "⌨️ Raccourcis clavier",
+  "palette.language": "🌐 Langue : {name}",
+  "palette.stopTimer": "⏹ Arrêter le chronomètre ({title})",
+
+  "time.minutes": "{minutes} min",
+  "time.hoursMinutes": "{hours} h {minutes}",
+  "time.ofEstimate": "{tracked} sur {estimate}",
+  "time.overEstimate": "⚠️ Estimation dépassée",
+  "time.start": "▶ Démarrer",
+  "time.startLabel": "Démarrer le chronomètre de « {title} »",
+  "time.stop": "⏹ Arrêter",
+  "time.stopLabel": "Arrêter le chronomètre de « {title} »",
+  "time.running": "⏱ En cours : {title}",
+  "time.entries": "{count, plural, =0 {Temps passé} one {Temps passé (# entrée)} other {Temps passé (# entrées)}}",
+  "time.entry": "{date}, {start} – {end} ({duration})",
+  "time.date": "Date",
+  "time.startTime": "Heure de début",
+  "time.duration": "Durée",
+  "time.durationPlaceholder": "Durée (ex. 1h30)",
+  "time.note": "Note",
+  "time.add": "+ Ajouter",
+  "time.save": "💾 Enregistrer",
+  "time.cancel": "Annuler",
+  "time.editEntry": "Modifier l'entrée du {date}",
+  "time.deleteEntry": "Supprimer l'entrée du {date}",
+  "time.entryInvalid": "Indiquez une date, une heure de début et une durée (ex. 45 min, 1h30)",
+  "time.reportHeading": "⏱ Temps passé",
+  "time.byDay": "Par jour ({count, plural, one {dernier jour} other {# derniers jours}})",
+  "time.byTask": "Par tâche",
+  "time.total": "Total : {duration}",
+  "time.noEntries": "Aucun temps enregistré",
+  "time.export": "⬇️ Exporter les entrées (CSV)",
+  "time.fileName": "temps-passe"
+};
+
+export type MessageKey = keyof typeof fr;
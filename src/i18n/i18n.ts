@@ -0,0 +1,69 @@
+import { fr, type MessageKey } from "./fr";
+import { en } from "./en";
+import { formatMessage, formatNumber, type MessageParams } from "./format";
+
+export type { MessageKey } from "./fr";
+export type { MessageParams } from "./format";
+
+export type Locale = "fr" | "en";
+
+export const LOCALES: Locale[] = ["fr", "en"];
+
+// Chaque langue dans sa propre langue, pour le sélecteur
+export const LOCALE_NAMES: Record<Locale, string> = {
+  fr: "Français",
+  en: "English"
+};
+
+export const DEFAULT_LOCALE: Locale = "fr";
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { fr, en };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+// Première langue du navigateur disponible, sinon le français
+export function detectLocale(languages: readonly string[] = navigator.languages ?? [navigator.language]): Locale {
+  const match = languages.map(language => language.slice(0, 2).toLowerCase()).find(isLocale);
+  return match ?? DEFAULT_LOCALE;
+}
+
+// Message produit hors des composants (décodage, import), traduit au moment de l'affichage
+export interface LocalizedMessage {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export interface Translator {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatDate: (date: Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatNumber: (value: number) => string;
+  // Ordre alphabétique de la langue, sans tenir compte de la casse ni des accents
+  compare: (a: string, b: string) => number;
+}
+
+const translators = new Map<Locale, Translator>();
+
+// Un traducteur par langue, conservé : son identité ne change qu'avec la langue
+export function getTranslator(locale: Locale): Translator {
+  const cached = translators.get(locale);
+  if (cached) return cached;
+
+  const catalog = CATALOGS[locale];
+  const collator = new Intl.Collator(locale, { sensitivity: "base", numeric: true });
+  const dateFormats = new Map<string, Intl.DateTimeFormat>();
+
+  const translator: Translator = {
+    locale,
+    t: (key, params = {}) => formatMessage(catalog[key] ?? fr[key] ?? key, params, locale),
+    formatDate: (date, options = {}) => {
+      const cacheKey = JSON.stringify(options);
+      if (!dateFormats.has(cacheKey)) dateFormats.set(cacheKey, new Intl.DateTimeFormat(locale, options));
+      return dateFormats.get(cacheKey)!.format(date);
+    },
+    formatNumber: value => formatNumber(value, locale),
+    compare: collator.compare
+  };
+  translators.set(locale, translator);
+  return translator;
+}
@@ -0,0 +1,45 @@
+// Service worker de l'application (modèle) : au build, le plugin "service-worker" de vite.config.ts
+// y inscrit l'empreinte du build et la liste des fichiers générés.
+const BUILD_ID = "__BUILD_ID__";
+const PRECACHE = __PRECACHE__;
+const CACHE_PREFIX = "tp-final-";
+const CACHE_NAME = `${CACHE_PREFIX}${BUILD_ID}`;
+
+const toUrl = path => new URL(path, self.registration.scope).href;
+
+// Nouvelle version : tout est mis en cache, puis elle attend que l'utilisateur accepte la mise à jour
+self.addEventListener("install", event => {
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(PRECACHE.map(toUrl))));
+});
+
+self.addEventListener("activate", event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME).map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", event => {
+  if (event.data?.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+// Fichiers de l'application servis depuis le cache ; navigation = index.html (application monopage).
+// Les autres requêtes (serveur de synchronisation...) passent par le réseau.
+self.addEventListener("fetch", event => {
+  const { request } = event;
+  if (request.method !== "GET" || new URL(request.url).origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(
+      caches.match(toUrl("index.html"), { cacheName: CACHE_NAME }).then(cached => cached ?? fetch(request))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request, { cacheName: CACHE_NAME, ignoreSearch: true }).then(cached => cached ?? fetch(request))
+  );
+});
@@ -0,0 +1,16 @@
+import type { Task } from "../types/Task";
+
+// Modifications à appliquer en une seule écriture : seules les tâches touchées sont envoyées
+export interface TaskChanges {
+  put: Task[];
+  delete: string[];
+}
+
+export interface TaskRepository {
+  readonly name: string;
+  loadAll(): Promise<Task[]>;
+  apply(changes: TaskChanges): Promise<void>;
+  // Notifie les changements qui imposent de tout relire (stockage effacé, données du serveur) ;
+  // retourne la fonction de désabonnement
+  subscribe?(listener: () => void): () => void;
+}
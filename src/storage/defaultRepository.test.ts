@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createDefaultTaskRepository } from "./defaultRepository";
+
+// Effacement du stockage depuis un autre onglet : seul le dépôt localStorage y réagit
+const clearStorageElsewhere = () => window.dispatchEvent(new StorageEvent("storage", { key: null }));
+
+// IndexedDB présent mais inutilisable (ouverture refusée, comme en navigation privée sur certains navigateurs)
+const failingIndexedDb = {
+  open: () => {
+    const request: Partial<IDBOpenDBRequest> = {};
+    setTimeout(() => request.onerror?.call(request as IDBOpenDBRequest, new Event("error")));
+    return request;
+  }
+};
+
+describe("createDefaultTaskRepository : abonnement", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("suit le dépôt actif : IndexedDB d'abord, localStorage après le repli", async () => {
+    vi.stubGlobal("indexedDB", failingIndexedDb);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const repository = createDefaultTaskRepository();
+    const listener = vi.fn();
+    repository.subscribe?.(listener);
+
+    clearStorageElsewhere();
+    expect(listener).not.toHaveBeenCalled();
+
+    await repository.loadAll();
+    expect(repository.name).toBe("localStorage");
+    clearStorageElsewhere();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("se désabonne du dépôt actif avec le dernier abonné", async () => {
+    vi.stubGlobal("indexedDB", failingIndexedDb);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const repository = createDefaultTaskRepository();
+    await repository.loadAll();
+    const listener = vi.fn();
+
+    repository.subscribe?.(listener)();
+    clearStorageElsewhere();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
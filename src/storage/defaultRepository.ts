@@ -0,0 +1,52 @@
+import type { TaskRepository } from "./TaskRepository";
+import { createIndexedDbTaskRepository } from "./indexedDbRepository";
+import { createLocalStorageTaskRepository } from "./localStorageRepository";
+
+// IndexedDB si disponible, sinon repli sur localStorage (navigation privée, navigateur ancien...)
+export function createDefaultTaskRepository(): TaskRepository {
+  const fallback = createLocalStorageTaskRepository();
+  if (typeof indexedDB === "undefined") return fallback;
+
+  const primary = createIndexedDbTaskRepository();
+  let active: TaskRepository = primary;
+
+  // Un seul abonnement, au dépôt actif ; il est renouvelé lors du repli sur localStorage
+  const listeners = new Set<() => void>();
+  let unsubscribeActive: (() => void) | undefined;
+  const subscribeActive = () => {
+    unsubscribeActive?.();
+    unsubscribeActive = listeners.size > 0 ? active.subscribe?.(() => listeners.forEach(listener => listener())) : undefined;
+  };
+
+  return {
+    get name() {
+      return active.name;
+    },
+
+    async loadAll() {
+      try {
+        return await active.loadAll();
+      } catch (error) {
+        if (active === fallback) throw error;
+
+        console.warn("IndexedDB indisponible, repli sur localStorage:", error);
+        active = fallback;
+        subscribeActive();
+        return fallback.loadAll();
+      }
+    },
+
+    apply(changes) {
+      return active.apply(changes);
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      if (listeners.size === 1) subscribeActive();
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) subscribeActive();
+      };
+    }
+  };
+}
@@ -0,0 +1,139 @@
+import type { Task, TaskStatus } from "../types/Task";
+import type { TaskChanges, TaskRepository } from "./TaskRepository";
+import { TASKS_SCHEMA_VERSION, createQuarantinedRecord, migrateRecord, reviveTask, type QuarantinedRecord } from "./taskCodec";
+import { quarantineTaskRecords } from "./quarantine";
+import { LEGACY_TASKS_KEY, readLocalStorageTasks } from "./localStorageRepository";
+
+const DB_VERSION = 3;
+const TASKS_STORE = "tasks";
+const META_STORE = "meta";
+const LEGACY_MIGRATION_FLAG = "localStorageMigratedAt";
+
+// Enregistrement IndexedDB : les champs indexés sont remontés au premier niveau
+interface StoredTask {
+  id: string;
+  version: number;
+  status: TaskStatus;
+  listId: string;
+  dueDate?: Date;
+  task: Task;
+}
+
+const toStoredTask = (task: Task): StoredTask => ({
+  id: task.id,
+  version: TASKS_SCHEMA_VERSION,
+  status: task.status,
+  listId: task.listId,
+  dueDate: task.dueDate,
+  task
+});
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = (name: string): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const store = db.createObjectStore(TASKS_STORE, { keyPath: "id" });
+        store.createIndex("completed", "completed");
+        store.createIndex("dueDate", "dueDate");
+        db.createObjectStore(META_STORE);
+      }
+      // v2 : l'index "completed" est remplacé par "status" (les anciens enregistrements sont migrés à la lecture)
+      const upgrade = request.transaction;
+      if (event.oldVersion < 2 && upgrade) {
+        const store = upgrade.objectStore(TASKS_STORE);
+        store.deleteIndex("completed");
+        store.createIndex("status", "status");
+      }
+      if (event.oldVersion < 3 && upgrade) {
+        upgrade.objectStore(TASKS_STORE).createIndex("listId", "listId");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Reprise unique des données de l'ancienne clé localStorage "tasks"
+const migrateFromLocalStorage = async (db: IDBDatabase): Promise<void> => {
+  const transaction = db.transaction([TASKS_STORE, META_STORE], "readwrite");
+  const done = transactionDone(transaction);
+  const meta = transaction.objectStore(META_STORE);
+  let migrated = false;
+
+  const flagRequest = meta.get(LEGACY_MIGRATION_FLAG);
+  flagRequest.onsuccess = () => {
+    if (flagRequest.result) return;
+
+    const store = transaction.objectStore(TASKS_STORE);
+    readLocalStorageTasks().forEach(task => store.put(toStoredTask(task)));
+    meta.put(new Date().toISOString(), LEGACY_MIGRATION_FLAG);
+    migrated = true;
+  };
+
+  await done;
+  if (migrated) {
+    window.localStorage.removeItem(LEGACY_TASKS_KEY);
+  }
+};
+
+export function createIndexedDbTaskRepository(dbName: string = "tp-final"): TaskRepository {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const getDatabase = () => {
+    dbPromise ??= openDatabase(dbName).then(async db => {
+      await migrateFromLocalStorage(db);
+      return db;
+    });
+    return dbPromise;
+  };
+
+  return {
+    name: "indexedDB",
+
+    async loadAll() {
+      const db = await getDatabase();
+      const transaction = db.transaction(TASKS_STORE, "readonly");
+      const records = await requestToPromise<StoredTask[]>(transaction.objectStore(TASKS_STORE).getAll());
+
+      const tasks: Task[] = [];
+      const quarantined: QuarantinedRecord[] = [];
+      for (const record of records) {
+        try {
+          tasks.push(reviveTask(migrateRecord(record.task, record.version)));
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          quarantined.push(createQuarantinedRecord(record.task, record.version, reason));
+        }
+      }
+      quarantineTaskRecords(quarantined);
+      return tasks;
+    },
+
+    async apply(changes: TaskChanges) {
+      const db = await getDatabase();
+      const transaction = db.transaction(TASKS_STORE, "readwrite");
+      const done = transactionDone(transaction);
+      const store = transaction.objectStore(TASKS_STORE);
+
+      changes.put.forEach(task => store.put(toStoredTask(task)));
+      changes.delete.forEach(id => store.delete(id));
+
+      await done;
+    }
+  };
+}
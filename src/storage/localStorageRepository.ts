@@ -0,0 +1,43 @@
+import type { Task } from "../types/Task";
+import type { TaskChanges, TaskRepository } from "./TaskRepository";
+import { decodeTasks, encodeTasks } from "./taskCodec";
+import { quarantineTaskRecords } from "./quarantine";
+
+export const LEGACY_TASKS_KEY = "tasks";
+
+export function readLocalStorageTasks(key: string = LEGACY_TASKS_KEY): Task[] {
+  const { tasks, quarantined } = decodeTasks(window.localStorage.getItem(key));
+  quarantineTaskRecords(quarantined);
+  return tasks;
+}
+
+// Dépôt de repli : tout le tableau est réécrit à chaque modification
+export function createLocalStorageTaskRepository(key: string = LEGACY_TASKS_KEY): TaskRepository {
+  return {
+    name: "localStorage",
+
+    async loadAll() {
+      return readLocalStorageTasks(key);
+    },
+
+    async apply(changes: TaskChanges) {
+      const updated = new Map(readLocalStorageTasks(key).map(task => [task.id, task]));
+      changes.put.forEach(task => updated.set(task.id, task));
+      changes.delete.forEach(id => updated.delete(id));
+      window.localStorage.setItem(key, encodeTasks([...updated.values()]));
+    },
+
+    // Les modifications des autres onglets arrivent par le canal d'opérations (taskChannel) ;
+    // seul un effacement du stockage impose de tout relire
+    subscribe(listener: () => void) {
+      const handleStorageChange = (e: StorageEvent) => {
+        if (e.key === null || (e.key === key && e.newValue === null)) {
+          listener();
+        }
+      };
+
+      window.addEventListener("storage", handleStorageChange);
+      return () => window.removeEventListener("storage", handleStorageChange);
+    }
+  };
+}
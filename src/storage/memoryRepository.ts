@@ -0,0 +1,20 @@
+import type { Task } from "../types/Task";
+import type { TaskChanges, TaskRepository } from "./TaskRepository";
+
+// Dépôt en mémoire, utile pour les tests et quand aucun stockage n'est disponible
+export function createMemoryTaskRepository(initialTasks: Task[] = []): TaskRepository {
+  const tasks = new Map(initialTasks.map(task => [task.id, task]));
+
+  return {
+    name: "memory",
+
+    async loadAll() {
+      return [...tasks.values()];
+    },
+
+    async apply(changes: TaskChanges) {
+      changes.put.forEach(task => tasks.set(task.id, task));
+      changes.delete.forEach(id => tasks.delete(id));
+    }
+  };
+}
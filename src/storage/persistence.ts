@@ -0,0 +1,13 @@
+// "persisted" : le navigateur s'engage à ne pas évincer IndexedDB ni localStorage en cas de manque d'espace
+export type PersistenceState = "persisted" | "best-effort" | "unsupported";
+
+export async function readPersistence(): Promise<PersistenceState> {
+  if (!navigator.storage?.persisted) return "unsupported";
+  return (await navigator.storage.persisted()) ? "persisted" : "best-effort";
+}
+
+// Selon le navigateur, accordé d'office (application installée, site fréquenté) ou après une invite
+export async function requestPersistence(): Promise<PersistenceState> {
+  if (!navigator.storage?.persist) return "unsupported";
+  return (await navigator.storage.persist()) ? "persisted" : "best-effort";
+}
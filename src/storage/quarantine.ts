@@ -0,0 +1,21 @@
+import type { QuarantinedRecord } from "./taskCodec";
+
+export const TASKS_QUARANTINE_KEY = "tasks:quarantine";
+
+// Les enregistrements non migrables sont mis de côté au lieu d'être perdus
+export function quarantineTaskRecords(records: QuarantinedRecord[]): void {
+  if (records.length === 0) return;
+
+  try {
+    const existing = window.localStorage.getItem(TASKS_QUARANTINE_KEY);
+    const previous: QuarantinedRecord[] = existing ? JSON.parse(existing) : [];
+    const known = new Set(previous.map(entry => JSON.stringify(entry.record)));
+    const added = records.filter(entry => !known.has(JSON.stringify(entry.record)));
+    if (added.length === 0) return;
+
+    window.localStorage.setItem(TASKS_QUARANTINE_KEY, JSON.stringify([...previous, ...added]));
+    console.warn(`${added.length} tâche(s) mise(s) en quarantaine sous la clé "${TASKS_QUARANTINE_KEY}":`, added);
+  } catch (error) {
+    console.warn("Erreur lors de la mise en quarantaine des tâches:", error, records);
+  }
+}
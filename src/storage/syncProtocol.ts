@@ -0,0 +1,100 @@
+import type { Task } from "../types/Task";
+
+// Protocole de synchronisation (voir server/sync-server.mjs pour le serveur de référence).
+// Chaque champ d'une tâche porte l'horodatage (updatedAt) de sa dernière modification :
+// les éditions concurrentes sont fusionnées champ par champ, la plus récente l'emporte.
+// Une suppression laisse une pierre tombale (deletedAt) qui l'emporte sur toute modification,
+// sauf sur une tâche recréée en entier après coup (annulation d'une suppression ou d'une purge).
+
+export type SyncFields = Record<string, unknown>;
+
+export interface SyncChange {
+  id: string;
+  fields: SyncFields;
+  fieldTimes: Record<string, number>;
+  deletedAt?: number;
+}
+
+export interface SyncRecord extends SyncChange {
+  revision: number;
+}
+
+// GET {endpoint}/calendar.ics : abonnement iCalendar aux échéances (VEVENT, ou VTODO avec ?component=VTODO)
+export const calendarFeedUrl = (endpoint: string): string => `${endpoint.replace(/\/+$/, "")}/calendar.ics`;
+
+// POST {endpoint}/sync
+export interface SyncRequest {
+  since: number;
+  changes: SyncChange[];
+}
+
+export interface SyncResponse {
+  revision: number;
+  records: SyncRecord[];
+}
+
+// Champs dérivés ou identifiants : jamais fusionnés
+const UNSYNCED_FIELDS = new Set(["id", "updatedAt"]);
+
+// Forme JSON (dates en ISO) ; une valeur retirée est transmise comme null
+const toFields = (task: Task): SyncFields => JSON.parse(JSON.stringify(task));
+
+export function diffTask(before: Task | undefined, after: Task, time = after.updatedAt.getTime()): SyncChange {
+  const next = toFields(after);
+  const previous = before ? toFields(before) : {};
+  const change: SyncChange = { id: after.id, fields: {}, fieldTimes: {} };
+
+  new Set([...Object.keys(previous), ...Object.keys(next)]).forEach(field => {
+    if (UNSYNCED_FIELDS.has(field)) return;
+
+    const value = next[field] ?? null;
+    if (before && JSON.stringify(previous[field] ?? null) === JSON.stringify(value)) return;
+    change.fields[field] = value;
+    change.fieldTimes[field] = time;
+  });
+
+  return change;
+}
+
+// À horodatage égal, la comparaison des valeurs départage de façon identique partout
+const wins = (incomingTime: number, incomingValue: unknown, currentTime: number | undefined, currentValue: unknown): boolean =>
+  currentTime === undefined ||
+  incomingTime > currentTime ||
+  (incomingTime === currentTime && JSON.stringify(incomingValue) > JSON.stringify(currentValue));
+
+// Une tâche recréée est envoyée en entier : son createdAt porte l'horodatage de la recréation
+const recreatedAt = (change: SyncChange): number => change.fieldTimes.createdAt ?? 0;
+
+export function mergeChanges<T extends SyncChange>(current: T, incoming: SyncChange): T {
+  const deletedAt = Math.max(current.deletedAt ?? 0, incoming.deletedAt ?? 0);
+  if (deletedAt > 0 && Math.max(recreatedAt(current), recreatedAt(incoming)) <= deletedAt) {
+    return { ...current, fields: {}, fieldTimes: {}, deletedAt };
+  }
+
+  // Les champs antérieurs à la suppression ne survivent pas à la recréation
+  const fields: SyncFields = {};
+  const fieldTimes: Record<string, number> = {};
+  [current, incoming].forEach(change => {
+    Object.entries(change.fields).forEach(([field, value]) => {
+      const time = change.fieldTimes[field] ?? 0;
+      if (deletedAt > 0 && time <= deletedAt) return;
+      if (wins(time, value, fieldTimes[field], fields[field])) {
+        fields[field] = value;
+        fieldTimes[field] = time;
+      }
+    });
+  });
+  const merged = { ...current, fields, fieldTimes };
+  delete merged.deletedAt;
+  return merged;
+}
+
+// Enregistrement complet vers le format attendu par reviveTask
+export function recordToTaskRecord(record: SyncChange): SyncFields {
+  const times = Object.values(record.fieldTimes);
+  return {
+    ...record.fields,
+    id: record.id,
+    updatedAt: times.length > 0 ? Math.max(...times) : record.fields.createdAt
+  };
+}
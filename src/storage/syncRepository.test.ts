@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createSyncedTaskRepository } from "./syncRepository";
+import { createMemoryTaskRepository } from "./memoryRepository";
+import { mergeChanges, type SyncRecord, type SyncRequest, type SyncResponse } from "./syncProtocol";
+import type { TaskOperation } from "../types/Task";
+import { invertOperation, operationChanges } from "../utils/taskOperations";
+import { makeTask } from "../test/fixtures";
+
+const T1 = Date.parse("2026-10-01T09:00:00.000Z");
+
+// Serveur de référence réduit à sa fusion (server/sync-server.mjs applique la même règle)
+function createFakeServer() {
+  const records = new Map<string, SyncRecord>();
+  let revision = 0;
+
+  const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+    const { since, changes } = JSON.parse(String(init.body)) as SyncRequest;
+    const touched = new Set(changes.map(change => change.id));
+    changes.forEach(change => {
+      const current = records.get(change.id) ?? { id: change.id, fields: {}, fieldTimes: {}, revision: 0 };
+      revision += 1;
+      records.set(change.id, { ...mergeChanges(current, change), revision });
+    });
+    const body: SyncResponse = {
+      revision,
+      records: [...records.values()].filter(record => record.revision > since || touched.has(record.id))
+    };
+    return { ok: true, status: 200, json: async () => body };
+  });
+
+  return { records, fetch };
+}
+
+const task = makeTask({ title: "Courses", createdAt: new Date(T1), updatedAt: new Date(T1) });
+const create: TaskOperation = { type: "create", task };
+const undo = invertOperation(create);
+
+const setup = () => {
+  const server = createFakeServer();
+  vi.stubGlobal("fetch", server.fetch);
+  const local = createMemoryTaskRepository();
+  const repository = createSyncedTaskRepository(local, { endpoint: "http://sync.test", debounceMs: 60_000 });
+  return { server, local, repository };
+};
+
+// Chaque action de l'utilisateur a lieu une minute après la précédente
+const later = () => vi.setSystemTime(Date.now() + 60_000);
+
+describe("createSyncedTaskRepository : création, annulation puis rétablissement", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(T1);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("garde la tâche rétablie quand la suppression n'était pas encore envoyée", async () => {
+    const { server, local, repository } = setup();
+    await repository.loadAll();
+
+    await repository.apply(operationChanges(create));
+    later();
+    await repository.apply(operationChanges(undo));
+    later();
+    await repository.apply(operationChanges(invertOperation(undo)));
+    await repository.sync();
+
+    expect((await local.loadAll()).map(current => current.id)).toEqual([task.id]);
+    expect(server.records.get(task.id)).toMatchObject({ fields: { title: "Courses" } });
+    expect(server.records.get(task.id)?.deletedAt).toBeUndefined();
+    expect(repository.getStatus()).toMatchObject({ state: "idle", pending: 0 });
+  });
+
+  it("garde la tâche rétablie après que la suppression a été synchronisée", async () => {
+    const { server, local, repository } = setup();
+    await repository.loadAll();
+
+    await repository.apply(operationChanges(create));
+    await repository.sync();
+    later();
+    await repository.apply(operationChanges(undo));
+    await repository.sync();
+    expect(server.records.get(task.id)?.deletedAt).toBeDefined();
+
+    later();
+    await repository.apply(operationChanges(invertOperation(undo)));
+    await repository.sync();
+    await repository.sync();
+
+    expect((await local.loadAll()).map(current => current.id)).toEqual([task.id]);
+    expect(server.records.get(task.id)?.deletedAt).toBeUndefined();
+    expect(server.records.get(task.id)?.fields.title).toBe("Courses");
+  });
+});
@@ -0,0 +1,249 @@
+import type { Task } from "../types/Task";
+import type { TaskChanges, TaskRepository } from "./TaskRepository";
+import { reviveTask } from "./taskCodec";
+import {
+  diffTask,
+  mergeChanges,
+  recordToTaskRecord,
+  type SyncChange,
+  type SyncRequest,
+  type SyncResponse
+} from "./syncProtocol";
+
+export const SYNC_OUTBOX_KEY = "sync:outbox";
+export const SYNC_STATE_KEY = "sync:state";
+
+export interface SyncStatus {
+  state: "idle" | "syncing" | "offline" | "error";
+  pending: number;
+  lastSyncedAt?: Date;
+  error?: string;
+}
+
+export interface SyncedTaskRepository extends TaskRepository {
+  sync(): Promise<void>;
+  // Démarre la synchronisation périodique ; retourne la fonction d'arrêt
+  start(): () => void;
+  getStatus(): SyncStatus;
+  subscribeStatus(listener: () => void): () => void;
+}
+
+interface SyncOptions {
+  endpoint: string;
+  intervalMs?: number;
+  debounceMs?: number;
+  timeoutMs?: number;
+}
+
+interface SyncState {
+  endpoint: string;
+  revision: number;
+}
+
+type Outbox = Record<string, SyncChange>;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Hors ligne d'abord : chaque modification est écrite localement puis mise en file (outbox),
+// la file est envoyée dès que le serveur répond, et les changements distants sont ramenés en retour
+export function createSyncedTaskRepository(
+  local: TaskRepository,
+  { endpoint, intervalMs = 30_000, debounceMs = 1_000, timeoutMs = 10_000 }: SyncOptions
+): SyncedTaskRepository {
+  const baseUrl = endpoint.replace(/\/+$/, "");
+  const listeners = new Set<() => void>();
+  const statusListeners = new Set<() => void>();
+  // Dernier état connu de chaque tâche, pour ne mettre en file que les champs modifiés
+  const known = new Map<string, Task>();
+  let status: SyncStatus = { state: "idle", pending: Object.keys(readJson<Outbox>(SYNC_OUTBOX_KEY, {})).length };
+  let running: Promise<void> | null = null;
+  let rerun = false;
+  let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const readOutbox = () => readJson<Outbox>(SYNC_OUTBOX_KEY, {});
+  const writeOutbox = (outbox: Outbox) => window.localStorage.setItem(SYNC_OUTBOX_KEY, JSON.stringify(outbox));
+
+  // La révision n'a de sens que pour le serveur qui l'a donnée
+  const readRevision = () => {
+    const state = readJson<SyncState | null>(SYNC_STATE_KEY, null);
+    return state?.endpoint === baseUrl ? state.revision : 0;
+  };
+  const writeRevision = (revision: number) => {
+    const state: SyncState = { endpoint: baseUrl, revision };
+    window.localStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+  };
+
+  const setStatus = (changes: Partial<SyncStatus>) => {
+    status = { ...status, ...changes };
+    statusListeners.forEach(listener => listener());
+  };
+
+  const enqueue = (changes: SyncChange[]) => {
+    const outbox = readOutbox();
+    changes.forEach(change => {
+      outbox[change.id] = outbox[change.id] ? mergeChanges(outbox[change.id], change) : change;
+    });
+    writeOutbox(outbox);
+    setStatus({ pending: Object.keys(outbox).length });
+  };
+
+  const scheduleSync = () => {
+    clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(() => void sync(), debounceMs);
+  };
+
+  // Les changements locaux encore en file restent prioritaires s'ils sont plus récents
+  const applyRemote = async (response: SyncResponse) => {
+    const outbox = readOutbox();
+    const changes: TaskChanges = { put: [], delete: [] };
+
+    response.records.forEach(record => {
+      const pending = outbox[record.id];
+      const merged = pending ? mergeChanges(record, pending) : record;
+      if (merged.deletedAt !== undefined) {
+        changes.delete.push(record.id);
+        return;
+      }
+      try {
+        changes.put.push(reviveTask(recordToTaskRecord(merged)));
+      } catch (error) {
+        console.warn(`Tâche distante "${record.id}" ignorée :`, error);
+      }
+    });
+
+    if (changes.put.length === 0 && changes.delete.length === 0) return;
+    await local.apply(changes);
+    changes.put.forEach(task => known.set(task.id, task));
+    changes.delete.forEach(id => known.delete(id));
+    listeners.forEach(listener => listener());
+  };
+
+  const pushAndPull = async () => {
+    const since = readRevision();
+    // Premier échange avec ce serveur : toutes les tâches locales lui sont envoyées
+    if (since === 0) {
+      enqueue((await local.loadAll()).map(task => diffTask(undefined, task)));
+    }
+    const outbox = readOutbox();
+    const sent = Object.values(outbox);
+    const request: SyncRequest = { since, changes: sent };
+
+    const response = await fetch(`${baseUrl}/sync`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+    if (!response.ok) {
+      throw new Error(`réponse ${response.status} du serveur de synchronisation`);
+    }
+    const result = (await response.json()) as SyncResponse;
+
+    // Seules les entrées envoyées et non modifiées depuis sont retirées de la file
+    const current = readOutbox();
+    sent.forEach(change => {
+      if (JSON.stringify(current[change.id]) === JSON.stringify(change)) delete current[change.id];
+    });
+    writeOutbox(current);
+
+    await applyRemote(result);
+    writeRevision(result.revision);
+    setStatus({ state: "idle", pending: Object.keys(current).length, lastSyncedAt: new Date(), error: undefined });
+  };
+
+  const sync = (): Promise<void> => {
+    if (running) {
+      rerun = true;
+      return running;
+    }
+    if (typeof navigator !== "undefined" && !navigator.onLine) {
+      setStatus({ state: "offline" });
+      return Promise.resolve();
+    }
+
+    setStatus({ state: "syncing" });
+    running = pushAndPull()
+      .catch(error => {
+        const offline = typeof navigator !== "undefined" && !navigator.onLine;
+        setStatus({ state: offline ? "offline" : "error", error: error instanceof Error ? error.message : String(error) });
+      })
+      .finally(() => {
+        running = null;
+        if (rerun) {
+          rerun = false;
+          void sync();
+        }
+      });
+    return running;
+  };
+
+  return {
+    get name() {
+      return `${local.name}+sync`;
+    },
+
+    async loadAll() {
+      const tasks = await local.loadAll();
+      known.clear();
+      tasks.forEach(task => known.set(task.id, task));
+      return tasks;
+    },
+
+    async apply(changes) {
+      const now = Date.now();
+      enqueue([
+        // Une tâche recréée (annulation d'une suppression) garde son updatedAt d'origine :
+        // elle est datée de sa réécriture pour l'emporter sur la pierre tombale
+        ...changes.put.map(task =>
+          known.has(task.id) ? diffTask(known.get(task.id), task) : diffTask(undefined, task, Math.max(now, task.updatedAt.getTime()))
+        ),
+        ...changes.delete.map(id => ({ id, fields: {}, fieldTimes: {}, deletedAt: now }))
+      ]);
+      await local.apply(changes);
+      changes.put.forEach(task => known.set(task.id, task));
+      changes.delete.forEach(id => known.delete(id));
+      scheduleSync();
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      const unsubscribe = local.subscribe?.(listener);
+      return () => {
+        listeners.delete(listener);
+        unsubscribe?.();
+      };
+    },
+
+    sync,
+
+    start() {
+      const handleOnline = () => void sync();
+      const handleOffline = () => setStatus({ state: "offline" });
+      window.addEventListener("online", handleOnline);
+      window.addEventListener("offline", handleOffline);
+      const interval = setInterval(() => void sync(), intervalMs);
+      void sync();
+
+      return () => {
+        window.removeEventListener("online", handleOnline);
+        window.removeEventListener("offline", handleOffline);
+        clearInterval(interval);
+        clearTimeout(debounceTimer);
+      };
+    },
+
+    getStatus: () => status,
+
+    subscribeStatus(listener) {
+      statusListeners.add(listener);
+      return () => statusListeners.delete(listener);
+    }
+  };
+}
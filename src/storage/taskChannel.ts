@@ -0,0 +1,89 @@
+import type { TaskOperation } from "../types/Task";
+import { TaskCodecError, reviveTask } from "./taskCodec";
+
+export const TASK_CHANNEL_NAME = "tasks:operations";
+
+export interface TaskChannel {
+  publish(operation: TaskOperation): void;
+  subscribe(listener: (operation: TaskOperation) => void): () => void;
+  close(): void;
+}
+
+interface ChannelMessage {
+  source: string;
+  operation: unknown;
+  sentAt: number;
+}
+
+// Les opérations voyagent en JSON : les dates sont relues comme pour le stockage
+function reviveOperation(value: unknown): TaskOperation {
+  const operation = value as Record<string, unknown>;
+  switch (operation?.type) {
+    case "create":
+    case "delete":
+      return { type: operation.type, task: reviveTask(operation.task) };
+    case "update":
+      return { type: "update", before: reviveTask(operation.before), after: reviveTask(operation.after) };
+    case "batch":
+      if (!Array.isArray(operation.operations)) break;
+      return { type: "batch", operations: operation.operations.map(reviveOperation) };
+  }
+  throw new TaskCodecError("codec.invalidOperation", { type: String(operation?.type) });
+}
+
+// Diffuse les opérations aux autres onglets : BroadcastChannel, ou à défaut l'événement "storage"
+// (une clé localStorage réécrite à chaque message). L'émetteur ne reçoit jamais ses propres messages.
+export function createTaskChannel(name: string = TASK_CHANNEL_NAME): TaskChannel {
+  const source = `tab_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  const listeners = new Set<(operation: TaskOperation) => void>();
+  const broadcast = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(name) : null;
+
+  const receive = (raw: unknown) => {
+    try {
+      const message = (typeof raw === "string" ? JSON.parse(raw) : raw) as ChannelMessage;
+      if (message.source === source) return;
+
+      const operation = reviveOperation(message.operation);
+      listeners.forEach(listener => listener(operation));
+    } catch (error) {
+      console.warn("Message ignoré sur le canal des tâches :", error);
+    }
+  };
+
+  const handleMessage = (e: MessageEvent) => receive(e.data);
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key === name && e.newValue !== null) receive(e.newValue);
+  };
+
+  if (broadcast) {
+    broadcast.addEventListener("message", handleMessage);
+  } else {
+    window.addEventListener("storage", handleStorage);
+  }
+
+  return {
+    publish(operation) {
+      const message: ChannelMessage = { source, operation: JSON.parse(JSON.stringify(operation)), sentAt: Date.now() };
+      try {
+        if (broadcast) {
+          broadcast.postMessage(message);
+        } else {
+          window.localStorage.setItem(name, JSON.stringify(message));
+        }
+      } catch (error) {
+        console.warn("Impossible de diffuser l'opération aux autres onglets :", error);
+      }
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    close() {
+      listeners.clear();
+      broadcast?.close();
+      window.removeEventListener("storage", handleStorage);
+    }
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { decodeTasks, encodeTasks, reviveTask } from "./taskCodec";
+import { seriesValuesOf } from "../utils/recurrence";
+import { makeTask } from "../test/fixtures";
+
+const recurrence = {
+  rule: { frequency: "daily" as const, interval: 1, weekdays: [] },
+  seriesId: "series_test",
+  index: 1,
+  scheduledDate: new Date("2026-10-19T00:00:00.000Z"),
+  history: []
+};
+
+describe("taskCodec : valeurs de la série", () => {
+  it("conserve les champs vides de la série à la relecture", () => {
+    const series = makeTask({ priority: "low", tags: ["maison"] });
+    const task = makeTask({
+      dueTime: "08:30",
+      reminderOffset: 10,
+      priority: "urgent",
+      estimateMinutes: 20,
+      recurrence: { ...recurrence, seriesValues: seriesValuesOf(series) }
+    });
+
+    const [decoded] = decodeTasks(encodeTasks([task])).tasks;
+
+    expect(decoded.recurrence?.seriesValues).toEqual(seriesValuesOf(series));
+  });
+
+  it("complète les valeurs enregistrées avant l'ajout des autres champs avec ceux de la tâche", () => {
+    const task = makeTask({ dueTime: "08:30", priority: "high", tags: ["sport"], estimateMinutes: 40 });
+    const record = JSON.parse(JSON.stringify({
+      ...task,
+      recurrence: { ...recurrence, seriesValues: { title: "Courir", description: "5 km" } }
+    }));
+
+    expect(reviveTask(record).recurrence?.seriesValues).toEqual({
+      ...seriesValuesOf(task),
+      title: "Courir",
+      description: "5 km"
+    });
+  });
+});
@@ -0,0 +1,415 @@
+import type { RecurrenceRule, SeriesValues, Subtask, Task, TaskRecurrence, TimeEntry } from "../types/Task";
+import { isTaskPriority } from "../utils/priority";
+import { isDueTime } from "../utils/dueDates";
+import { isTaskStatus } from "../utils/status";
+import { isRankKey } from "../utils/rank";
+import { DEFAULT_LIST_ID } from "../utils/lists";
+import { DEFAULT_LOCALE, getTranslator, type LocalizedMessage, type MessageKey, type MessageParams } from "../i18n/i18n";
+
+// Version courante du format stocké sous la clé "tasks".
+// v0 : tableau brut (ancien App.tsx ou ancien useTasks), v1 : enveloppe { version, tasks },
+// v2 : sous-tâches imbriquées, v3 : priorité et étiquettes, v4 : statut à la place de "completed",
+// v5 : listes, v6 : date d'achèvement
+export const TASKS_SCHEMA_VERSION = 6;
+
+export interface TaskEnvelope {
+  version: number;
+  tasks: unknown[];
+}
+
+export interface QuarantinedRecord {
+  record: unknown;
+  version: number;
+  reason: string;
+  quarantinedAt: string;
+}
+
+export interface DecodedTasks {
+  tasks: Task[];
+  quarantined: QuarantinedRecord[];
+  version: number;
+}
+
+// La clé et ses paramètres servent à l'affichage traduit (aperçu d'import) ;
+// le message, en français, aux journaux et aux raisons de quarantaine
+export class TaskCodecError extends Error {
+  readonly detail: LocalizedMessage;
+
+  constructor(key: MessageKey, params?: MessageParams) {
+    super(getTranslator(DEFAULT_LOCALE).t(key, params));
+    this.name = "TaskCodecError";
+    this.detail = { key, params };
+  }
+}
+
+// Erreur de décodage à afficher ; une erreur imprévue est reprise telle quelle
+export const codecErrorMessage = (error: unknown): LocalizedMessage =>
+  error instanceof TaskCodecError
+    ? error.detail
+    : { key: "codec.unexpected", params: { error: error instanceof Error ? error.message : String(error) } };
+
+type Migration = (record: unknown) => unknown;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// v0 -> v1 : ids numériques de l'ancien App.tsx, description vide, updatedAt absent
+const migrateFromV0: Migration = (record) => {
+  if (!isRecord(record)) {
+    throw new TaskCodecError("codec.notObject");
+  }
+
+  return {
+    ...record,
+    id: typeof record.id === "number" ? String(record.id) : record.id,
+    description: record.description === "" ? undefined : record.description,
+    updatedAt: record.updatedAt ?? record.createdAt
+  };
+};
+
+// v1 -> v2 : ajout de la liste de sous-tâches
+const migrateFromV1: Migration = (record) => {
+  if (!isRecord(record)) {
+    throw new TaskCodecError("codec.notObject");
+  }
+
+  return { ...record, subtasks: record.subtasks ?? [] };
+};
+
+// v2 -> v3 : priorité normale et aucune étiquette par défaut
+const migrateFromV2: Migration = (record) => {
+  if (!isRecord(record)) {
+    throw new TaskCodecError("codec.notObject");
+  }
+
+  return { ...record, priority: record.priority ?? "normal", tags: record.tags ?? [] };
+};
+
+// v3 -> v4 : le booléen "completed" devient le statut "done" ou "todo"
+const migrateFromV3: Migration = (record) => {
+  if (!isRecord(record)) {
+    throw new TaskCodecError("codec.notObject");
+  }
+
+  const { completed, ...rest } = record;
+  return { ...rest, status: rest.status ?? (completed === true ? "done" : "todo") };
+};
+
+// v4 -> v5 : les tâches existantes rejoignent la liste par défaut
+const migrateFromV4: Migration = (record) => {
+  if (!isRecord(record)) {
+    throw new TaskCodecError("codec.notObject");
+  }
+
+  return { ...record, listId: record.listId ?? DEFAULT_LIST_ID };
+};
+
+// v5 -> v6 : faute de mieux, la dernière modification d'une tâche terminée tient lieu de date d'achèvement
+const migrateFromV5: Migration = (record) => {
+  if (!isRecord(record)) {
+    throw new TaskCodecError("codec.notObject");
+  }
+
+  return { ...record, completedAt: record.completedAt ?? (record.status === "done" ? record.updatedAt : undefined) };
+};
+
+// migrations[n] fait passer un enregistrement de la version n à n + 1
+const migrations: Record<number, Migration> = {
+  0: migrateFromV0,
+  1: migrateFromV1,
+  2: migrateFromV2,
+  3: migrateFromV3,
+  4: migrateFromV4,
+  5: migrateFromV5
+};
+
+const reviveDate = (value: unknown, field: string): Date => {
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      throw new TaskCodecError("codec.invalidDate", { field });
+    }
+    return value;
+  }
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new TaskCodecError("codec.missingField", { field });
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new TaskCodecError("codec.invalidDateValue", { field, value: String(value) });
+  }
+  return date;
+};
+
+const reviveSubtasks = (value: unknown, field: string): Subtask[] => {
+  if (!Array.isArray(value)) {
+    throw new TaskCodecError("codec.missingField", { field });
+  }
+
+  return value.map((item, index) => {
+    const path = `${field}[${index}]`;
+    if (!isRecord(item) || typeof item.id !== "string" || typeof item.title !== "string" || typeof item.completed !== "boolean") {
+      throw new TaskCodecError("codec.invalidSubtask", { path });
+    }
+    return {
+      id: item.id,
+      title: item.title,
+      completed: item.completed,
+      subtasks: reviveSubtasks(item.subtasks, `${path}.subtasks`)
+    };
+  });
+};
+
+const reviveTimeEntries = (value: unknown): TimeEntry[] | undefined => {
+  if (value == null) return undefined;
+  if (!Array.isArray(value)) {
+    throw new TaskCodecError("codec.invalidField", { field: "timeEntries" });
+  }
+
+  return value.map((item, index) => {
+    const path = `timeEntries[${index}]`;
+    if (!isRecord(item) || typeof item.id !== "string" || (item.note != null && typeof item.note !== "string")) {
+      throw new TaskCodecError("codec.invalidTimeEntry", { path });
+    }
+    const start = reviveDate(item.start, `${path}.start`);
+    const end = reviveDate(item.end, `${path}.end`);
+    if (end < start) {
+      throw new TaskCodecError("codec.timeEntryEndsBeforeStart", { path });
+    }
+    return { id: item.id, start, end, note: item.note || undefined };
+  });
+};
+
+const FREQUENCIES = ["daily", "weekly", "monthly"];
+
+const isPositiveInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+// Valeurs de la série ; les enregistrements antérieurs (titre et description seuls, donc sans priorité)
+// reprennent les autres champs de la tâche. Une valeur illisible est ignorée comme le reste de la série.
+const reviveSeriesValues = (value: unknown, task: SeriesValues): SeriesValues | undefined => {
+  if (!isRecord(value) || typeof value.title !== "string") return undefined;
+  const description = typeof value.description === "string" ? value.description || undefined : undefined;
+  if (!("priority" in value)) return { ...task, title: value.title, description };
+
+  const { dueTime, reminderOffset, priority, tags, estimateMinutes } = value;
+  return {
+    title: value.title,
+    description,
+    dueTime: isDueTime(dueTime) ? dueTime : undefined,
+    reminderOffset: Number.isInteger(reminderOffset) && (reminderOffset as number) >= 0 ? reminderOffset as number : undefined,
+    priority: isTaskPriority(priority) ? priority : task.priority,
+    tags: Array.isArray(tags) && tags.every(tag => typeof tag === "string") ? tags : task.tags,
+    estimateMinutes: isPositiveInteger(estimateMinutes) ? estimateMinutes : undefined
+  };
+};
+
+const reviveRecurrence = (value: unknown, task: SeriesValues): TaskRecurrence | undefined => {
+  if (value == null) return undefined;
+  if (!isRecord(value) || !isRecord(value.rule) || typeof value.seriesId !== "string" || !isPositiveInteger(value.index)) {
+    throw new TaskCodecError("codec.invalidField", { field: "recurrence" });
+  }
+
+  const { rule } = value;
+  if (
+    !FREQUENCIES.includes(rule.frequency as string) ||
+    !isPositiveInteger(rule.interval) ||
+    !Array.isArray(rule.weekdays) ||
+    rule.weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6) ||
+    (rule.monthDay != null && !Number.isInteger(rule.monthDay)) ||
+    (rule.count != null && !isPositiveInteger(rule.count))
+  ) {
+    throw new TaskCodecError("codec.invalidRecurrenceRule");
+  }
+  if (!Array.isArray(value.history)) {
+    throw new TaskCodecError("codec.invalidRecurrenceHistory");
+  }
+
+  return {
+    rule: {
+      frequency: rule.frequency as RecurrenceRule["frequency"],
+      interval: rule.interval,
+      weekdays: rule.weekdays as number[],
+      monthDay: (rule.monthDay as number | null) ?? undefined,
+      until: rule.until == null ? undefined : reviveDate(rule.until, "recurrence.rule.until"),
+      count: (rule.count as number | null) ?? undefined
+    },
+    seriesId: value.seriesId,
+    index: value.index,
+    scheduledDate: reviveDate(value.scheduledDate, "recurrence.scheduledDate"),
+    history: value.history.map((entry, index) => {
+      if (!isRecord(entry) || !isPositiveInteger(entry.index)) {
+        throw new TaskCodecError("codec.invalidHistoryEntry", { index });
+      }
+      return {
+        index: entry.index,
+        scheduledDate: reviveDate(entry.scheduledDate, `recurrence.history[${index}].scheduledDate`),
+        completedAt: entry.completedAt == null ? undefined : reviveDate(entry.completedAt, `recurrence.history[${index}].completedAt`),
+        skipped: entry.skipped === true || undefined
+      };
+    }),
+    nextId: typeof value.nextId === "string" ? value.nextId : undefined,
+    seriesValues: reviveSeriesValues(value.seriesValues, task)
+  };
+};
+
+export function reviveTask(record: unknown): Task {
+  if (!isRecord(record)) {
+    throw new TaskCodecError("codec.notObject");
+  }
+
+  const {
+    id, listId, title, description, dueDate, dueTime, reminderOffset, status, completedAt, rank, priority, tags, autoComplete, estimateMinutes
+  } = record;
+
+  if (typeof id !== "string" || !id) {
+    throw new TaskCodecError("codec.missingField", { field: "id" });
+  }
+  if (typeof listId !== "string" || !listId) {
+    throw new TaskCodecError("codec.missingField", { field: "listId" });
+  }
+  if (typeof title !== "string" || !title.trim()) {
+    throw new TaskCodecError("codec.missingField", { field: "title" });
+  }
+  if (description != null && typeof description !== "string") {
+    throw new TaskCodecError("codec.invalidField", { field: "description" });
+  }
+  if (dueTime != null && !isDueTime(dueTime)) {
+    throw new TaskCodecError("codec.invalidDueTime", { value: String(dueTime) });
+  }
+  if (reminderOffset != null && (!Number.isInteger(reminderOffset) || (reminderOffset as number) < 0)) {
+    throw new TaskCodecError("codec.invalidReminder", { value: String(reminderOffset) });
+  }
+  if (!isTaskStatus(status)) {
+    throw new TaskCodecError("codec.invalidStatus", { value: String(status) });
+  }
+  if (rank != null && !isRankKey(rank)) {
+    throw new TaskCodecError("codec.invalidRank", { value: String(rank) });
+  }
+  if (!isTaskPriority(priority)) {
+    throw new TaskCodecError("codec.invalidPriority", { value: String(priority) });
+  }
+  if (!Array.isArray(tags) || tags.some(tag => typeof tag !== "string")) {
+    throw new TaskCodecError("codec.missingField", { field: "tags" });
+  }
+  if (autoComplete != null && typeof autoComplete !== "boolean") {
+    throw new TaskCodecError("codec.invalidField", { field: "autoComplete" });
+  }
+  if (estimateMinutes != null && !isPositiveInteger(estimateMinutes)) {
+    throw new TaskCodecError("codec.invalidEstimate", { value: String(estimateMinutes) });
+  }
+
+  return {
+    id,
+    listId,
+    title,
+    description: description || undefined,
+    dueDate: dueDate == null ? undefined : reviveDate(dueDate, "dueDate"),
+    dueTime: dueTime ?? undefined,
+    reminderOffset: (reminderOffset as number | null) ?? undefined,
+    status,
+    // Seules les tâches terminées ont une date d'achèvement ; un import sans date prend la dernière modification
+    completedAt: status === "done" ? reviveDate(completedAt ?? record.updatedAt, "completedAt") : undefined,
+    rank: isRankKey(rank) ? rank : undefined,
+    priority,
+    tags,
+    subtasks: reviveSubtasks(record.subtasks, "subtasks"),
+    autoComplete: autoComplete ?? undefined,
+    recurrence: reviveRecurrence(record.recurrence, {
+      title,
+      description: description || undefined,
+      dueTime: dueTime ?? undefined,
+      reminderOffset: (reminderOffset as number | null) ?? undefined,
+      priority,
+      tags,
+      estimateMinutes: (estimateMinutes as number | null) ?? undefined
+    }),
+    estimateMinutes: (estimateMinutes as number | null) ?? undefined,
+    timeEntries: reviveTimeEntries(record.timeEntries),
+    deletedAt: record.deletedAt == null ? undefined : reviveDate(record.deletedAt, "deletedAt"),
+    archivedAt: record.archivedAt == null ? undefined : reviveDate(record.archivedAt, "archivedAt"),
+    createdAt: reviveDate(record.createdAt, "createdAt"),
+    updatedAt: reviveDate(record.updatedAt, "updatedAt")
+  };
+}
+
+export function migrateRecord(record: unknown, fromVersion: number): unknown {
+  let migrated = record;
+  for (let version = fromVersion; version < TASKS_SCHEMA_VERSION; version++) {
+    const migration = migrations[version];
+    if (!migration) {
+      throw new TaskCodecError("codec.noMigration", { version });
+    }
+    migrated = migration(migrated);
+  }
+  return migrated;
+}
+
+export const createQuarantinedRecord = (record: unknown, version: number, reason: string): QuarantinedRecord => ({
+  record,
+  version,
+  reason,
+  quarantinedAt: new Date().toISOString()
+});
+
+export const readEnvelope = (parsed: unknown): TaskEnvelope | null => {
+  if (Array.isArray(parsed)) {
+    return { version: 0, tasks: parsed };
+  }
+  if (isRecord(parsed) && Number.isInteger(parsed.version) && Array.isArray(parsed.tasks)) {
+    return { version: parsed.version as number, tasks: parsed.tasks };
+  }
+  return null;
+};
+
+export function decodeTasks(raw: string | null): DecodedTasks {
+  if (raw === null) {
+    return { tasks: [], quarantined: [], version: TASKS_SCHEMA_VERSION };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { tasks: [], quarantined: [createQuarantinedRecord(raw, 0, "JSON illisible")], version: 0 };
+  }
+
+  const envelope = readEnvelope(parsed);
+  if (!envelope) {
+    return { tasks: [], quarantined: [createQuarantinedRecord(parsed, 0, "format de stockage inconnu")], version: 0 };
+  }
+
+  const { version } = envelope;
+  if (version > TASKS_SCHEMA_VERSION) {
+    const reason = `version ${version} plus récente que la version supportée (${TASKS_SCHEMA_VERSION})`;
+    return {
+      tasks: [],
+      quarantined: envelope.tasks.map(record => createQuarantinedRecord(record, version, reason)),
+      version
+    };
+  }
+
+  const tasks: Task[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  const seenIds = new Set<string>();
+
+  for (const record of envelope.tasks) {
+    try {
+      const task = reviveTask(migrateRecord(record, version));
+      if (seenIds.has(task.id)) {
+        throw new TaskCodecError("codec.duplicateId", { id: task.id });
+      }
+      seenIds.add(task.id);
+      tasks.push(task);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      quarantined.push(createQuarantinedRecord(record, version, reason));
+    }
+  }
+
+  return { tasks, quarantined, version };
+}
+
+export function encodeTasks(tasks: Task[]): string {
+  const envelope: TaskEnvelope = { version: TASKS_SCHEMA_VERSION, tasks };
+  return JSON.stringify(envelope);
+}
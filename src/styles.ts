@@ -0,0 +1,429 @@
+// Styles CSS en objet
+export const styles = {
+  app: {
+    minHeight: '100vh',
+    background: 'var(--background)',
+    color: 'var(--accent)',
+    fontFamily: 'Inter, sans-serif',
+    padding: '20px'
+  },
+  header: {
+    textAlign: 'center' as const,
+    marginBottom: '30px'
+  },
+  title: {
+    fontSize: '2.5rem',
+    color: 'var(--accent)',
+    textShadow: 'var(--glow)',
+    marginBottom: '10px'
+  },
+  container: {
+    maxWidth: '1200px',
+    margin: '0 auto',
+    display: 'grid',
+    gridTemplateColumns: '1fr 2fr',
+    gap: '30px'
+  },
+  form: {
+    background: 'var(--surface)',
+    backdropFilter: 'blur(20px)',
+    border: '1px solid var(--border)',
+    borderRadius: '20px',
+    padding: '25px',
+    boxShadow: '0 0 20px rgba(0,212,255,0.2)'
+  },
+  input: {
+    width: '100%',
+    padding: '12px 16px',
+    background: 'rgba(0,0,0,0.3)',
+    border: '2px solid var(--control-border)',
+    borderRadius: '12px',
+    color: 'var(--accent)',
+    fontSize: '16px',
+    marginBottom: '15px'
+  },
+  button: {
+    width: '100%',
+    padding: '12px 20px',
+    background: 'var(--accent-gradient)',
+    border: 'none',
+    borderRadius: '12px',
+    color: 'var(--on-accent)',
+    fontSize: '16px',
+    fontWeight: 'bold',
+    cursor: 'pointer',
+    transition: 'all 0.3s ease'
+  },
+  taskList: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '15px'
+  },
+  task: {
+    background: 'var(--surface)',
+    backdropFilter: 'blur(20px)',
+    border: '1px solid var(--border)',
+    borderRadius: '15px',
+    padding: '20px',
+    transition: 'all 0.3s ease'
+  },
+  taskCompleted: {
+    opacity: 0.6,
+    textDecoration: 'line-through'
+  },
+  taskTitle: {
+    color: 'var(--text-strong)',
+    fontSize: '1.2rem',
+    fontWeight: 'bold',
+    marginBottom: '8px'
+  },
+  taskDesc: {
+    color: 'var(--accent)',
+    marginBottom: '15px',
+    lineHeight: '1.6'
+  },
+  taskActions: {
+    display: 'flex',
+    gap: '10px',
+    justifyContent: 'flex-end'
+  },
+  deleteBtn: {
+    padding: '8px 16px',
+    background: 'rgba(255,71,87,0.2)',
+    color: 'var(--danger)',
+    border: '1px solid var(--danger)',
+    borderRadius: '8px',
+    cursor: 'pointer'
+  },
+  checkbox: {
+    marginRight: '10px',
+    transform: 'scale(1.2)'
+  },
+  filters: {
+    background: 'var(--surface)',
+    backdropFilter: 'blur(20px)',
+    border: '1px solid var(--border)',
+    borderRadius: '15px',
+    padding: '20px',
+    marginBottom: '20px'
+  },
+  filterButton: {
+    padding: '8px 16px',
+    background: 'rgba(0,0,0,0.3)',
+    border: '2px solid var(--control-border)',
+    borderRadius: '8px',
+    color: 'var(--accent)',
+    cursor: 'pointer',
+    marginRight: '10px'
+  },
+  filterButtonActive: {
+    background: 'var(--accent-gradient)',
+    color: 'var(--on-accent)'
+  },
+  editBtn: {
+    padding: '8px 16px',
+    background: 'rgba(0,212,255,0.1)',
+    color: 'var(--accent)',
+    border: '1px solid var(--accent)',
+    borderRadius: '8px',
+    cursor: 'pointer'
+  },
+  errorMessage: {
+    display: 'block',
+    color: 'var(--danger)',
+    fontSize: '0.85rem',
+    marginTop: '-10px',
+    marginBottom: '15px'
+  },
+  historyButton: {
+    padding: '6px 14px',
+    background: 'rgba(0,0,0,0.3)',
+    border: '1px solid var(--control-border)',
+    borderRadius: '8px',
+    color: 'var(--accent)',
+    cursor: 'pointer',
+    margin: '10px 5px 0'
+  },
+  subtaskList: {
+    listStyle: 'none',
+    paddingLeft: '20px',
+    margin: '0 0 10px'
+  },
+  subtaskRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '4px 0',
+    color: 'var(--text)'
+  },
+  subtaskForm: {
+    display: 'flex',
+    gap: '6px',
+    marginBottom: '10px'
+  },
+  timeEntryForm: {
+    display: 'flex',
+    flexWrap: 'wrap' as const,
+    gap: '6px',
+    marginBottom: '10px'
+  },
+  subtaskInput: {
+    flex: 1,
+    padding: '6px 10px',
+    background: 'rgba(0,0,0,0.3)',
+    border: '1px solid var(--control-border)',
+    borderRadius: '8px',
+    color: 'var(--accent)',
+    fontSize: '14px'
+  },
+  subtaskButton: {
+    padding: '2px 8px',
+    background: 'transparent',
+    border: '1px solid var(--control-border)',
+    borderRadius: '6px',
+    color: 'var(--accent)',
+    cursor: 'pointer'
+  },
+  progress: {
+    color: 'var(--accent-secondary)',
+    fontSize: '0.85rem',
+    fontWeight: 'normal'
+  },
+  tagList: {
+    display: 'flex',
+    flexWrap: 'wrap' as const,
+    gap: '6px',
+    marginBottom: '10px'
+  },
+  tagChip: {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '2px 10px',
+    border: '1px solid',
+    borderRadius: '999px',
+    background: 'rgba(0,0,0,0.3)',
+    fontSize: '0.85rem'
+  },
+  tagRemove: {
+    background: 'transparent',
+    border: 'none',
+    color: 'inherit',
+    cursor: 'pointer',
+    fontSize: '1rem',
+    lineHeight: 1
+  },
+  filterLabel: {
+    display: 'block',
+    color: 'var(--accent-secondary)',
+    fontSize: '0.9rem',
+    margin: '15px 0 8px'
+  },
+  filterRow: {
+    display: 'flex',
+    gap: '10px',
+    alignItems: 'center',
+    flexWrap: 'wrap' as const
+  },
+  select: {
+    padding: '8px 12px',
+    background: 'rgba(0,0,0,0.3)',
+    border: '2px solid var(--control-border)',
+    borderRadius: '8px',
+    color: 'var(--accent)'
+  },
+  highlight: {
+    background: 'rgba(184,52,255,0.35)',
+    color: 'white',
+    borderRadius: '3px',
+    padding: '0 2px'
+  },
+  recurrence: {
+    border: '1px solid var(--border)',
+    borderRadius: '12px',
+    padding: '10px 15px 15px',
+    marginBottom: '15px',
+    color: 'var(--accent)'
+  },
+  remoteChange: {
+    display: 'block',
+    color: '#ff8800',
+    fontSize: '0.8rem',
+    fontWeight: 'normal',
+    marginBottom: '8px'
+  },
+  toastStack: {
+    position: 'fixed' as const,
+    right: '20px',
+    bottom: '20px',
+    zIndex: 1000,
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '10px',
+    maxWidth: '360px'
+  },
+  toast: {
+    background: 'rgba(10,10,20,0.95)',
+    border: '1px solid var(--accent)',
+    borderRadius: '12px',
+    padding: '14px 16px',
+    color: 'white',
+    boxShadow: '0 8px 30px rgba(0,0,0,0.5)'
+  },
+  board: {
+    display: 'grid',
+    gridAutoFlow: 'column' as const,
+    gridAutoColumns: 'minmax(220px, 1fr)',
+    gap: '15px',
+    overflowX: 'auto' as const,
+    paddingBottom: '10px'
+  },
+  boardColumn: {
+    background: 'var(--surface)',
+    border: '1px solid var(--border)',
+    borderTop: '3px solid',
+    borderRadius: '15px',
+    padding: '12px',
+    minHeight: '200px',
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '10px'
+  },
+  boardColumnTitle: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    margin: '0 0 4px',
+    fontSize: '1rem',
+    color: 'white'
+  },
+  boardCard: {
+    display: 'flex',
+    gap: '8px',
+    alignItems: 'flex-start',
+    background: 'rgba(0,0,0,0.3)',
+    border: '1px solid var(--border)',
+    borderRadius: '10px',
+    padding: '10px',
+    color: 'var(--text)'
+  },
+  boardHandle: {
+    background: 'transparent',
+    border: '1px solid transparent',
+    borderRadius: '6px',
+    color: 'var(--accent-secondary)',
+    cursor: 'grab',
+    fontSize: '1.1rem',
+    lineHeight: 1,
+    padding: '2px 4px',
+    touchAction: 'none' as const
+  },
+  dropIndicator: {
+    height: '3px',
+    borderRadius: '3px',
+    background: 'var(--accent)',
+    boxShadow: '0 0 8px var(--accent)'
+  },
+  dragGhost: {
+    position: 'fixed' as const,
+    zIndex: 1000,
+    pointerEvents: 'none' as const,
+    maxWidth: '240px',
+    padding: '10px',
+    background: 'rgba(10,10,20,0.95)',
+    border: '1px solid var(--accent)',
+    borderRadius: '10px',
+    color: 'white',
+    boxShadow: '0 8px 30px rgba(0,0,0,0.5)'
+  },
+  srOnly: {
+    position: 'absolute' as const,
+    width: '1px',
+    height: '1px',
+    overflow: 'hidden',
+    clip: 'rect(0 0 0 0)',
+    whiteSpace: 'nowrap' as const
+  },
+  calendarLayout: {
+    display: 'grid',
+    gridTemplateColumns: 'minmax(0, 1fr) 180px',
+    gap: '15px',
+    alignItems: 'start'
+  },
+  calendarGrid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(7, minmax(0, 1fr))',
+    gap: '4px'
+  },
+  calendarCell: {
+    background: 'var(--surface)',
+    border: '1px solid',
+    borderRadius: '10px',
+    padding: '6px',
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '4px',
+    minWidth: 0
+  },
+  calendarChip: {
+    display: 'block',
+    width: '100%',
+    padding: '3px 6px',
+    background: 'rgba(0,0,0,0.4)',
+    border: 'none',
+    borderLeft: '3px solid',
+    borderRadius: '4px',
+    color: 'var(--text)',
+    fontSize: '0.8rem',
+    textAlign: 'left' as const,
+    whiteSpace: 'nowrap' as const,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    cursor: 'grab',
+    touchAction: 'none' as const
+  },
+  listEntry: {
+    width: '100%',
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: '8px 12px',
+    marginBottom: '4px',
+    background: 'transparent',
+    border: 'none',
+    borderLeft: '4px solid',
+    borderRadius: '8px',
+    color: 'var(--accent)',
+    fontSize: '0.95rem',
+    textAlign: 'left' as const,
+    cursor: 'pointer'
+  },
+  taskFocused: {
+    borderRadius: '15px',
+    outline: '2px solid var(--accent)',
+    outlineOffset: '2px'
+  },
+  kbd: {
+    display: 'inline-block',
+    minWidth: '1.6em',
+    padding: '1px 6px',
+    marginRight: '4px',
+    background: 'rgba(255,255,255,0.08)',
+    border: '1px solid rgba(255,255,255,0.25)',
+    borderBottomWidth: '2px',
+    borderRadius: '5px',
+    color: 'var(--text)',
+    fontFamily: 'inherit',
+    fontSize: '0.8rem',
+    textAlign: 'center' as const
+  },
+  dialog: {
+    maxWidth: '420px',
+    padding: '25px',
+    background: 'rgba(10,10,20,0.98)',
+    border: '1px solid var(--danger)',
+    borderRadius: '15px',
+    color: 'white',
+    boxShadow: '0 8px 30px rgba(0,0,0,0.5)'
+  }
+};
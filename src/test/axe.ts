@@ -0,0 +1,31 @@
+import axe from "axe-core";
+
+// Règles WCAG 2.0 à 2.2, niveaux A et AA ; jsdom ne calculant pas la mise en page,
+// axe classe les contrastes en "incomplete" plutôt qu'en violations
+const WCAG_AA = ["wcag2a", "wcag2aa", "wcag21a", "wcag21aa", "wcag22aa"];
+
+export async function axeViolations(container: Element): Promise<string[]> {
+  const results = await axe.run(container, { runOnly: { type: "tag", values: WCAG_AA } });
+  return results.violations.map(violation =>
+    `${violation.id} : ${violation.help} (${violation.nodes.map(node => node.target.join(" ")).join(", ")})`
+  );
+}
+
+export interface DisplayMode {
+  theme: "neon" | "contrast";
+  motion: "full" | "reduced";
+}
+
+export const DISPLAY_MODES: DisplayMode[] = [
+  { theme: "neon", motion: "full" },
+  { theme: "neon", motion: "reduced" },
+  { theme: "contrast", motion: "full" },
+  { theme: "contrast", motion: "reduced" }
+];
+
+// Même forme que les préférences enregistrées par useDisplayPreferences
+export function applyDisplayMode(mode: DisplayMode): void {
+  window.localStorage.setItem("display", JSON.stringify(mode));
+  document.documentElement.dataset.theme = mode.theme;
+  document.documentElement.dataset.motion = mode.motion;
+}
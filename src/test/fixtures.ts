@@ -0,0 +1,28 @@
+import type { Task, TodoList } from "../types/Task";
+import { DEFAULT_LIST } from "../utils/lists";
+
+let counter = 0;
+
+// Tâche valide minimale ; les champs passés remplacent les valeurs par défaut
+export function makeTask(overrides: Partial<Task> = {}): Task {
+  counter++;
+  const date = new Date("2026-10-01T09:00:00.000Z");
+  return {
+    id: `task_test_${counter}`,
+    listId: DEFAULT_LIST.id,
+    title: `Tâche ${counter}`,
+    status: "todo",
+    priority: "normal",
+    tags: [],
+    subtasks: [],
+    createdAt: date,
+    updatedAt: date,
+    ...overrides
+  };
+}
+
+// Listes telles qu'affichées : le nom de la liste par défaut est déjà traduit
+export const TEST_LISTS: TodoList[] = [
+  { ...DEFAULT_LIST, name: "Mes tâches" },
+  { ...DEFAULT_LIST, id: "list_work", name: "Travail", color: "#ff8800" }
+];
@@ -0,0 +1,24 @@
+import { afterEach, beforeEach } from "vitest";
+import { cleanup } from "@testing-library/react";
+
+// Les tests du serveur de synchronisation tournent sous Node, sans DOM
+if (typeof document !== "undefined") {
+  // jsdom n'implémente ni CSS.escape ni scrollIntoView (focus de la tâche courante dans TaskList)
+  if (typeof CSS === "undefined" || !CSS.escape) {
+    globalThis.CSS = { ...globalThis.CSS, escape: (value: string) => value.replace(/["\\]/g, "\\$&") } as typeof CSS;
+  }
+  Element.prototype.scrollIntoView ??= () => {};
+
+  // Interface de référence en français, quelle que soit la langue annoncée par jsdom
+  beforeEach(() => {
+    window.localStorage.setItem("locale", JSON.stringify("fr"));
+  });
+
+  // Sans globals de vitest, le démontage entre deux tests est à déclarer
+  afterEach(() => {
+    cleanup();
+    window.localStorage.clear();
+    delete document.documentElement.dataset.theme;
+    delete document.documentElement.dataset.motion;
+  });
+}
@@ -0,0 +1,138 @@
+export type TaskPriority = "low" | "normal" | "high" | "urgent";
+
+// Colonnes du tableau ; seule "done" compte comme terminée
+export type TaskStatus = "todo" | "in_progress" | "blocked" | "done";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+// Règle de répétition inspirée de RRULE (FREQ, INTERVAL, BYDAY, BYMONTHDAY, UNTIL, COUNT)
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays: number[]; // 0 = dimanche ... 6 = samedi
+  monthDay?: number; // -1 = dernier jour du mois
+  until?: Date;
+  count?: number;
+}
+
+export interface OccurrenceRecord {
+  index: number;
+  scheduledDate: Date;
+  completedAt?: Date;
+  skipped?: boolean;
+}
+
+export interface TaskRecurrence {
+  rule: RecurrenceRule;
+  seriesId: string;
+  index: number; // rang de l'occurrence dans la série, à partir de 1
+  scheduledDate: Date; // date prévue par la règle, même si l'échéance de cette occurrence a été déplacée
+  history: OccurrenceRecord[];
+  nextId?: string; // occurrence suivante déjà générée
+  // Valeurs de la série, conservées quand seule cette occurrence a été modifiée
+  seriesValues?: SeriesValues;
+}
+
+// Champs modifiables pour une seule occurrence ; l'occurrence suivante reprend ceux de la série
+export type SeriesValues = Pick<Task, "title" | "description" | "dueTime" | "reminderOffset" | "priority" | "tags" | "estimateMinutes">;
+
+export interface Subtask {
+  id: string;
+  title: string;
+  completed: boolean;
+  subtasks: Subtask[];
+}
+
+// Temps passé sur une tâche : chronomètre arrêté ou saisie manuelle
+export interface TimeEntry {
+  id: string;
+  start: Date;
+  end: Date;
+  note?: string;
+}
+
+export interface Task {
+  id: string;
+  listId: string;
+  title: string;
+  description?: string;
+  dueDate?: Date;
+  dueTime?: string; // "HH:MM", heure locale ; sans heure, l'échéance dure toute la journée
+  reminderOffset?: number; // rappel, en minutes avant l'échéance
+  status: TaskStatus;
+  completedAt?: Date; // passage à "done", effacé à la réouverture
+  rank?: string; // clé d'ordre fractionnaire : tri manuel de la liste et ordre dans les colonnes du tableau
+  priority: TaskPriority;
+  tags: string[];
+  subtasks: Subtask[];
+  // Termine automatiquement la tâche quand toutes ses sous-tâches le sont
+  autoComplete?: boolean;
+  recurrence?: TaskRecurrence;
+  estimateMinutes?: number; // temps prévu
+  timeEntries?: TimeEntry[]; // triées par début
+
+  // Corbeille : la tâche est purgée après le délai de conservation
+  deletedAt?: Date;
+  // Archive : tâche terminée retirée de la liste et des compteurs, toujours consultable
+  archivedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TaskFormData {
+  title: string;
+  description: string;
+  dueDate: string;
+  dueTime: string;
+  reminderOffset?: number;
+  priority: TaskPriority;
+  tags: string[];
+  recurrence?: RecurrenceRule;
+  estimate?: string; // durée saisie : "1h30", "45 min"...
+}
+
+export interface TaskStats {
+  total: number;
+  completed: number;
+  pending: number;
+  byStatus: Record<TaskStatus, number>;
+  subtasks: {
+    total: number;
+    completed: number;
+  };
+  byTag: Record<string, number>;
+  // Tâches en cours seulement
+  overdue: number;
+  dueToday: number;
+  dueThisWeek: number;
+}
+
+export type TaskFilter = "all" | "pending" | "completed";
+export type TaskSort = "newest" | "oldest" | "dueDate" | "alphabetical" | "priority" | "manual";
+
+// Liste (projet) : tri et filtre appliqués à son ouverture
+export interface TodoList {
+  id: string;
+  name: string;
+  color: string;
+  defaultSort: TaskSort;
+  defaultFilter: TaskFilter;
+}
+
+// Critères combinés : statut ET étiquettes (une ou toutes) ET plage de priorité ET fenêtre d'échéance
+export interface TaskCriteria {
+  status: TaskFilter;
+  tags: string[];
+  tagMode: "any" | "all";
+  minPriority: TaskPriority;
+  maxPriority: TaskPriority;
+  dueFrom: string;
+  dueTo: string;
+}
+
+// Chaque mutation est enregistrée sous forme d'opération réversible (annuler/rétablir)
+export type TaskOperation =
+  | { type: "create"; task: Task }
+  | { type: "update"; before: Task; after: Task }
+  | { type: "delete"; task: Task }
+  | { type: "batch"; operations: TaskOperation[] };
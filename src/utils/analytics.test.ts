@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { ACTIVITY_RETENTION_DAYS, normalizeActivityLog, syncActivityLog, type ActivityLog } from "./analytics";
+import { makeTask } from "../test/fixtures";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2026-10-18T12:00:00.000Z");
+
+describe("syncActivityLog", () => {
+  it("retire l'achèvement d'une tâche rouverte, puis compte le nouveau", () => {
+    const task = makeTask({ createdAt: new Date("2026-10-01T09:00:00.000Z") });
+    const firstDone = { ...task, status: "done" as const, completedAt: new Date("2026-10-02T09:00:00.000Z") };
+    const secondDone = { ...task, status: "done" as const, completedAt: new Date("2026-10-05T09:00:00.000Z") };
+
+    let log: ActivityLog = {};
+    log = syncActivityLog(log, [firstDone], now) ?? log;
+    log = syncActivityLog(log, [task], now) ?? log;
+    expect(log[task.id].completions).toEqual([]);
+
+    // Rouverte plusieurs fois : aucun autre achèvement n'est retiré
+    log = syncActivityLog(log, [task], now) ?? log;
+    log = syncActivityLog(log, [secondDone], now) ?? log;
+    expect(log[task.id].completions).toEqual(["2026-10-05T09:00:00.000Z"]);
+  });
+
+  it("garde l'achèvement d'une tâche terminée puis supprimée", () => {
+    const done = makeTask({ status: "done", completedAt: new Date("2026-10-02T09:00:00.000Z") });
+
+    let log: ActivityLog = {};
+    log = syncActivityLog(log, [done], now) ?? log;
+    log = syncActivityLog(log, [{ ...done, deletedAt: new Date("2026-10-03T09:00:00.000Z") }], now) ?? log;
+    log = syncActivityLog(log, [], now) ?? log;
+
+    expect(log[done.id]).toMatchObject({ completions: ["2026-10-02T09:00:00.000Z"], removedAt: "2026-10-03T09:00:00.000Z" });
+  });
+
+  it("oublie les tâches supprimées et les achèvements au-delà de la limite de conservation", () => {
+    const expired = new Date(now.getTime() - (ACTIVITY_RETENTION_DAYS + 1) * DAY_MS).toISOString();
+    const recent = new Date(now.getTime() - DAY_MS).toISOString();
+    const live = makeTask({ createdAt: new Date(expired) });
+    const log: ActivityLog = {
+      [live.id]: { listId: live.listId, tags: [], createdAt: expired, completions: [expired, recent] },
+      old: { listId: live.listId, tags: [], createdAt: expired, completions: [], removedAt: expired },
+      removed: { listId: live.listId, tags: [], createdAt: expired, completions: [], removedAt: recent }
+    };
+
+    const next = syncActivityLog(log, [live], now);
+
+    expect(Object.keys(next ?? {})).toEqual([live.id, "removed"]);
+    expect(next?.[live.id].completions).toEqual([recent]);
+  });
+});
+
+describe("normalizeActivityLog", () => {
+  it("reprend la date d'achèvement unique des journaux antérieurs", () => {
+    const log = normalizeActivityLog({
+      task_1: { listId: "default", tags: [], createdAt: "2026-10-01T09:00:00.000Z", completedAt: "2026-10-02T09:00:00.000Z" }
+    });
+
+    expect(log.task_1).toMatchObject({ completions: ["2026-10-02T09:00:00.000Z"], completedAt: "2026-10-02T09:00:00.000Z" });
+  });
+});
@@ -0,0 +1,254 @@
+import type { Task } from "../types/Task";
+import type { Translator } from "../i18n/i18n";
+import { addDays, formatDay, startOfWeek, todayKey } from "./calendar";
+import { dueMoment } from "./dueDates";
+import { isTrashed } from "./trash";
+
+// Journal d'activité : une entrée par tâche, conservée après sa suppression pour que l'historique ne bouge pas.
+// Les instants sont des chaînes ISO, comme dans le stockage.
+export interface ActivityRecord {
+  listId: string;
+  tags: string[];
+  createdAt: string;
+  // Achèvements, du plus ancien au plus récent ; conservés après la suppression de la tâche
+  completions: string[];
+  // Achèvement en cours (tâche terminée), retiré de completions si la tâche est rouverte
+  completedAt?: string;
+  dueAt?: string;
+  // Mise à la corbeille ou disparition de la tâche
+  removedAt?: string;
+}
+
+export type ActivityLog = Record<string, ActivityRecord>;
+
+// Au-delà, les entrées des tâches supprimées et les anciens achèvements sont oubliés
+export const ACTIVITY_RETENTION_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AnalyticsPeriod = "day" | "week";
+
+// Nombre de jours ou de semaines affichés
+export const ANALYTICS_BUCKETS: Record<AnalyticsPeriod, number> = { day: 14, week: 12 };
+
+export interface ActivityBucket {
+  key: string;
+  label: string;
+  created: number;
+  completed: number;
+}
+
+export interface ActivityBreakdown {
+  key: string;
+  created: number;
+  completed: number;
+}
+
+export interface Analytics {
+  buckets: ActivityBucket[];
+  created: number;
+  completed: number;
+  // Délai moyen entre création et achèvement, en millisecondes
+  averageCompletionMs: number | null;
+  // Part des échéances passées tenues en retard (ou jamais tenues)
+  overdueRate: number | null;
+  dueCount: number;
+  currentStreak: number;
+  longestStreak: number;
+  byTag: ActivityBreakdown[];
+  byList: ActivityBreakdown[];
+}
+
+const isIsoString = (value: unknown): value is string => typeof value === "string" && !Number.isNaN(Date.parse(value));
+
+// Journal relu depuis le stockage : les entrées invalides sont écartées
+export function normalizeActivityLog(value: unknown): ActivityLog {
+  const log: ActivityLog = {};
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return log;
+
+  Object.entries(value).forEach(([id, item]) => {
+    const record = item as Partial<Record<keyof ActivityRecord | "completedAt", unknown>> | null;
+    if (typeof record?.listId !== "string" || !isIsoString(record.createdAt) || !Array.isArray(record.tags)) return;
+
+    // Journal antérieur à l'historique des achèvements : une seule date, completedAt
+    const completedAt = isIsoString(record.completedAt) ? record.completedAt : undefined;
+    const completions = Array.isArray(record.completions)
+      ? record.completions.filter(isIsoString)
+      : completedAt ? [completedAt] : [];
+
+    log[id] = {
+      listId: record.listId,
+      tags: record.tags.filter((tag): tag is string => typeof tag === "string"),
+      createdAt: record.createdAt,
+      completions,
+      completedAt,
+      dueAt: isIsoString(record.dueAt) ? record.dueAt : undefined,
+      removedAt: isIsoString(record.removedAt) ? record.removedAt : undefined
+    };
+  });
+  return log;
+}
+
+// Un nouvel achèvement s'ajoute aux précédents, une tâche revenue à un état non terminé (achèvement annulé,
+// réouverture) retire le sien ; ceux d'avant la limite de conservation sont oubliés
+const toRecord = (task: Task, previous: ActivityRecord | undefined, isRecent: (iso: string) => boolean): ActivityRecord => {
+  const completedAt = task.completedAt?.toISOString();
+  let completions = (previous?.completions ?? []).filter(isRecent);
+  if (!completedAt && previous?.completedAt) {
+    completions = completions.filter(iso => iso !== previous.completedAt);
+  }
+  if (completedAt && isRecent(completedAt) && !completions.includes(completedAt)) {
+    completions = [...completions, completedAt];
+  }
+  return {
+    listId: task.listId,
+    tags: task.tags,
+    createdAt: task.createdAt.toISOString(),
+    completions,
+    completedAt,
+    dueAt: dueMoment(task)?.toISOString(),
+    removedAt: isTrashed(task) ? task.deletedAt?.toISOString() : undefined
+  };
+};
+
+const sameRecord = (a: ActivityRecord | undefined, b: ActivityRecord): boolean =>
+  a !== undefined && JSON.stringify(a) === JSON.stringify(b);
+
+// Reporte l'état des tâches (corbeille comprise) dans le journal ; null si rien ne change
+export function syncActivityLog(log: ActivityLog, tasks: Task[], now: Date): ActivityLog | null {
+  const next: ActivityLog = { ...log };
+  let changed = false;
+  const present = new Set<string>();
+  const cutoff = now.getTime() - ACTIVITY_RETENTION_DAYS * DAY_MS;
+  const isRecent = (iso: string) => Date.parse(iso) >= cutoff;
+
+  tasks.forEach(task => {
+    present.add(task.id);
+    const record = toRecord(task, log[task.id], isRecent);
+    if (!sameRecord(log[task.id], record)) {
+      next[task.id] = record;
+      changed = true;
+    }
+  });
+
+  // Tâches purgées : l'entrée reste, datée de sa disparition, jusqu'à la limite de conservation
+  Object.entries(log).forEach(([id, record]) => {
+    if (present.has(id)) return;
+    if (!record.removedAt) {
+      next[id] = { ...record, removedAt: now.toISOString() };
+      changed = true;
+    } else if (!isRecent(record.removedAt)) {
+      delete next[id];
+      changed = true;
+    }
+  });
+
+  return changed ? next : null;
+}
+
+const dayOf = (iso: string): string => todayKey(new Date(iso));
+
+const bucketOf = (iso: string, period: AnalyticsPeriod): string =>
+  period === "day" ? dayOf(iso) : startOfWeek(dayOf(iso));
+
+// Jours consécutifs avec au moins une tâche terminée
+const streaks = (days: Set<string>, today: string): { current: number; longest: number } => {
+  let longest = 0;
+  [...days].forEach(day => {
+    if (days.has(addDays(day, -1))) return;
+    let length = 1;
+    while (days.has(addDays(day, length))) length++;
+    longest = Math.max(longest, length);
+  });
+
+  // La série en cours tient encore tant que la journée d'hier en fait partie
+  let current = 0;
+  let day = days.has(today) ? today : addDays(today, -1);
+  while (days.has(day)) {
+    current++;
+    day = addDays(day, -1);
+  }
+  return { current, longest };
+};
+
+const breakdown = (entries: [string, ActivityRecord][], keysOf: (record: ActivityRecord) => string[], inRange: (iso?: string) => boolean) => {
+  const counts = new Map<string, ActivityBreakdown>();
+  entries.forEach(([, record]) => {
+    keysOf(record).forEach(key => {
+      const entry = counts.get(key) ?? { key, created: 0, completed: 0 };
+      if (inRange(record.createdAt)) entry.created++;
+      entry.completed += record.completions.filter(inRange).length;
+      counts.set(key, entry);
+    });
+  });
+  return [...counts.values()]
+    .filter(entry => entry.created + entry.completed > 0)
+    .sort((a, b) => b.completed + b.created - (a.completed + a.created));
+};
+
+// Statistiques sur les ANALYTICS_BUCKETS derniers jours ou semaines (séries : tout l'historique)
+export function computeAnalytics(log: ActivityLog, now: Date, period: AnalyticsPeriod, i18n: Translator): Analytics {
+  const today = todayKey(now);
+  const step = period === "day" ? 1 : 7;
+  const last = period === "day" ? today : startOfWeek(today);
+  const keys = Array.from({ length: ANALYTICS_BUCKETS[period] }, (_, index) =>
+    addDays(last, (index - ANALYTICS_BUCKETS[period] + 1) * step)
+  );
+  const first = keys[0];
+  const inRange = (iso?: string) => iso !== undefined && bucketOf(iso, period) >= first;
+
+  const buckets: ActivityBucket[] = keys.map(key => ({
+    key,
+    label: formatDay(key, period === "day" ? { weekday: "narrow", day: "numeric" } : { day: "numeric", month: "short" }, i18n),
+    created: 0,
+    completed: 0
+  }));
+  const byKey = new Map(buckets.map(bucket => [bucket.key, bucket]));
+
+  const entries = Object.entries(log);
+  const completionDays = new Set<string>();
+  let completionTotal = 0;
+  let completionCount = 0;
+  let dueCount = 0;
+  let lateCount = 0;
+
+  entries.forEach(([, record]) => {
+    if (inRange(record.createdAt)) {
+      const bucket = byKey.get(bucketOf(record.createdAt, period));
+      if (bucket) bucket.created++;
+    }
+    record.completions.forEach((completedAt, index) => {
+      completionDays.add(dayOf(completedAt));
+      if (!inRange(completedAt)) return;
+      const bucket = byKey.get(bucketOf(completedAt, period));
+      if (bucket) bucket.completed++;
+      // Délai d'achèvement : depuis la création jusqu'au premier achèvement seulement
+      if (index === 0) {
+        completionTotal += Date.parse(completedAt) - Date.parse(record.createdAt);
+        completionCount++;
+      }
+    });
+
+    // Échéance passée dans la période : tenue si la tâche a été terminée à temps ; ignorée si supprimée avant
+    const due = record.dueAt ? Date.parse(record.dueAt) : null;
+    if (due === null || due > now.getTime() || !inRange(record.dueAt)) return;
+    const closedAt = record.completions.length > 0 ? Date.parse(record.completions[0]) : null;
+    if (closedAt === null && record.removedAt && Date.parse(record.removedAt) <= due) return;
+    dueCount++;
+    if (closedAt === null || closedAt > due) lateCount++;
+  });
+
+  const { current, longest } = streaks(completionDays, today);
+
+  return {
+    buckets,
+    created: buckets.reduce((sum, bucket) => sum + bucket.created, 0),
+    completed: buckets.reduce((sum, bucket) => sum + bucket.completed, 0),
+    averageCompletionMs: completionCount > 0 ? completionTotal / completionCount : null,
+    overdueRate: dueCount > 0 ? lateCount / dueCount : null,
+    dueCount,
+    currentStreak: current,
+    longestStreak: longest,
+    byTag: breakdown(entries, record => record.tags, inRange),
+    byList: breakdown(entries, record => [record.listId], inRange)
+  };
+}
@@ -0,0 +1,65 @@
+import type { Translator } from "../i18n/i18n";
+
+// Jours du calendrier au format "AAAA-MM-JJ", comme les échéances (minuit UTC) et les <input type="date">
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CalendarMode = "month" | "week" | "agenda";
+
+// Nombre de jours affichés par la vue agenda
+export const AGENDA_DAYS = 14;
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+export const dayKeyToDate = (key: string): Date => new Date(`${key}T00:00:00.000Z`);
+
+export const dayKeyOf = (dueDate: Date): string => dueDate.toISOString().slice(0, 10);
+
+// Aujourd'hui selon l'heure locale
+export const todayKey = (now: Date = new Date()): string =>
+  `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+
+export const addDays = (key: string, days: number): string =>
+  dayKeyOf(new Date(dayKeyToDate(key).getTime() + days * DAY_MS));
+
+export const addMonths = (key: string, months: number): string => {
+  const date = dayKeyToDate(key);
+  return dayKeyOf(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1)));
+};
+
+// Semaines commençant le lundi
+export const startOfWeek = (key: string): string => addDays(key, -((dayKeyToDate(key).getUTCDay() + 6) % 7));
+
+export const weekDays = (key: string): string[] =>
+  Array.from({ length: 7 }, (_, index) => addDays(startOfWeek(key), index));
+
+// Semaines complètes (lundi -> dimanche) couvrant le mois du jour donné
+export function monthWeeks(key: string): string[][] {
+  const first = `${key.slice(0, 7)}-01`;
+  const weeks: string[][] = [];
+  let monday = startOfWeek(first);
+  while (weeks.length === 0 || monday.slice(0, 7) === first.slice(0, 7)) {
+    weeks.push(weekDays(monday));
+    monday = addDays(monday, 7);
+  }
+  return weeks;
+}
+
+export const formatDay = (key: string, options: Intl.DateTimeFormatOptions, { formatDate }: Translator): string =>
+  formatDate(dayKeyToDate(key), { timeZone: "UTC", ...options });
+
+// "lun.", "mar."... à partir d'un lundi quelconque
+export const weekHeaderLabels = (i18n: Translator): string[] =>
+  weekDays("2024-01-01").map(key => formatDay(key, { weekday: "short" }, i18n));
+
+// Titre de la période affichée : "octobre 2026", "19 – 25 oct. 2026"...
+export function describePeriod(mode: CalendarMode, anchor: string, i18n: Translator): string {
+  if (mode === "month") return formatDay(anchor, { month: "long", year: "numeric" }, i18n);
+
+  const first = mode === "week" ? startOfWeek(anchor) : anchor;
+  const last = addDays(first, mode === "week" ? 6 : AGENDA_DAYS - 1);
+  return `${formatDay(first, { day: "numeric", month: "short" }, i18n)} – ${formatDay(last, { day: "numeric", month: "short", year: "numeric" }, i18n)}`;
+}
+
+// Période suivante ou précédente selon la vue
+export const shiftPeriod = (mode: CalendarMode, anchor: string, direction: 1 | -1): string =>
+  mode === "month" ? addMonths(anchor, direction) : addDays(anchor, direction * (mode === "week" ? 7 : AGENDA_DAYS));
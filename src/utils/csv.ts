@@ -0,0 +1,56 @@
+// CSV au sens de la RFC 4180 : séparateur virgule, champs entre guillemets si nécessaire
+
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function toCsv(rows: string[][]): string {
+  // Le BOM permet à Excel de reconnaître l'UTF-8 (accents)
+  return "\uFEFF" + rows.map(row => row.map(escapeCsvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Les lignes vides ne sont pas des enregistrements
+  return rows.filter(r => r.some(value => value.trim() !== ""));
+}
@@ -0,0 +1,80 @@
+import type { Task } from "../types/Task";
+import type { Translator } from "../i18n/i18n";
+import { isCompleted } from "./status";
+import { DEFAULT_REMINDER_TIME } from "./icalendarFormat.mjs";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Heure de référence des rappels pour une échéance sans heure (définie avec l'écriture iCalendar, partagée avec le serveur)
+export { DEFAULT_REMINDER_TIME };
+
+// Décalages proposés pour les rappels, en minutes avant l'échéance
+export const REMINDER_OFFSETS: number[] = [0, 10, 60, 24 * 60, 7 * 24 * 60];
+
+export const isDueTime = (value: unknown): value is string =>
+  typeof value === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+// L'échéance est une date (minuit UTC) : le jour est lu en UTC puis placé dans le fuseau local
+const localDateAt = (dueDate: Date, time: string): Date => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return new Date(dueDate.getUTCFullYear(), dueDate.getUTCMonth(), dueDate.getUTCDate(), hours, minutes);
+};
+
+// Instant d'échéance : à l'heure indiquée, sinon à la fin de la journée
+export function dueMoment(task: Pick<Task, "dueDate" | "dueTime">): Date | null {
+  if (!task.dueDate) return null;
+  if (task.dueTime) return localDateAt(task.dueDate, task.dueTime);
+  return new Date(localDateAt(task.dueDate, "00:00").getTime() + DAY_MS - 1);
+}
+
+// Instant du rappel (échéance moins le décalage) ; une journée entière se rappelle à 9 h
+export function reminderMoment(task: Pick<Task, "dueDate" | "dueTime" | "reminderOffset">): Date | null {
+  if (!task.dueDate || task.reminderOffset === undefined) return null;
+  const anchor = localDateAt(task.dueDate, task.dueTime ?? DEFAULT_REMINDER_TIME);
+  return new Date(anchor.getTime() - task.reminderOffset * 60 * 1000);
+}
+
+const startOfLocalDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Écart en jours calendaires entre l'échéance et aujourd'hui (0 = aujourd'hui, négatif = passé)
+const daysUntilDue = (dueDate: Date, now: Date): number =>
+  Math.round((localDateAt(dueDate, "00:00").getTime() - startOfLocalDay(now).getTime()) / DAY_MS);
+
+export function isOverdue(task: Task, now: Date = new Date()): boolean {
+  const moment = dueMoment(task);
+  return !isCompleted(task) && moment !== null && moment.getTime() < now.getTime();
+}
+
+export function isDueToday(task: Task, now: Date = new Date()): boolean {
+  return !isCompleted(task) && task.dueDate !== undefined && daysUntilDue(task.dueDate, now) === 0;
+}
+
+// Semaine du lundi au dimanche
+export function isDueThisWeek(task: Task, now: Date = new Date()): boolean {
+  if (isCompleted(task) || !task.dueDate) return false;
+  const days = daysUntilDue(task.dueDate, now);
+  const daysLeftInWeek = 6 - ((now.getDay() + 6) % 7);
+  return days >= 0 && days <= daysLeftInWeek;
+}
+
+export type DueUrgency = "overdue" | "today" | "soon";
+
+export const URGENCY_COLORS: Record<DueUrgency, string> = {
+  overdue: "#ff4757",
+  today: "#ff8800",
+  soon: "#f59e0b"
+};
+
+// "Bientôt" : dans les deux prochains jours
+export function dueUrgency(task: Task, now: Date = new Date()): DueUrgency | null {
+  if (isCompleted(task) || !task.dueDate) return null;
+  if (isOverdue(task, now)) return "overdue";
+  const days = daysUntilDue(task.dueDate, now);
+  return days === 0 ? "today" : days <= 2 ? "soon" : null;
+}
+
+export function formatDue(task: Pick<Task, "dueDate" | "dueTime">, { t, formatDate }: Translator): string {
+  if (!task.dueDate) return "";
+  const date = formatDate(task.dueDate, { timeZone: "UTC" });
+  return task.dueTime ? t("due.withTime", { date, time: task.dueTime }) : date;
+}
@@ -0,0 +1,55 @@
+import { foldText } from "./search";
+
+export interface FuzzyMatch {
+  score: number;
+  // Positions des caractères retrouvés dans le texte d'origine
+  indices: number[];
+}
+
+const isWordStart = (text: string, index: number) => index === 0 || /[\s\-_/.:#([]/.test(text[index - 1]);
+
+// Recherche approximative façon palette de commandes : les lettres de la requête apparaissent dans l'ordre,
+// sans accents ni casse ; bonus aux lettres consécutives et aux débuts de mots. null si pas de correspondance.
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = foldText(query).replace(/\s+/g, "");
+  if (needle === "") return { score: 0, indices: [] };
+
+  // Un caractère d'origine peut donner plusieurs caractères repliés ("œ" -> "oe")
+  let folded = "";
+  const positions: number[] = [];
+  [...text].reduce((offset, char) => {
+    const foldedChar = foldText(char);
+    folded += foldedChar;
+    for (let i = 0; i < foldedChar.length; i++) positions.push(offset);
+    return offset + char.length;
+  }, 0);
+
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+
+  for (const char of needle) {
+    // Début de mot de préférence, sinon première occurrence
+    let found = -1;
+    for (let i = from; i < folded.length; i++) {
+      if (folded[i] !== char) continue;
+      if (found === -1) found = i;
+      if (i === previous + 1 || isWordStart(folded, i)) {
+        found = i;
+        break;
+      }
+    }
+    if (found === -1) return null;
+
+    score += 1;
+    if (found === previous + 1) score += 3;
+    if (isWordStart(folded, found)) score += 2;
+    if (positions[found] !== indices[indices.length - 1]) indices.push(positions[found]);
+    previous = found;
+    from = found + 1;
+  }
+
+  // À score égal, les textes courts et les correspondances proches du début d'abord
+  return { score: score - indices[0] * 0.1 - folded.length * 0.01, indices };
+}
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { parseICalendar, toICalendar } from "./icalendar";
+import { makeTask } from "../test/fixtures";
+
+const calendar = (...lines: string[]): string =>
+  ["BEGIN:VCALENDAR", "VERSION:2.0", "BEGIN:VTODO", "UID:task_ical", "SUMMARY:Appel client", ...lines, "END:VTODO", "END:VCALENDAR"].join("\r\n");
+
+const dueOf = (due: string) => {
+  const [row] = parseICalendar(calendar(due));
+  return { dueDate: row.task?.dueDate?.toISOString().slice(0, 10), dueTime: row.task?.dueTime };
+};
+
+// Agenda consulté depuis Paris : l'heure d'échéance est ramenée au fuseau local
+describe("parseICalendar : échéances avec fuseau", () => {
+  beforeEach(() => {
+    vi.stubEnv("TZ", "Europe/Paris");
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("convertit une heure TZID dans le fuseau local", () => {
+    expect(dueOf("DUE;TZID=America/New_York:20261020T090000")).toEqual({ dueDate: "2026-10-20", dueTime: "15:00" });
+    expect(dueOf("DUE;TZID=Asia/Tokyo:20261020T060000")).toEqual({ dueDate: "2026-10-19", dueTime: "23:00" });
+  });
+
+  it("tient compte du changement d'heure du fuseau TZID", () => {
+    // New York passe à l'heure d'hiver le 1er novembre, Paris le 25 octobre
+    expect(dueOf("DUE;TZID=America/New_York:20261026T090000")).toEqual({ dueDate: "2026-10-26", dueTime: "14:00" });
+    expect(dueOf("DUE;TZID=America/New_York:20261102T090000")).toEqual({ dueDate: "2026-11-02", dueTime: "15:00" });
+  });
+
+  it("garde telles quelles les heures flottantes et celles d'un fuseau inconnu", () => {
+    expect(dueOf("DUE:20261020T090000")).toEqual({ dueDate: "2026-10-20", dueTime: "09:00" });
+    expect(dueOf("DUE;TZID=W. Europe Standard Time:20261020T090000")).toEqual({ dueDate: "2026-10-20", dueTime: "09:00" });
+  });
+
+  it("convertit une heure UTC et garde un jour sans heure", () => {
+    expect(dueOf("DUE:20261020T230000Z")).toEqual({ dueDate: "2026-10-21", dueTime: "01:00" });
+    expect(dueOf("DUE;VALUE=DATE:20261020")).toEqual({ dueDate: "2026-10-20", dueTime: undefined });
+  });
+});
+
+describe("toICalendar", () => {
+  it("exporte l'heure d'échéance en date-heure flottante avec son rappel, relue à l'identique", () => {
+    const task = makeTask({ title: "Dentiste", dueDate: new Date("2026-10-20T00:00:00.000Z"), dueTime: "14:30", reminderOffset: 15 });
+    const content = toICalendar([task]);
+
+    expect(content).toContain("DUE:20261020T143000\r\n");
+    expect(content).toContain("TRIGGER;RELATED=END:-PT15M\r\n");
+    expect(parseICalendar(content)[0].task).toMatchObject({ id: task.id, dueDate: task.dueDate, dueTime: "14:30", reminderOffset: 15 });
+  });
+});
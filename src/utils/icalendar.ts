@@ -0,0 +1,228 @@
+import type { Task, TaskPriority, TaskStatus } from "../types/Task";
+import { TaskCodecError, codecErrorMessage, reviveTask } from "../storage/taskCodec";
+import type { ImportRow } from "./taskImport";
+import type { LocalizedMessage } from "../i18n/i18n";
+import { allDayShift } from "./icalendarFormat.mjs";
+import { normalizeTags } from "./tags";
+import { DEFAULT_LIST_ID } from "./lists";
+import { generateTaskId } from "./taskOperations";
+
+// iCalendar (RFC 5545). Une échéance sans heure (minuit UTC) est exportée en VALUE=DATE, donc le même jour
+// dans tous les fuseaux ; avec une heure (dueTime), en date-heure flottante, l'heure locale de l'agenda.
+// Le rappel (reminderOffset) devient un VALARM.
+
+// L'écriture est partagée avec le flux du serveur de synchronisation
+export { toICalendar } from "./icalendarFormat.mjs";
+
+interface ICalendarProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const priorityFromICal = (value: number): TaskPriority =>
+  value === 0 || value === 5 ? "normal" : value <= 2 ? "urgent" : value <= 4 ? "high" : "low";
+
+const statusFromICal = (value: string | undefined, hasCompletedDate: boolean): TaskStatus =>
+  value === "COMPLETED" || hasCompletedDate ? "done" : value === "IN-PROCESS" ? "in_progress" : "todo";
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, "0");
+
+const unescapeText = (text: string): string =>
+  text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+
+const ICAL_DURATION = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+const parseDurationMinutes = (value: string): number | null => {
+  const match = value.match(ICAL_DURATION);
+  if (!match) return null;
+  const [, sign, weeks = "0", days = "0", hours = "0", minutes = "0"] = match;
+  const total = ((Number(weeks) * 7 + Number(days)) * 24 + Number(hours)) * 60 + Number(minutes);
+  return sign === "-" ? -total : total;
+};
+
+const unfoldLines = (content: string): string[] =>
+  content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/).filter(line => line.trim() !== "");
+
+const parseProperty = (line: string): ICalendarProperty | null => {
+  // Le nom et les paramètres s'arrêtent au premier ":" hors guillemets
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, separator).split(";");
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, value = ""] = param.split("=");
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, "");
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+};
+
+const ICAL_DATE = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+
+type DateTimeParts = readonly [number, number, number, number, number, number];
+
+// Heure murale d'un fuseau IANA convertie en instant ; null si le fuseau est inconnu (noms Windows d'Outlook...)
+const zonedTimeToInstant = (parts: DateTimeParts, timeZone: string): Date | null => {
+  let format: Intl.DateTimeFormat;
+  try {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric"
+    });
+  } catch {
+    return null;
+  }
+
+  // Décalage du fuseau à un instant donné, en millisecondes
+  const offsetAt = (instant: number): number => {
+    const values = Object.fromEntries(format.formatToParts(instant).map(part => [part.type, Number(part.value)]));
+    return Date.UTC(values.year, values.month - 1, values.day, values.hour, values.minute, values.second) - instant;
+  };
+  // Deuxième passe : autour d'un changement d'heure, le décalage de l'instant visé diffère de la première estimation
+  const wallTime = Date.UTC(...parts);
+  return new Date(wallTime - offsetAt(wallTime - offsetAt(wallTime)));
+};
+
+// Composantes écrites dans la valeur (mois à partir de 0), sans interprétation du fuseau
+const dateTimeParts = (property: ICalendarProperty): { parts: DateTimeParts; hasTime: boolean; utc: boolean } => {
+  const match = property.value.match(ICAL_DATE);
+  if (!match) throw new TaskCodecError("codec.invalidICalDate", { property: property.name, value: property.value });
+
+  const [, year, month, day, hours, minutes = "0", seconds = "0", utc] = match;
+  return {
+    parts: [Number(year), Number(month) - 1, Number(day), Number(hours ?? 0), Number(minutes), Number(seconds)],
+    hasTime: hours !== undefined,
+    utc: utc !== undefined
+  };
+};
+
+// Date-heure lue comme un instant : UTC (suffixe Z) ou convertie depuis son TZID ; null si "flottante"
+const parseInstant = (property: ICalendarProperty): Date | null => {
+  const { parts, hasTime, utc } = dateTimeParts(property);
+  if (utc) return new Date(Date.UTC(...parts));
+  return hasTime && property.params.TZID ? zonedTimeToInstant(parts, property.params.TZID) : null;
+};
+
+// Instant (CREATED, COMPLETED...) : heure UTC ou du fuseau TZID, sinon heure locale
+const parseDateTime = (property: ICalendarProperty): Date =>
+  parseInstant(property) ?? new Date(...dateTimeParts(property).parts);
+
+// Échéance ramenée à une date (minuit UTC) comme celles saisies dans le formulaire, plus l'heure :
+// - VALUE=DATE : le jour seul, sans heure
+// - heure flottante (ou TZID inconnu) : le jour et l'heure tels qu'écrits
+// - heure UTC (suffixe Z) ou avec TZID : le jour et l'heure correspondants dans le fuseau local
+const parseDue = (property: ICalendarProperty): { dueDate: Date; dueTime?: string } => {
+  const instant = parseInstant(property);
+  if (instant) {
+    return {
+      dueDate: new Date(Date.UTC(instant.getFullYear(), instant.getMonth(), instant.getDate())),
+      dueTime: `${pad(instant.getHours())}:${pad(instant.getMinutes())}`
+    };
+  }
+
+  const { parts: [year, month, day, hours, minutes], hasTime } = dateTimeParts(property);
+  return {
+    dueDate: new Date(Date.UTC(year, month, day)),
+    dueTime: hasTime ? `${pad(hours)}:${pad(minutes)}` : undefined
+  };
+};
+
+const reviveComponent = (component: string, properties: ICalendarProperty[], alarms: ICalendarProperty[]): Task => {
+  const get = (name: string) => properties.find(property => property.name === name);
+
+  const description = get("DESCRIPTION");
+  const due = get("DUE") ?? (component === "VEVENT" ? get("DTSTART") : undefined);
+  const status = get("STATUS")?.value.toUpperCase();
+  const created = get("CREATED") ?? get("DTSTAMP");
+  const modified = get("LAST-MODIFIED") ?? created;
+  const completed = get("COMPLETED");
+  const priority = Number(get("PRIORITY")?.value ?? 0);
+  const { dueDate, dueTime } = due ? parseDue(due) : { dueDate: undefined, dueTime: undefined };
+  const now = new Date();
+
+  // Premier rappel relatif (les déclencheurs à une date absolue sont ignorés)
+  const trigger = alarms.map(alarm => parseDurationMinutes(alarm.value)).find(minutes => minutes !== null);
+  const reminderOffset = dueDate && trigger != null ? Math.max(allDayShift(dueTime) - trigger, 0) : undefined;
+
+  return reviveTask({
+    id: get("UID")?.value || generateTaskId(),
+    listId: DEFAULT_LIST_ID,
+    title: unescapeText(get("SUMMARY")?.value ?? "").trim(),
+    description: description ? unescapeText(description.value) : undefined,
+    dueDate,
+    dueTime,
+    reminderOffset,
+    status: component === "VTODO" ? statusFromICal(status, get("COMPLETED") !== undefined) : "todo",
+    priority: priorityFromICal(Number.isInteger(priority) ? priority : 0),
+    tags: normalizeTags(
+      properties
+        .filter(property => property.name === "CATEGORIES")
+        .flatMap(property => property.value.split(/(?<!\\),/).map(unescapeText))
+    ),
+    subtasks: [],
+    createdAt: created ? parseDateTime(created) : now,
+    updatedAt: modified ? parseDateTime(modified) : now,
+    completedAt: completed ? parseDateTime(completed) : undefined
+  });
+};
+
+// Les VTODO et VEVENT sont importés avec leur premier VALARM ; VTIMEZONE, etc. sont ignorés
+export function parseICalendar(content: string): ImportRow[] {
+  const lines = unfoldLines(content);
+  if (lines[0]?.toUpperCase() !== "BEGIN:VCALENDAR") {
+    return [{ source: { key: "importExport.source.file" }, error: { key: "importExport.error.notICalendar" } }];
+  }
+
+  const entries: ImportRow[] = [];
+  const stack: string[] = [];
+  let properties: ICalendarProperty[] = [];
+  let alarms: ICalendarProperty[] = [];
+  const counts: Record<string, number> = {};
+
+  for (const line of lines) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === "BEGIN") {
+      stack.push(property.value.toUpperCase());
+      if (stack.length === 2) {
+        properties = [];
+        alarms = [];
+      }
+      continue;
+    }
+    if (property.name === "END") {
+      const component = stack.pop();
+      if (stack.length === 1 && (component === "VTODO" || component === "VEVENT")) {
+        counts[component] = (counts[component] ?? 0) + 1;
+        const source: LocalizedMessage = { key: "importExport.source.component", params: { component, index: counts[component] } };
+        try {
+          entries.push({ source, task: reviveComponent(component, properties, alarms) });
+        } catch (error) {
+          entries.push({ source, error: codecErrorMessage(error) });
+        }
+      }
+      continue;
+    }
+    // Propriétés directes du composant ; d'un VALARM imbriqué, seul le déclencheur compte
+    if (stack.length === 2) properties.push(property);
+    if (stack.length === 3 && stack[2] === "VALARM" && property.name === "TRIGGER") alarms.push(property);
+  }
+
+  return entries;
+}
@@ -0,0 +1,26 @@
+// Types de icalendarFormat.mjs
+export declare const DEFAULT_REMINDER_TIME: string;
+
+// Champs lus par l'écriture : une Task convient telle quelle
+export interface ICalendarTask {
+  id: string;
+  title: string;
+  description?: string;
+  tags: string[];
+  priority: string;
+  status: string;
+  dueDate?: Date;
+  dueTime?: string;
+  reminderOffset?: number;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export declare const allDayShift: (dueTime?: string) => number;
+
+export declare function toICalendar(
+  tasks: ICalendarTask[],
+  component?: "VTODO" | "VEVENT",
+  headerLines?: string[]
+): string;
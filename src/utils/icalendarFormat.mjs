@@ -0,0 +1,127 @@
+// Écriture iCalendar (RFC 5545) commune à l'export de l'application (src/utils/icalendar.ts)
+// et au flux d'abonnement du serveur de synchronisation (server/sync-server.mjs).
+// JavaScript sans dépendance pour être chargé tel quel par Node ; types dans icalendarFormat.d.mts
+
+// Heure de référence des rappels pour une échéance sans heure
+export const DEFAULT_REMINDER_TIME = "09:00";
+
+const PRODID = "-//TP Final//Gestionnaire de taches//FR";
+
+// PRIORITY : 1 (plus haute) à 9 (plus basse), 0 = non définie
+const ICAL_PRIORITIES = { urgent: 1, high: 3, normal: 5, low: 9 };
+
+// "blocked" n'a pas d'équivalent : la tâche reste à faire
+const ICAL_STATUSES = {
+  todo: "NEEDS-ACTION",
+  in_progress: "IN-PROCESS",
+  blocked: "NEEDS-ACTION",
+  done: "COMPLETED"
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value) => String(value).padStart(2, "0");
+
+const formatDate = (date) => `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+
+const formatDateTime = (date) =>
+  `${formatDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const escapeText = (text) => text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Lignes de 75 octets maximum, continuées par un espace (sans couper un caractère UTF-8)
+const foldLine = (line) => {
+  const encoder = new TextEncoder();
+  const parts = [];
+  let current = "";
+  let size = 0;
+
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+// Avec une heure : date-heure "flottante" (heure locale de l'agenda), sinon date seule
+const formatDueProperty = (dueDate, dueTime) =>
+  dueTime ? `:${formatDate(dueDate)}T${dueTime.replace(":", "")}00` : `;VALUE=DATE:${formatDate(dueDate)}`;
+
+// Sans heure, le rappel se cale sur DEFAULT_REMINDER_TIME, alors que l'échéance iCalendar tombe à minuit
+export const allDayShift = (dueTime) => {
+  if (dueTime) return 0;
+  const [hours, minutes] = DEFAULT_REMINDER_TIME.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+const formatDuration = (minutes) => `${minutes < 0 ? "-" : ""}PT${Math.abs(minutes)}M`;
+
+const componentLines = (task, component, stamp) => {
+  const done = task.status === "done";
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${task.id}`,
+    `DTSTAMP:${stamp}`,
+    `CREATED:${formatDateTime(task.createdAt)}`,
+    `LAST-MODIFIED:${formatDateTime(task.updatedAt)}`,
+    `SUMMARY:${escapeText(task.title)}`
+  ];
+  if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+  if (task.tags.length > 0) lines.push(`CATEGORIES:${task.tags.map(escapeText).join(",")}`);
+  lines.push(`PRIORITY:${ICAL_PRIORITIES[task.priority] ?? 5}`);
+
+  if (component === "VTODO") {
+    if (task.dueDate) lines.push(`DUE${formatDueProperty(task.dueDate, task.dueTime)}`);
+    lines.push(`STATUS:${ICAL_STATUSES[task.status] ?? "NEEDS-ACTION"}`);
+    if (done) lines.push(`COMPLETED:${formatDateTime(task.completedAt ?? task.updatedAt)}`, "PERCENT-COMPLETE:100");
+  } else if (task.dueDate) {
+    // Événement d'une journée entière (DTEND exclusif), ou de 30 minutes à l'heure d'échéance
+    lines.push(
+      `DTSTART${formatDueProperty(task.dueDate, task.dueTime)}`,
+      task.dueTime ? "DURATION:PT30M" : `DTEND;VALUE=DATE:${formatDate(new Date(task.dueDate.getTime() + DAY_MS))}`,
+      "TRANSP:TRANSPARENT",
+      `STATUS:${done ? "CANCELLED" : "CONFIRMED"}`
+    );
+  }
+
+  // Décalage du VALARM par rapport à l'échéance (négatif = avant)
+  if (task.dueDate && task.reminderOffset !== undefined && !done) {
+    lines.push(
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeText(task.title)}`,
+      `TRIGGER;RELATED=${component === "VTODO" ? "END" : "START"}:${formatDuration(allDayShift(task.dueTime) - task.reminderOffset)}`,
+      "END:VALARM"
+    );
+  }
+
+  lines.push(`END:${component}`);
+  return lines;
+};
+
+// VTODO pour les applications qui gèrent les tâches ; VEVENT pour les autres (échéances seulement).
+// headerLines : propriétés ajoutées au calendrier (rafraîchissement d'un abonnement, par exemple)
+export function toICalendar(tasks, component = "VTODO", headerLines = []) {
+  const stamp = formatDateTime(new Date());
+  const exported = component === "VEVENT" ? tasks.filter(task => task.dueDate) : tasks;
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Tâches",
+    ...headerLines,
+    ...exported.flatMap(task => componentLines(task, component, stamp)),
+    "END:VCALENDAR"
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,49 @@
+import type { Task, TaskFilter, TaskSort, TodoList } from "../types/Task";
+import { TASK_FILTERS, TASK_SORTS } from "./taskFilters";
+
+// Liste qui reçoit les tâches existantes et celles dont la liste n'existe plus ; elle ne peut pas être supprimée
+export const DEFAULT_LIST_ID = "default";
+
+// Vue agrégée de toutes les listes
+export const ALL_LISTS = "all";
+
+// Nom vide : la liste par défaut s'affiche sous le nom traduit "lists.defaultName" tant qu'elle n'est pas renommée
+export const DEFAULT_LIST: TodoList = {
+  id: DEFAULT_LIST_ID,
+  name: "",
+  color: "#00d4ff",
+  defaultSort: "newest",
+  defaultFilter: "all"
+};
+
+const LEGACY_DEFAULT_LIST_NAME = "Mes tâches";
+
+const isSort = (value: unknown): value is TaskSort => TASK_SORTS.includes(value as TaskSort);
+const isFilter = (value: unknown): value is TaskFilter => TASK_FILTERS.includes(value as TaskFilter);
+
+export const generateListId = (): string => `list-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Listes relues depuis le stockage : entrées invalides écartées, liste par défaut toujours présente en tête
+export function normalizeLists(value: unknown): TodoList[] {
+  const lists: TodoList[] = [];
+  (Array.isArray(value) ? value : []).forEach(item => {
+    const list = item as Partial<TodoList> | null;
+    if (typeof list?.id !== "string" || !list.id || typeof list.name !== "string" || lists.some(l => l.id === list.id)) return;
+
+    lists.push({
+      id: list.id,
+      // Nom enregistré avant la traduction du nom par défaut
+      name: list.id === DEFAULT_LIST_ID && list.name === LEGACY_DEFAULT_LIST_NAME ? "" : list.name,
+      color: typeof list.color === "string" ? list.color : DEFAULT_LIST.color,
+      defaultSort: isSort(list.defaultSort) ? list.defaultSort : "newest",
+      defaultFilter: isFilter(list.defaultFilter) ? list.defaultFilter : "all"
+    });
+  });
+
+  const defaultList = lists.find(list => list.id === DEFAULT_LIST_ID) ?? DEFAULT_LIST;
+  return [defaultList, ...lists.filter(list => list.id !== DEFAULT_LIST_ID)];
+}
+
+// Liste effective d'une tâche : celle de la tâche si elle existe encore, sinon la liste par défaut
+export const resolveListId = (task: Task, listIds: readonly string[]): string =>
+  listIds.includes(task.listId) ? task.listId : DEFAULT_LIST_ID;
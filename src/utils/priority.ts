@@ -0,0 +1,31 @@
+import type { TaskPriority } from "../types/Task";
+
+// Du moins au plus important : l'index sert de rang pour les comparaisons
+export const TASK_PRIORITIES: TaskPriority[] = ["low", "normal", "high", "urgent"];
+
+export const PRIORITY_COLORS: Record<TaskPriority, string> = {
+  low: "#39ff14",
+  normal: "#00d4ff",
+  high: "#ff8800",
+  urgent: "#ff006e"
+};
+
+export const priorityRank = (priority: TaskPriority): number => TASK_PRIORITIES.indexOf(priority);
+
+export const isTaskPriority = (value: unknown): value is TaskPriority =>
+  TASK_PRIORITIES.includes(value as TaskPriority);
+
+const PRIORITY_ALIASES: Record<string, TaskPriority> = {
+  basse: "low",
+  normale: "normal",
+  haute: "high",
+  urgente: "urgent"
+};
+
+// Nom de priorité replié (sans accents, en minuscules), en français ou en anglais
+export const parsePriority = (value: string): TaskPriority | null =>
+  PRIORITY_ALIASES[value] ?? (isTaskPriority(value) ? value : null);
+
+// Nom français d'une priorité, tel qu'écrit dans la saisie rapide (« !haute »)
+export const priorityAlias = (priority: TaskPriority): string =>
+  Object.keys(PRIORITY_ALIASES).find(alias => PRIORITY_ALIASES[alias] === priority) ?? priority;
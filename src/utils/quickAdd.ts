@@ -0,0 +1,269 @@
+import type { TaskPriority } from "../types/Task";
+import { parsePriority } from "./priority";
+import { normalizeTag } from "./tags";
+import { foldText } from "./search";
+import { addDays, dayKeyToDate, startOfWeek, todayKey } from "./calendar";
+
+// Saisie rapide : "Appeler Paul demain 14h #travail !haute" -> titre, échéance, heure, étiquettes, priorité
+export type QuickAddToken =
+  | { kind: "date"; text: string; value: string }
+  | { kind: "time"; text: string; value: string }
+  | { kind: "tag"; text: string; value: string }
+  | { kind: "priority"; text: string; value: TaskPriority };
+
+export interface QuickAddResult {
+  title: string;
+  tokens: QuickAddToken[];
+  dueDate?: string;
+  dueTime?: string;
+  tags: string[];
+  priority?: TaskPriority;
+}
+
+interface QuickAddOptions {
+  now?: Date;
+  // Textes de jetons à laisser dans le titre (chips retirées par l'utilisateur)
+  ignore?: string[];
+}
+
+// 0 = dimanche, comme Date.getUTCDay
+const WEEKDAYS: Record<string, number> = {
+  dimanche: 0, lundi: 1, mardi: 2, mercredi: 3, jeudi: 4, vendredi: 5, samedi: 6,
+  sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6
+};
+
+// "mar" est volontairement absent : mardi en français, mars en anglais
+const MONTHS: Record<string, number> = {
+  janvier: 1, janv: 1, fevrier: 2, fevr: 2, fev: 2, mars: 3, avril: 4, avr: 4, mai: 5, juin: 6,
+  juillet: 7, juil: 7, aout: 8, septembre: 9, sept: 9, octobre: 10, novembre: 11, decembre: 12,
+  january: 1, jan: 1, february: 2, feb: 2, march: 3, april: 4, apr: 4, may: 5, june: 6, jun: 6,
+  july: 7, jul: 7, august: 8, aug: 8, september: 9, sep: 9, october: 10, oct: 10, november: 11,
+  nov: 11, december: 12, dec: 12
+};
+
+// Expressions relatives, en nombre de jours après aujourd'hui (mots repliés)
+const RELATIVE_DAYS: [string[], number][] = [
+  [["day", "after", "tomorrow"], 2],
+  [["apres", "demain"], 2],
+  [["apres-demain"], 2],
+  [["aujourd'hui"], 0],
+  [["aujourdhui"], 0],
+  [["today"], 0],
+  [["demain"], 1],
+  [["tomorrow"], 1]
+];
+
+const UNIT_DAYS: Record<string, number> = {
+  jour: 1, jours: 1, day: 1, days: 1,
+  semaine: 7, semaines: 7, week: 7, weeks: 7
+};
+
+const NUMBER_WORDS: Record<string, number> = { un: 1, une: 1, a: 1, an: 1, one: 1, deux: 2, two: 2, trois: 3, three: 3 };
+
+// Mots de liaison absorbés avec la date ou l'heure qui les suit
+const DATE_CONNECTORS = ["le", "pour", "on", "by", "for"];
+const TIME_CONNECTORS = ["a", "vers", "at", "around"];
+
+const NEXT_WORDS = ["prochain", "prochaine", "next"];
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+// Date réelle uniquement (pas de 31 février)
+const toDayKey = (year: number, month: number, day: number): string | null => {
+  const key = `${year}-${pad(month)}-${pad(day)}`;
+  return month >= 1 && month <= 12 && day >= 1 && dayKeyToDate(key).getUTCDate() === day ? key : null;
+};
+
+// Sans année, une date déjà passée désigne l'année suivante
+const upcomingDayKey = (month: number, day: number, year: number | null, today: string): string | null => {
+  const currentYear = Number(today.slice(0, 4));
+  const key = toDayKey(year ?? currentYear, month, day);
+  if (!key || year !== null || key >= today) return key;
+  return toDayKey(currentYear + 1, month, day);
+};
+
+const parseYear = (value: string | undefined): number | null => {
+  if (!value || !/^\d{2}(\d{2})?$/.test(value)) return null;
+  return value.length === 2 ? 2000 + Number(value) : Number(value);
+};
+
+interface Match {
+  length: number;
+  value: string;
+}
+
+const matchDate = (words: string[], i: number, today: string): Match | null => {
+  const word = words[i];
+
+  for (const [phrase, days] of RELATIVE_DAYS) {
+    if (phrase.every((part, offset) => words[i + offset] === part)) {
+      return { length: phrase.length, value: addDays(today, days) };
+    }
+  }
+
+  // "vendredi" = le prochain vendredi (jamais aujourd'hui) ; "vendredi prochain" / "next friday" = celui de la semaine prochaine
+  const weekdayAt = (index: number) => WEEKDAYS[words[index]?.replace(/\.$/, "")];
+  const nextWeekday = (weekday: number) => addDays(startOfWeek(today), 7 + ((weekday + 6) % 7));
+  if (word === "next" && weekdayAt(i + 1) !== undefined) {
+    return { length: 2, value: nextWeekday(weekdayAt(i + 1)) };
+  }
+  if (weekdayAt(i) !== undefined) {
+    const weekday = weekdayAt(i);
+    if (NEXT_WORDS.includes(words[i + 1])) {
+      return { length: 2, value: nextWeekday(weekday) };
+    }
+    const todayWeekday = dayKeyToDate(today).getUTCDay();
+    return { length: 1, value: addDays(today, ((weekday - todayWeekday + 6) % 7) + 1) };
+  }
+
+  if ((word === "semaine" && NEXT_WORDS.includes(words[i + 1])) || (word === "next" && words[i + 1] === "week")) {
+    return { length: 2, value: addDays(startOfWeek(today), 7) };
+  }
+
+  // "dans 3 jours", "in 2 weeks"
+  if (word === "dans" || word === "in") {
+    const count = /^\d+$/.test(words[i + 1] ?? "") ? Number(words[i + 1]) : NUMBER_WORDS[words[i + 1]];
+    const unit = UNIT_DAYS[words[i + 2]];
+    if (count !== undefined && unit !== undefined) {
+      return { length: 3, value: addDays(today, count * unit) };
+    }
+  }
+
+  // 2026-12-25
+  const iso = word.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    const key = toDayKey(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    return key ? { length: 1, value: key } : null;
+  }
+
+  // 25/12, 25/12/2026, 25/12/26
+  const numeric = word.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/);
+  if (numeric) {
+    const key = upcomingDayKey(Number(numeric[2]), Number(numeric[1]), parseYear(numeric[3]), today);
+    return key ? { length: 1, value: key } : null;
+  }
+
+  // "25 décembre", "1er mai 2027", "25 december"
+  const dayNumber = word.match(/^(\d{1,2})(?:er|st|nd|rd|th)?$/);
+  const monthAfter = MONTHS[words[i + 1]?.replace(/\.$/, "")];
+  if (dayNumber && monthAfter !== undefined) {
+    const year = parseYear(words[i + 2]);
+    const key = upcomingDayKey(monthAfter, Number(dayNumber[1]), year, today);
+    return key ? { length: year === null ? 2 : 3, value: key } : null;
+  }
+
+  // "december 25"
+  const monthFirst = MONTHS[word.replace(/\.$/, "")];
+  const dayAfter = words[i + 1]?.match(/^(\d{1,2})(?:st|nd|rd|th)?$/);
+  if (monthFirst !== undefined && dayAfter) {
+    const key = upcomingDayKey(monthFirst, Number(dayAfter[1]), null, today);
+    return key ? { length: 2, value: key } : null;
+  }
+
+  return null;
+};
+
+const toTime = (hours: number, minutes: number): string | null =>
+  hours <= 23 && minutes <= 59 ? `${pad(hours)}:${pad(minutes)}` : null;
+
+const matchTime = (words: string[], i: number): Match | null => {
+  const word = words[i];
+
+  if (word === "midi" || word === "noon") return { length: 1, value: "12:00" };
+
+  // 14h, 14h30, 14:30
+  const french = word.match(/^(\d{1,2})(?:h(\d{2})?|:(\d{2}))$/);
+  if (french) {
+    const value = toTime(Number(french[1]), Number(french[2] ?? french[3] ?? 0));
+    return value ? { length: 1, value } : null;
+  }
+
+  // 3pm, 3:30pm, 3 pm
+  const english = word.match(/^(\d{1,2})(?::(\d{2}))?(am|pm)?$/);
+  const suffix = english?.[3] ?? (["am", "pm"].includes(words[i + 1]) ? words[i + 1] : undefined);
+  if (english && suffix) {
+    const hours = Number(english[1]);
+    if (hours < 1 || hours > 12) return null;
+    const value = toTime((hours % 12) + (suffix === "pm" ? 12 : 0), Number(english[2] ?? 0));
+    return value ? { length: english[3] ? 1 : 2, value } : null;
+  }
+
+  return null;
+};
+
+// Le mot de liaison n'est absorbé que s'il précède une date ou une heure reconnue
+const withConnector = (
+  words: string[],
+  i: number,
+  connectors: string[],
+  match: (index: number) => Match | null
+): Match | null => {
+  if (connectors.includes(words[i])) {
+    const next = match(i + 1);
+    if (next) return { length: next.length + 1, value: next.value };
+  }
+  return match(i);
+};
+
+export function parseQuickAdd(input: string, { now = new Date(), ignore = [] }: QuickAddOptions = {}): QuickAddResult {
+  const raw = input.split(/\s+/).filter(Boolean);
+  // Mots repliés sans la ponctuation finale ("demain," -> "demain")
+  const words = raw.map(word => foldText(word).replace(/’/g, "'").replace(/[,;!?]+$/, ""));
+  const today = todayKey(now);
+
+  const tokens: QuickAddToken[] = [];
+  const titleWords: string[] = [];
+  const has = (kind: QuickAddToken["kind"]) => tokens.some(token => token.kind === kind);
+
+  let i = 0;
+  while (i < raw.length) {
+    const candidates: (QuickAddToken & { length: number })[] = [];
+    const word = raw[i];
+
+    if (/^#[^#\s]+$/.test(word)) {
+      candidates.push({ kind: "tag", text: word, value: normalizeTag(word), length: 1 });
+    }
+
+    const priority = word.startsWith("!") ? parsePriority(foldText(word.slice(1))) : null;
+    if (priority && !has("priority")) {
+      candidates.push({ kind: "priority", text: word, value: priority, length: 1 });
+    }
+
+    const date = has("date") ? null : withConnector(words, i, DATE_CONNECTORS, index => matchDate(words, index, today));
+    if (date) {
+      candidates.push({ kind: "date", text: raw.slice(i, i + date.length).join(" "), value: date.value, length: date.length });
+    }
+
+    const time = has("time") ? null : withConnector(words, i, TIME_CONNECTORS, index => matchTime(words, index));
+    if (time) {
+      candidates.push({ kind: "time", text: raw.slice(i, i + time.length).join(" "), value: time.value, length: time.length });
+    }
+
+    // Un jeton écarté reste entier dans le titre, mot de liaison compris
+    const [match] = candidates;
+    if (!match || ignore.includes(match.text)) {
+      const length = match?.length ?? 1;
+      titleWords.push(...raw.slice(i, i + length));
+      i += length;
+      continue;
+    }
+
+    const { length, ...token } = match;
+    tokens.push(token);
+    i += length;
+  }
+
+  const dueDate = tokens.find(token => token.kind === "date")?.value;
+  const dueTime = tokens.find(token => token.kind === "time")?.value;
+  const priorityToken = tokens.find(token => token.kind === "priority");
+
+  return {
+    title: titleWords.join(" "),
+    tokens,
+    // Une heure seule vaut pour aujourd'hui
+    dueDate: dueDate ?? (dueTime ? today : undefined),
+    dueTime,
+    tags: tokens.flatMap(token => (token.kind === "tag" ? [token.value] : [])),
+    priority: priorityToken?.kind === "priority" ? priorityToken.value : undefined
+  };
+}
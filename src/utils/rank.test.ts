@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { isRankKey, rankBetween, ranksAfter } from "./rank";
+
+describe("ranksAfter", () => {
+  it("donne des clés croissantes, courtes et valides", () => {
+    const keys = ranksAfter(undefined, 300);
+
+    expect(keys).toEqual([...keys].sort());
+    expect(new Set(keys).size).toBe(300);
+    expect(keys.every(isRankKey)).toBe(true);
+    expect(Math.max(...keys.map(key => key.length))).toBeLessThanOrEqual(3);
+  });
+
+  it("place les clés après before, avec de la place pour insérer entre deux", () => {
+    const keys = ranksAfter("V", 10);
+
+    expect(keys.every(key => key > "V" && isRankKey(key))).toBe(true);
+    expect(rankBetween(keys[0], keys[1]).length).toBeLessThanOrEqual(keys[0].length);
+  });
+});
@@ -0,0 +1,67 @@
+// Clés d'ordre fractionnaires : on insère entre deux clés sans renuméroter les voisines.
+// Une clé est une suite de chiffres en base 62, comparée comme une chaîne, qui ne finit jamais par "0".
+const DIGITS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+
+// Insérer toujours au même endroit (en tête, par exemple) allonge les clés d'un chiffre toutes les
+// cinq ou six insertions : au-delà de cette longueur, les clés sont redistribuées (voir ranksAfter)
+export const MAX_RANK_LENGTH = 12;
+
+// Milieu de [a, b[ ; b absent = borne supérieure infinie
+const midpoint = (a: string, b: string | undefined): string => {
+  if (b !== undefined) {
+    let prefix = 0;
+    while ((a[prefix] ?? "0") === b[prefix]) prefix++;
+    if (prefix > 0) return b.slice(0, prefix) + midpoint(a.slice(prefix), b.slice(prefix));
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== undefined ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  if (b !== undefined && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), undefined);
+};
+
+export const isRankKey = (value: unknown): value is string =>
+  typeof value === "string" && /^[0-9A-Za-z]*[1-9A-Za-z]$/.test(value);
+
+// Clé strictement comprise entre before et after (chacune facultative)
+export function rankBetween(before?: string, after?: string): string {
+  if (before !== undefined && after !== undefined && before >= after) {
+    throw new RangeError(`clés d'ordre invalides : ${before} >= ${after}`);
+  }
+  return midpoint(before ?? "", after);
+}
+
+// value en base 62 sur length chiffres
+const encode = (value: number, length: number): string => {
+  let key = "";
+  for (let i = 0; i < length; i++) {
+    key = DIGITS[value % DIGITS.length] + key;
+    value = Math.floor(value / DIGITS.length);
+  }
+  return key;
+};
+
+// count clés croissantes après before (préfixe de chacune), régulièrement espacées et aussi courtes que possible,
+// avec au moins 62 places libres entre deux clés ; sans before, de quoi renuméroter toutes les tâches
+export function ranksAfter(before: string | undefined, count: number): string[] {
+  let length = 1;
+  while (DIGITS.length ** length < (count + 1) * DIGITS.length) length++;
+  const step = Math.floor(DIGITS.length ** length / (count + 1));
+  return Array.from({ length: count }, (_, i) => (before ?? "") + encode((i + 1) * step, length).replace(/0+$/, ""));
+}
+
+// Tâches classées d'abord par clé, puis celles sans clé de la plus récente à la plus ancienne
+export const compareRanks = (
+  a: { rank?: string; createdAt: Date },
+  b: { rank?: string; createdAt: Date }
+): number => {
+  if (a.rank !== undefined && b.rank !== undefined && a.rank !== b.rank) return a.rank < b.rank ? -1 : 1;
+  if (a.rank !== undefined && b.rank === undefined) return -1;
+  if (a.rank === undefined && b.rank !== undefined) return 1;
+  return b.createdAt.getTime() - a.createdAt.getTime();
+};
@@ -0,0 +1,131 @@
+import type { OccurrenceRecord, RecurrenceRule, SeriesValues, Task } from "../types/Task";
+import type { Translator } from "../i18n/i18n";
+import { setSubtaskTreeCompletion } from "./subtasks";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Semaines commençant le lundi, comme dans le reste de l'interface
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const generateSeriesId = (): string => {
+  return `series_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+};
+
+// Les échéances sont des dates à minuit UTC : tous les calculs se font en UTC
+export const startOfUtcDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+const startOfUtcWeek = (date: Date): Date => addDays(startOfUtcDay(date), -((date.getUTCDay() + 6) % 7));
+
+const daysInUtcMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const nextWeeklyDate = (rule: RecurrenceRule, from: Date): Date => {
+  const weekdays = rule.weekdays.length > 0 ? rule.weekdays : [from.getUTCDay()];
+  const fromWeek = startOfUtcWeek(from).getTime();
+
+  for (let offset = 1; offset <= 7 * (rule.interval + 1); offset++) {
+    const candidate = addDays(startOfUtcDay(from), offset);
+    const weekOffset = Math.round((startOfUtcWeek(candidate).getTime() - fromWeek) / (7 * DAY_MS));
+    if (weekOffset % rule.interval === 0 && weekdays.includes(candidate.getUTCDay())) {
+      return candidate;
+    }
+  }
+  return addDays(startOfUtcDay(from), 7 * rule.interval);
+};
+
+const nextMonthlyDate = (rule: RecurrenceRule, from: Date): Date => {
+  const monthIndex = from.getUTCMonth() + rule.interval;
+  const year = from.getUTCFullYear() + Math.floor(monthIndex / 12);
+  const month = ((monthIndex % 12) + 12) % 12;
+  const lastDay = daysInUtcMonth(year, month);
+  const monthDay = rule.monthDay ?? from.getUTCDate();
+  const day = monthDay === -1 ? lastDay : Math.min(monthDay, lastDay);
+  return new Date(Date.UTC(year, month, day));
+};
+
+// Date de l'occurrence suivante, ou null si la série est terminée (UNTIL ou COUNT atteint)
+export function nextOccurrenceDate(rule: RecurrenceRule, from: Date, index: number): Date | null {
+  if (rule.count !== undefined && index >= rule.count) return null;
+
+  const next =
+    rule.frequency === "daily" ? addDays(startOfUtcDay(from), rule.interval) :
+    rule.frequency === "weekly" ? nextWeeklyDate(rule, from) :
+    nextMonthlyDate(rule, from);
+
+  if (rule.until && next.getTime() > startOfUtcDay(rule.until).getTime()) return null;
+  return next;
+}
+
+// Valeurs d'une tâche que l'occurrence suivante reprend ; toutes les clés sont présentes, même vides
+export const seriesValuesOf = (task: Task): SeriesValues => ({
+  title: task.title,
+  description: task.description,
+  dueTime: task.dueTime,
+  reminderOffset: task.reminderOffset,
+  priority: task.priority,
+  tags: task.tags,
+  estimateMinutes: task.estimateMinutes
+});
+
+// Construit l'occurrence suivante à partir de la courante ; l'historique est transmis
+export function buildNextOccurrence(task: Task, nextId: string, record: OccurrenceRecord): Task | null {
+  const recurrence = task.recurrence;
+  if (!recurrence) return null;
+
+  const nextDate = nextOccurrenceDate(recurrence.rule, recurrence.scheduledDate, recurrence.index);
+  if (!nextDate) return null;
+
+  const now = new Date();
+  return {
+    ...task,
+    ...recurrence.seriesValues,
+    id: nextId,
+    status: "todo",
+    completedAt: undefined,
+    rank: undefined,
+    subtasks: task.subtasks.map(subtask => setSubtaskTreeCompletion(subtask, false)),
+    // L'estimation vaut pour chaque occurrence, le temps passé reste sur la précédente
+    timeEntries: undefined,
+    dueDate: nextDate,
+    createdAt: now,
+    updatedAt: now,
+    recurrence: {
+      rule: recurrence.rule,
+      seriesId: recurrence.seriesId,
+      index: recurrence.index + 1,
+      scheduledDate: nextDate,
+      history: [...recurrence.history, record]
+    }
+  };
+}
+
+// Noms courts des jours (0 = dimanche), dans la langue de l'interface : le 7 janvier 2024 est un dimanche
+export const weekdayLabels = ({ formatDate }: Translator): string[] =>
+  Array.from({ length: 7 }, (_, day) => formatDate(new Date(Date.UTC(2024, 0, 7 + day)), { weekday: "short", timeZone: "UTC" }));
+
+export function describeRecurrence(rule: RecurrenceRule, i18n: Translator): string {
+  const { t, formatDate } = i18n;
+  const { interval } = rule;
+  let description: string;
+
+  switch (rule.frequency) {
+    case "daily":
+      description = t("recurrence.describeDaily", { interval });
+      break;
+    case "weekly": {
+      const labels = weekdayLabels(i18n);
+      const days = WEEKDAY_ORDER.filter(day => rule.weekdays.includes(day)).map(day => labels[day]);
+      description = t("recurrence.describeWeekly", { interval }) + (days.length ? t("recurrence.describeWeekdays", { days: days.join(", ") }) : "");
+      break;
+    }
+    case "monthly":
+      description = t("recurrence.describeMonthly", { interval }) + (rule.monthDay ? t("recurrence.describeMonthDay", { day: rule.monthDay }) : "");
+      break;
+  }
+
+  if (rule.count !== undefined) description += t("recurrence.describeCount", { count: rule.count });
+  if (rule.until) description += t("recurrence.describeUntil", { date: formatDate(rule.until, { timeZone: "UTC" }) });
+  return description;
+}
@@ -0,0 +1,115 @@
+import type { Task } from "../types/Task";
+import type { Translator } from "../i18n/i18n";
+import { dueMoment, formatDue, reminderMoment } from "./dueDates";
+import { isCompleted } from "./status";
+
+export type ReminderKind = "reminder" | "overdue";
+
+export interface Reminder {
+  key: string;
+  taskId: string;
+  kind: ReminderKind;
+  title: string;
+  dueAt: Date;
+  triggerAt: Date;
+  // De quoi rédiger le message dans la langue de l'interface
+  due: Pick<Task, "dueDate" | "dueTime">;
+  offsetMinutes: number;
+}
+
+// État de chaque rappel déjà déclenché, conservé entre deux chargements de la page
+export interface ReminderEntry {
+  status: "active" | "snoozed" | "dismissed";
+  until?: string;
+}
+
+export type ReminderLog = Record<string, ReminderEntry>;
+
+export interface ReminderSchedule {
+  fired: Reminder[]; // à notifier maintenant
+  active: Reminder[]; // à afficher
+  log: ReminderLog;
+  nextAt: Date | null; // prochain déclenchement à programmer
+}
+
+const describeDelay = (offsetMinutes: number, { t }: Translator): string =>
+  offsetMinutes < 60 ? t("reminder.delayMinutes", { count: offsetMinutes }) :
+  offsetMinutes < 24 * 60 ? t("reminder.delayHours", { count: offsetMinutes / 60 }) :
+  t("reminder.delayDays", { count: Math.round(offsetMinutes / (24 * 60)) });
+
+export function reminderMessage(reminder: Reminder, i18n: Translator): string {
+  const due = formatDue(reminder.due, i18n);
+  return reminder.kind === "overdue"
+    ? i18n.t("reminder.overdueSince", { due })
+    : i18n.t("reminder.dueIn", { minutes: reminder.offsetMinutes, delay: describeDelay(reminder.offsetMinutes, i18n), due });
+}
+
+// Les rappels sont recalculés à partir des tâches : la clé change si l'échéance change
+export function scheduledReminders(tasks: Task[]): Reminder[] {
+  return tasks.flatMap(task => {
+    const dueAt = dueMoment(task);
+    const remindAt = reminderMoment(task);
+    if (isCompleted(task) || !dueAt || !remindAt || task.reminderOffset === undefined) return [];
+
+    const base = {
+      taskId: task.id,
+      title: task.title,
+      dueAt,
+      due: { dueDate: task.dueDate, dueTime: task.dueTime },
+      offsetMinutes: task.reminderOffset
+    };
+    return [
+      {
+        ...base,
+        kind: "reminder" as const,
+        key: `${task.id}|reminder|${remindAt.toISOString()}`,
+        triggerAt: remindAt
+      },
+      {
+        ...base,
+        kind: "overdue" as const,
+        key: `${task.id}|overdue|${dueAt.toISOString()}`,
+        triggerAt: dueAt
+      }
+    ];
+  });
+}
+
+export function reconcileReminders(reminders: Reminder[], log: ReminderLog, now: Date): ReminderSchedule {
+  const schedule: ReminderSchedule = { fired: [], active: [], log: {}, nextAt: null };
+  const planNext = (date: Date) => {
+    if (!schedule.nextAt || date < schedule.nextAt) schedule.nextAt = date;
+  };
+
+  // Les entrées des rappels disparus (tâche terminée, supprimée, échéance déplacée) sont oubliées
+  for (const reminder of reminders) {
+    const entry = log[reminder.key];
+
+    if (!entry) {
+      if (reminder.triggerAt > now) {
+        planNext(reminder.triggerAt);
+      } else if (reminder.kind === "reminder" && reminder.dueAt <= now) {
+        // Rappel manqué alors que l'échéance est passée : seul le retard est signalé
+        schedule.log[reminder.key] = { status: "dismissed" };
+      } else {
+        schedule.log[reminder.key] = { status: "active" };
+        schedule.fired.push(reminder);
+        schedule.active.push(reminder);
+      }
+      continue;
+    }
+
+    if (entry.status === "snoozed" && entry.until && new Date(entry.until) <= now) {
+      schedule.log[reminder.key] = { status: "active" };
+      schedule.fired.push(reminder);
+      schedule.active.push(reminder);
+      continue;
+    }
+
+    schedule.log[reminder.key] = entry;
+    if (entry.status === "active") schedule.active.push(reminder);
+    if (entry.status === "snoozed" && entry.until) planNext(new Date(entry.until));
+  }
+
+  return schedule;
+}
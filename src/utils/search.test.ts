@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { buildSearchIndex, matchesSearchQuery, parseSearchQuery } from "./search";
+import { isOverdue } from "./dueDates";
+import { makeTask } from "../test/fixtures";
+
+const today = new Date("2026-10-18T00:00:00.000Z");
+const tasks = [
+  makeTask({ title: "Aujourd'hui", dueDate: today }),
+  makeTask({ title: "Cet après-midi", dueDate: today, dueTime: "15:00" }),
+  makeTask({ title: "Ce matin", dueDate: today, dueTime: "08:00" }),
+  makeTask({ title: "Hier", dueDate: new Date("2026-10-17T00:00:00.000Z") }),
+  makeTask({ title: "Hier, terminée", dueDate: new Date("2026-10-17T00:00:00.000Z"), status: "done" })
+];
+
+const search = (input: string) => tasks.filter(matchesSearchQuery(parseSearchQuery(input), buildSearchIndex(tasks))).map(task => task.title);
+
+// À l'ouest de Greenwich, minuit UTC tombe la veille au soir : l'échéance du jour ne doit pas passer pour dépassée
+describe("recherche is:overdue (fuseau America/New_York)", () => {
+  beforeEach(() => {
+    vi.stubEnv("TZ", "America/New_York");
+    vi.useFakeTimers({ now: new Date("2026-10-18T10:00:00-04:00") });
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("tient compte de l'heure d'échéance et du jour local", () => {
+    expect(search("is:overdue")).toEqual(["Ce matin", "Hier"]);
+    expect(search("-is:overdue")).toEqual(["Aujourd'hui", "Cet après-midi", "Hier, terminée"]);
+  });
+
+  it("donne le même décompte que les statistiques", () => {
+    expect(search("is:overdue")).toHaveLength(tasks.filter(task => isOverdue(task)).length);
+  });
+});
@@ -0,0 +1,201 @@
+import type { Task, TaskPriority, TaskStatus } from "../types/Task";
+import { parsePriority, priorityRank } from "./priority";
+import { normalizeTag } from "./tags";
+import { isCompleted } from "./status";
+import { isOverdue } from "./dueDates";
+import type { TaskPredicate } from "./taskFilters";
+
+type Comparison = "<" | "<=" | ">" | ">=" | "=";
+
+// "todo" = toute tâche non terminée, les autres statuts désignent une colonne précise
+type IsValue = "done" | "todo" | "overdue" | Exclude<TaskStatus, "todo" | "done">;
+
+export type SearchClause =
+  | { kind: "text"; value: string; negated: boolean }
+  | { kind: "is"; value: IsValue; negated: boolean }
+  | { kind: "due"; op: Comparison; date: string | null; negated: boolean }
+  | { kind: "tag"; value: string; negated: boolean }
+  | { kind: "priority"; op: Comparison; value: TaskPriority; negated: boolean };
+
+export interface SearchQuery {
+  clauses: SearchClause[];
+  // Termes positifs à surligner dans la liste
+  highlights: string[];
+}
+
+const IS_ALIASES: Record<string, IsValue> = {
+  done: "done",
+  completed: "done",
+  termine: "done",
+  todo: "todo",
+  pending: "todo",
+  afaire: "todo",
+  doing: "in_progress",
+  encours: "in_progress",
+  blocked: "blocked",
+  bloquee: "blocked",
+  overdue: "overdue",
+  retard: "overdue"
+};
+
+// Minuscules sans accents ni ligatures : "Œuvre Élégante" -> "oeuvre elegante"
+export function foldText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .replace(/œ/gi, "oe")
+    .replace(/æ/gi, "ae")
+    .toLocaleLowerCase("fr");
+}
+
+const tokenize = (input: string): string[] => input.match(/-?(?:[^\s"]+:)?"[^"]*"?|\S+/g) ?? [];
+
+const unquote = (value: string): { text: string; quoted: boolean } => {
+  const match = value.match(/^"([^"]*)"?$/);
+  return match ? { text: match[1], quoted: true } : { text: value, quoted: false };
+};
+
+const parseComparison = (value: string): { op: Comparison; operand: string } => {
+  const match = value.match(/^(<=|>=|<|>|=)?(.*)$/);
+  return { op: (match?.[1] as Comparison | undefined) ?? "=", operand: match?.[2] ?? "" };
+};
+
+const parseClause = (token: string): SearchClause | null => {
+  const negated = token.startsWith("-") && token.length > 1;
+  const body = negated ? token.slice(1) : token;
+
+  if (body.startsWith("#") && body.length > 1) {
+    return { kind: "tag", value: normalizeTag(body), negated };
+  }
+
+  const operator = body.match(/^([a-z]+):(.+)$/i);
+  if (operator) {
+    const key = operator[1].toLowerCase();
+    const { text: value } = unquote(operator[2]);
+
+    if (key === "is" && IS_ALIASES[foldText(value)]) {
+      return { kind: "is", value: IS_ALIASES[foldText(value)], negated };
+    }
+    if (key === "tag") {
+      return { kind: "tag", value: normalizeTag(value), negated };
+    }
+    if (key === "due") {
+      if (value === "none") return { kind: "due", op: "=", date: null, negated };
+
+      const { op, operand } = parseComparison(value);
+      if (/^\d{4}-\d{2}-\d{2}$/.test(operand)) {
+        return { kind: "due", op, date: operand, negated };
+      }
+    }
+    if (key === "priority" || key === "prio") {
+      const { op, operand } = parseComparison(foldText(value));
+      const priority = parsePriority(operand);
+      if (priority) return { kind: "priority", op, value: priority, negated };
+    }
+  }
+
+  const { text } = unquote(body);
+  const value = foldText(text.trim());
+  return value ? { kind: "text", value, negated } : null;
+};
+
+export function parseSearchQuery(input: string): SearchQuery {
+  const clauses = tokenize(input)
+    .map(parseClause)
+    .filter((clause): clause is SearchClause => clause !== null);
+
+  return {
+    clauses,
+    highlights: clauses.flatMap(clause => (clause.kind === "text" && !clause.negated ? [clause.value] : []))
+  };
+}
+
+// Index plein texte : titre et description repliés, calculés une fois par version des tâches
+export function buildSearchIndex(tasks: Task[]): Map<string, string> {
+  return new Map(tasks.map(task => [task.id, foldText(`${task.title}\n${task.description ?? ""}`)]));
+}
+
+const compare = (a: number, op: Comparison, b: number): boolean => {
+  switch (op) {
+    case "<": return a < b;
+    case "<=": return a <= b;
+    case ">": return a > b;
+    case ">=": return a >= b;
+    default: return a === b;
+  }
+};
+
+const matchesClause = (task: Task, clause: SearchClause, indexedText: string): boolean => {
+  switch (clause.kind) {
+    case "text":
+      return indexedText.includes(clause.value);
+    case "is":
+      if (clause.value === "done") return isCompleted(task);
+      if (clause.value === "todo") return !isCompleted(task);
+      if (clause.value !== "overdue") return task.status === clause.value;
+      return isOverdue(task);
+    case "tag":
+      return task.tags.includes(clause.value);
+    case "priority":
+      return compare(priorityRank(task.priority), clause.op, priorityRank(clause.value));
+    case "due": {
+      if (clause.date === null) return !task.dueDate;
+      if (!task.dueDate) return false;
+      // Les échéances sont stockées à minuit UTC : on compare les jours au format AAAA-MM-JJ
+      const day = task.dueDate.toISOString().slice(0, 10);
+      return compare(day.localeCompare(clause.date), clause.op, 0);
+    }
+  }
+};
+
+export function matchesSearchQuery(query: SearchQuery, index: Map<string, string>): TaskPredicate {
+  if (query.clauses.length === 0) return () => true;
+
+  return task => {
+    const indexedText = index.get(task.id) ?? "";
+    return query.clauses.every(clause => matchesClause(task, clause, indexedText) !== clause.negated);
+  };
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Découpe le texte original en segments surlignés, en comparant sur la version repliée
+export function highlightSegments(text: string, terms: string[]): HighlightSegment[] {
+  if (terms.length === 0 || !text) return [{ text, match: false }];
+
+  // positions[i] : index dans le texte original du caractère replié i
+  let folded = "";
+  const positions: number[] = [];
+  Array.from(text).reduce((offset, char) => {
+    const foldedChar = foldText(char);
+    folded += foldedChar;
+    for (let i = 0; i < foldedChar.length; i++) positions.push(offset);
+    return offset + char.length;
+  }, 0);
+  positions.push(text.length);
+
+  const marked = new Array<boolean>(text.length).fill(false);
+  for (const term of terms) {
+    let from = folded.indexOf(term);
+    while (from !== -1) {
+      const start = positions[from];
+      const end = positions[from + term.length] ?? text.length;
+      for (let i = start; i < end; i++) marked[i] = true;
+      from = folded.indexOf(term, from + term.length);
+    }
+  }
+
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.match === marked[i]) {
+      last.text += text[i];
+    } else {
+      segments.push({ text: text[i], match: marked[i] });
+    }
+  }
+  return segments;
+}
@@ -0,0 +1,130 @@
+import type { MessageKey, Translator } from "../i18n/i18n";
+
+export type ShortcutAction =
+  | "newTask"
+  | "nextTask"
+  | "previousTask"
+  | "toggleTask"
+  | "editTask"
+  | "deleteTask"
+  | "search"
+  | "filterAll"
+  | "filterPending"
+  | "filterCompleted"
+  | "commandPalette"
+  | "shortcutHelp";
+
+// Raccourci = touche précédée de ses modificateurs : "j", "Delete", "Shift+n", "Mod+k" (Mod = Ctrl ou ⌘)
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export const SHORTCUT_ACTIONS: ShortcutAction[] = [
+  "newTask",
+  "nextTask",
+  "previousTask",
+  "toggleTask",
+  "editTask",
+  "deleteTask",
+  "search",
+  "filterAll",
+  "filterPending",
+  "filterCompleted",
+  "commandPalette",
+  "shortcutHelp"
+];
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  newTask: "n",
+  nextTask: "j",
+  previousTask: "k",
+  toggleTask: "x",
+  editTask: "e",
+  deleteTask: "Delete",
+  search: "/",
+  filterAll: "1",
+  filterPending: "2",
+  filterCompleted: "3",
+  commandPalette: "Mod+k",
+  shortcutHelp: "?"
+};
+
+// Déjà pris par annuler / rétablir, ou réservés à la fermeture et à la navigation au clavier
+export const RESERVED_BINDINGS = ["Mod+z", "Mod+Shift+z", "Escape", "Tab", "Shift+Tab", "Enter"];
+
+const MODIFIER_KEYS = ["Control", "Shift", "Alt", "Meta", "AltGraph", "CapsLock"];
+
+// Raccourci correspondant à un appui de touche ; null pour un modificateur seul.
+// Maj n'est noté que pour les lettres et les touches nommées : "?" ou "/" dépendent déjà de la disposition du clavier.
+export function eventToBinding(e: Pick<KeyboardEvent, "key" | "ctrlKey" | "metaKey" | "altKey" | "shiftKey">): string | null {
+  if (!e.key || MODIFIER_KEYS.includes(e.key)) return null;
+
+  const isChar = [...e.key].length === 1;
+  const key = isChar ? e.key.toLowerCase() : e.key;
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push("Mod");
+  if (e.altKey) parts.push("Alt");
+  if (e.shiftKey && (!isChar || key !== e.key)) parts.push("Shift");
+  parts.push(key === " " ? "Space" : key);
+  return parts.join("+");
+}
+
+// Touches dont le nom dépend de la langue (Maj / Shift, Suppr / Del...)
+const KEY_NAMES: Partial<Record<string, MessageKey>> = {
+  Mod: "key.Mod",
+  Shift: "key.Shift",
+  Delete: "key.Delete",
+  Space: "key.Space",
+  Escape: "key.Escape"
+};
+
+const KEY_SYMBOLS: Record<string, string> = {
+  Backspace: "⌫",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→"
+};
+
+// "Mod+k" -> ["Ctrl", "K"], pour l'affichage en <kbd>
+export function formatBinding(binding: string, { t }: Translator): string[] {
+  return binding.split("+").map(part => {
+    const name = KEY_NAMES[part];
+    if (name) return t(name);
+    return KEY_SYMBOLS[part] ?? (part.length === 1 ? part.toUpperCase() : part);
+  });
+}
+
+// Raccourcis enregistrés : valeurs inconnues ou en double remplacées par celles par défaut
+export function normalizeShortcuts(value: unknown): ShortcutBindings {
+  const stored = (value ?? {}) as Partial<Record<ShortcutAction, unknown>>;
+  const bindings = { ...DEFAULT_SHORTCUTS };
+  const used = new Set<string>();
+
+  for (const action of SHORTCUT_ACTIONS) {
+    const binding = stored[action];
+    if (typeof binding === "string" && binding !== "" && !RESERVED_BINDINGS.includes(binding) && !used.has(binding)) {
+      bindings[action] = binding;
+    }
+    used.add(bindings[action]);
+  }
+
+  // Un raccourci par défaut peut entrer en conflit avec un raccourci personnalisé traité plus tôt
+  const seen = new Set<string>();
+  for (const action of SHORTCUT_ACTIONS) {
+    if (seen.has(bindings[action])) bindings[action] = "";
+    seen.add(bindings[action]);
+  }
+  return bindings;
+}
+
+// Nouveau raccourci pour une action : l'action qui l'utilisait reprend l'ancien raccourci
+export function rebindShortcut(bindings: ShortcutBindings, action: ShortcutAction, binding: string): ShortcutBindings {
+  const previous = SHORTCUT_ACTIONS.find(other => other !== action && bindings[other] === binding);
+  return {
+    ...bindings,
+    ...(previous ? { [previous]: bindings[action] } : {}),
+    [action]: binding
+  };
+}
+
+export const findShortcut = (bindings: ShortcutBindings, binding: string): ShortcutAction | undefined =>
+  SHORTCUT_ACTIONS.find(action => bindings[action] === binding);
@@ -0,0 +1,63 @@
+import type { Task, TaskStatus } from "../types/Task";
+
+// Ordre par défaut des colonnes du tableau
+export const TASK_STATUSES: TaskStatus[] = ["todo", "in_progress", "blocked", "done"];
+
+export const STATUS_COLORS: Record<TaskStatus, string> = {
+  todo: "#00d4ff",
+  in_progress: "#b834ff",
+  blocked: "#ff006e",
+  done: "#39ff14"
+};
+
+export const isTaskStatus = (value: unknown): value is TaskStatus =>
+  TASK_STATUSES.includes(value as TaskStatus);
+
+export const isCompleted = (task: Pick<Task, "status">): boolean => task.status === "done";
+
+// Libellés acceptés à l'import, repliés (sans accents, en minuscules), en français ou en anglais
+const STATUS_ALIASES: Record<string, TaskStatus> = {
+  "a faire": "todo",
+  "en cours": "in_progress",
+  bloquee: "blocked",
+  terminee: "done",
+  "to do": "todo",
+  "in progress": "in_progress"
+};
+
+export const parseStatus = (value: string): TaskStatus | null =>
+  STATUS_ALIASES[value] ?? (isTaskStatus(value) ? value : null);
+
+// Colonne du tableau : un statut, avec un libellé et une visibilité réglables
+// (libellé vide : celui de la langue de l'interface)
+export interface BoardColumn {
+  status: TaskStatus;
+  label: string;
+  visible: boolean;
+}
+
+export const DEFAULT_BOARD_COLUMNS: BoardColumn[] = TASK_STATUSES.map(status => ({ status, label: "", visible: true }));
+
+// Anciens libellés par défaut, enregistrés avant la traduction de l'interface
+const LEGACY_COLUMN_LABELS = ["À faire", "En cours", "Bloquées", "Terminées"];
+
+// Réglages relus depuis le stockage : chaque statut apparaît une fois, les manquants sont ajoutés en fin
+export function normalizeBoardColumns(value: unknown): BoardColumn[] {
+  const stored = Array.isArray(value) ? value : [];
+  const columns: BoardColumn[] = [];
+  stored.forEach(item => {
+    const status = (item as Partial<BoardColumn> | null)?.status;
+    if (!isTaskStatus(status) || columns.some(column => column.status === status)) return;
+
+    const { label, visible } = item as Partial<BoardColumn>;
+    columns.push({
+      status,
+      label: typeof label === "string" && !LEGACY_COLUMN_LABELS.includes(label) ? label.trim() : "",
+      visible: visible !== false
+    });
+  });
+  DEFAULT_BOARD_COLUMNS.forEach(column => {
+    if (!columns.some(existing => existing.status === column.status)) columns.push(column);
+  });
+  return columns;
+}
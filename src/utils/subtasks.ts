@@ -0,0 +1,99 @@
+import type { Subtask, Task } from "../types/Task";
+
+// Profondeur maximale proposée dans l'interface (tâche > sous-tâche > sous-sous-tâche)
+export const MAX_SUBTASK_DEPTH = 2;
+
+export interface SubtaskProgress {
+  total: number;
+  completed: number;
+}
+
+export const generateSubtaskId = (): string => {
+  return `subtask_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+};
+
+// Progression cumulée sur tous les niveaux
+export function countSubtasks(subtasks: Subtask[]): SubtaskProgress {
+  return subtasks.reduce(
+    (progress, subtask) => {
+      const nested = countSubtasks(subtask.subtasks);
+      return {
+        total: progress.total + 1 + nested.total,
+        completed: progress.completed + (subtask.completed ? 1 : 0) + nested.completed
+      };
+    },
+    { total: 0, completed: 0 }
+  );
+}
+
+export function hasMatchingSubtask(subtasks: Subtask[], predicate: (subtask: Subtask) => boolean): boolean {
+  return subtasks.some(subtask => predicate(subtask) || hasMatchingSubtask(subtask.subtasks, predicate));
+}
+
+// parentId null : ajout au premier niveau
+export function insertSubtask(subtasks: Subtask[], parentId: string | null, subtask: Subtask): Subtask[] {
+  if (parentId === null) return [...subtasks, subtask];
+
+  return subtasks.map(item =>
+    item.id === parentId
+      ? { ...item, subtasks: [...item.subtasks, subtask] }
+      : { ...item, subtasks: insertSubtask(item.subtasks, parentId, subtask) }
+  );
+}
+
+export function updateSubtask(subtasks: Subtask[], subtaskId: string, update: (subtask: Subtask) => Subtask): Subtask[] {
+  return subtasks.map(item =>
+    item.id === subtaskId
+      ? update(item)
+      : { ...item, subtasks: updateSubtask(item.subtasks, subtaskId, update) }
+  );
+}
+
+export function removeSubtask(subtasks: Subtask[], subtaskId: string): Subtask[] {
+  return subtasks
+    .filter(item => item.id !== subtaskId)
+    .map(item => ({ ...item, subtasks: removeSubtask(item.subtasks, subtaskId) }));
+}
+
+// Déplace une sous-tâche parmi ses sœurs (offset -1 : vers le haut, +1 : vers le bas)
+export function reorderSubtask(subtasks: Subtask[], subtaskId: string, offset: number): Subtask[] {
+  const index = subtasks.findIndex(item => item.id === subtaskId);
+  if (index === -1) {
+    return subtasks.map(item => ({ ...item, subtasks: reorderSubtask(item.subtasks, subtaskId, offset) }));
+  }
+
+  const target = index + offset;
+  if (target < 0 || target >= subtasks.length) return subtasks;
+
+  const reordered = [...subtasks];
+  const [moved] = reordered.splice(index, 1);
+  reordered.splice(target, 0, moved);
+  return reordered;
+}
+
+// Une sous-tâche ayant des enfants est terminée dès que tous ses enfants le sont
+const rollUpSubtasks = (subtasks: Subtask[]): Subtask[] =>
+  subtasks.map(item => {
+    if (item.subtasks.length === 0) return item;
+
+    const children = rollUpSubtasks(item.subtasks);
+    return { ...item, subtasks: children, completed: children.every(child => child.completed) };
+  });
+
+// Applique la complétion automatique si la tâche l'a activée ; une tâche rouverte repart dans "todo"
+export function withRolledUpCompletion(task: Task): Task {
+  if (!task.autoComplete || task.subtasks.length === 0) return task;
+
+  const subtasks = rollUpSubtasks(task.subtasks);
+  const allCompleted = subtasks.every(subtask => subtask.completed);
+  const status = allCompleted ? "done" : task.status === "done" ? "todo" : task.status;
+  return { ...task, subtasks, status };
+}
+
+export function setSubtaskTreeCompletion(subtask: Subtask, completed: boolean): Subtask {
+  return {
+    ...subtask,
+    completed,
+    subtasks: subtask.subtasks.map(child => setSubtaskTreeCompletion(child, completed))
+  };
+}
@@ -0,0 +1,23 @@
+const TAG_PALETTE = ["#00d4ff", "#b834ff", "#ff006e", "#39ff14", "#ff8800", "#f59e0b", "#06b6d4", "#8b5cf6"];
+
+// "#Travail " -> "travail" : les étiquettes sont comparées sans casse ni dièse
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, "").replace(/\s+/g, "-").toLowerCase();
+}
+
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(normalizeTag).filter(Boolean))];
+}
+
+// Couleur stable par défaut, dérivée du nom
+export function defaultTagColor(tag: string): string {
+  let hash = 0;
+  for (const char of tag) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return TAG_PALETTE[Math.abs(hash) % TAG_PALETTE.length];
+}
+
+export function collectTags(taskTags: string[][], compare: (a: string, b: string) => number): string[] {
+  return [...new Set(taskTags.flat())].sort(compare);
+}
@@ -0,0 +1,109 @@
+import type { Subtask, Task } from "../types/Task";
+import { TASKS_SCHEMA_VERSION } from "../storage/taskCodec";
+import { priorityAlias } from "./priority";
+import { isCompleted } from "./status";
+import { toDateInputValue } from "./validation";
+import { toCsv } from "./csv";
+import { toICalendar } from "./icalendar";
+
+export type ExportFormat = "json" | "csv" | "markdown" | "ics" | "icsEvents";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  json: { extension: "json", mimeType: "application/json" },
+  csv: { extension: "csv", mimeType: "text/csv" },
+  markdown: { extension: "md", mimeType: "text/markdown" },
+  ics: { extension: "ics", mimeType: "text/calendar" },
+  icsEvents: { extension: "ics", mimeType: "text/calendar" }
+};
+
+// Colonnes CSV, dans l'ordre d'export ; à l'import elles sont retrouvées par leur nom
+export const CSV_COLUMNS = [
+  "id",
+  "listId",
+  "title",
+  "description",
+  "dueDate",
+  "dueTime",
+  "reminderOffset",
+  "status",
+  "priority",
+  "tags",
+  "createdAt",
+  "updatedAt",
+  "completedAt"
+] as const;
+
+// Même enveloppe { version, tasks } que le stockage : le fichier se relit avec les migrations
+const exportJson = (tasks: Task[]): string =>
+  JSON.stringify({ version: TASKS_SCHEMA_VERSION, exportedAt: new Date().toISOString(), tasks }, null, 2);
+
+const exportCsv = (tasks: Task[]): string =>
+  toCsv([
+    [...CSV_COLUMNS],
+    ...tasks.map(task => [
+      task.id,
+      task.listId,
+      task.title,
+      task.description ?? "",
+      toDateInputValue(task.dueDate),
+      task.dueTime ?? "",
+      task.reminderOffset === undefined ? "" : String(task.reminderOffset),
+      task.status,
+      task.priority,
+      task.tags.join(";"),
+      task.createdAt.toISOString(),
+      task.updatedAt.toISOString(),
+      task.completedAt?.toISOString() ?? ""
+    ])
+  ]);
+
+const checklistItem = (completed: boolean, text: string, depth: number): string =>
+  `${"  ".repeat(depth)}- [${completed ? "x" : " "}] ${text}`;
+
+const subtaskLines = (subtasks: Subtask[], depth: number): string[] =>
+  subtasks.flatMap(subtask => [
+    checklistItem(subtask.completed, subtask.title, depth),
+    ...subtaskLines(subtask.subtasks, depth + 1)
+  ]);
+
+// - [x] Titre 📅 2026-11-01 !haute #travail, sous-tâches indentées et description en citation
+const exportMarkdown = (tasks: Task[]): string => {
+  const lines = tasks.flatMap(task => {
+    const meta = [
+      task.dueDate ? `📅 ${toDateInputValue(task.dueDate)}` : "",
+      task.priority !== "normal" ? `!${priorityAlias(task.priority)}` : "",
+      ...task.tags.map(tag => `#${tag}`)
+    ].filter(Boolean);
+
+    return [
+      checklistItem(isCompleted(task), [task.title, ...meta].join(" "), 0),
+      ...(task.description ?? "").split("\n").filter(Boolean).map(line => `  > ${line}`),
+      ...subtaskLines(task.subtasks, 1)
+    ];
+  });
+  return lines.join("\n") + "\n";
+};
+
+export function exportTasks(tasks: Task[], format: ExportFormat): string {
+  switch (format) {
+    case "json":
+      return exportJson(tasks);
+    case "csv":
+      return exportCsv(tasks);
+    case "markdown":
+      return exportMarkdown(tasks);
+    case "ics":
+      return toICalendar(tasks, "VTODO");
+    case "icsEvents":
+      return toICalendar(tasks, "VEVENT");
+  }
+}
+
+export function downloadTextFile(content: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,73 @@
+import type { Task, TaskCriteria, TaskFilter, TaskPriority, TaskSort } from "../types/Task";
+import { hasMatchingSubtask } from "./subtasks";
+import { priorityRank } from "./priority";
+import { isCompleted } from "./status";
+
+export type TaskPredicate = (task: Task) => boolean;
+
+export const DEFAULT_CRITERIA: TaskCriteria = {
+  status: "all",
+  tags: [],
+  tagMode: "any",
+  minPriority: "low",
+  maxPriority: "urgent",
+  dueFrom: "",
+  dueTo: ""
+};
+
+export const TASK_FILTERS: TaskFilter[] = ["all", "pending", "completed"];
+
+export const TASK_SORTS: TaskSort[] = ["newest", "oldest", "dueDate", "alphabetical", "priority", "manual"];
+
+export const allOf = (...predicates: TaskPredicate[]): TaskPredicate =>
+  task => predicates.every(predicate => predicate(task));
+
+// Une tâche reste visible (avec ses sous-tâches) si elle-même ou l'une de ses sous-tâches correspond
+export function byStatus(status: TaskFilter): TaskPredicate {
+  switch (status) {
+    case "pending":
+      return task => !isCompleted(task) || hasMatchingSubtask(task.subtasks, subtask => !subtask.completed);
+    case "completed":
+      return task => isCompleted(task) || hasMatchingSubtask(task.subtasks, subtask => subtask.completed);
+    default:
+      return () => true;
+  }
+}
+
+export function byTags(tags: string[], mode: TaskCriteria["tagMode"]): TaskPredicate {
+  if (tags.length === 0) return () => true;
+
+  return mode === "all"
+    ? task => tags.every(tag => task.tags.includes(tag))
+    : task => tags.some(tag => task.tags.includes(tag));
+}
+
+export function byPriority(min: TaskPriority, max: TaskPriority): TaskPredicate {
+  const [low, high] = [priorityRank(min), priorityRank(max)].sort((a, b) => a - b);
+  return task => {
+    const rank = priorityRank(task.priority);
+    return rank >= low && rank <= high;
+  };
+}
+
+// Bornes incluses, au format des <input type="date"> ; sans échéance, la tâche est exclue dès qu'une borne est posée
+export function byDueWindow(from: string, to: string): TaskPredicate {
+  if (!from && !to) return () => true;
+
+  const start = from ? new Date(from).getTime() : -Infinity;
+  const end = to ? new Date(to).getTime() : Infinity;
+  return task => {
+    if (!task.dueDate) return false;
+    const due = task.dueDate.getTime();
+    return due >= start && due <= end;
+  };
+}
+
+export function buildTaskPredicate(criteria: TaskCriteria): TaskPredicate {
+  return allOf(
+    byStatus(criteria.status),
+    byTags(criteria.tags, criteria.tagMode),
+    byPriority(criteria.minPriority, criteria.maxPriority),
+    byDueWindow(criteria.dueFrom, criteria.dueTo)
+  );
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { buildImportOperation, parseImportFile, previewImport, type ImportPreview, type ImportRow } from "./taskImport";
+import { getTranslator } from "../i18n/i18n";
+import type { Task, TaskOperation } from "../types/Task";
+import { makeTask } from "../test/fixtures";
+
+const trashed = makeTask({ title: "Arroser les plantes", deletedAt: new Date("2026-10-10T08:00:00.000Z") });
+const imported = { ...trashed, title: "Arroser les plantes du balcon", deletedAt: undefined };
+const rows: ImportRow[] = [{ source: { key: "importExport.source.record", params: { index: 1 } }, task: imported }];
+
+const updatedTask = (operation: TaskOperation | null): Task | undefined =>
+  operation?.type === "batch" && operation.operations[0].type === "update" ? operation.operations[0].after : undefined;
+
+describe("import : tâches de la corbeille", () => {
+  it("signale un identifiant déjà pris par une tâche de la corbeille au lieu de la recréer", () => {
+    const preview = previewImport(rows, [trashed]);
+
+    expect(preview.rows[0]).toMatchObject({ status: "trashed", existing: trashed });
+    expect(preview.counts).toEqual({ new: 0, duplicate: 0, trashed: 1, invalid: 0 });
+  });
+
+  it("préfère la tâche hors corbeille à titre et échéance égaux", () => {
+    const live = makeTask({ title: trashed.title });
+    const preview = previewImport([{ source: { key: "importExport.source.line", params: { line: 2 } }, task: makeTask({ title: trashed.title }) }], [trashed, live]);
+
+    expect(preview.rows[0]).toMatchObject({ status: "duplicate", existing: live });
+  });
+
+  it("restaure, remplace ou laisse à la corbeille selon le choix", () => {
+    const preview = previewImport(rows, [trashed]);
+
+    const restored = updatedTask(buildImportOperation(preview, { duplicate: "skip", trashed: "restore" }));
+    expect(restored).toMatchObject({ id: trashed.id, title: trashed.title, deletedAt: undefined });
+
+    const replaced = updatedTask(buildImportOperation(preview, { duplicate: "skip", trashed: "replace" }));
+    expect(replaced).toMatchObject({ id: trashed.id, title: imported.title, deletedAt: undefined });
+
+    expect(buildImportOperation(preview, { duplicate: "merge", trashed: "skip" })).toBeNull();
+  });
+});
+
+describe("import : fusion d'un doublon", () => {
+  const existing = makeTask({ title: "Dentiste", dueDate: new Date("2026-10-20T00:00:00.000Z"), dueTime: "09:00", reminderOffset: 15, estimateMinutes: 30 });
+  const merge = (changes: Partial<Task>) =>
+    updatedTask(buildImportOperation(previewImport([{ source: { key: "importExport.source.line", params: { line: 2 } }, task: { ...existing, ...changes } }], [existing]), {
+      duplicate: "merge",
+      trashed: "skip"
+    }));
+
+  it("reprend l'heure d'échéance, le rappel et l'estimation du fichier", () => {
+    expect(merge({ dueTime: "14:30", reminderOffset: 60, estimateMinutes: 90 })).toMatchObject({
+      dueTime: "14:30",
+      reminderOffset: 60,
+      estimateMinutes: 90
+    });
+  });
+
+  it("garde l'heure, le rappel et l'estimation existants quand le fichier n'en donne pas", () => {
+    expect(merge({ dueTime: undefined, reminderOffset: undefined, estimateMinutes: undefined })).toMatchObject({
+      dueTime: "09:00",
+      reminderOffset: 15,
+      estimateMinutes: 30
+    });
+  });
+});
+
+describe("import : messages de l'aperçu", () => {
+  const { t } = getTranslator("en");
+  const describeRows = (preview: ImportPreview) =>
+    preview.rows.map(row => [t(row.source.key, row.source.params), row.reason && t(row.reason.key, row.reason.params)]);
+
+  it("traduit la source et la raison de chaque ligne dans la langue de l'interface", () => {
+    const markdown = previewImport(parseImportFile("- [ ] Courses\n- [ ] courses\nBonjour", "markdown"), []);
+    expect(describeRows(markdown)).toEqual([
+      ["line 1", undefined],
+      ["line 2", "duplicate of an earlier line in the file"],
+      ["line 3", "unrecognized line (a “- [ ]” checkbox is expected)"]
+    ]);
+
+    const csv = previewImport(parseImportFile("title,priority\nCourses,énorme", "csv"), []);
+    expect(describeRows(csv)).toEqual([["line 2", "invalid priority: énorme"]]);
+
+    expect(describeRows(previewImport(parseImportFile("{", "json"), []))).toEqual([["file", "unreadable JSON"]]);
+    expect(describeRows(previewImport(rows, [trashed]))).toEqual([["#1", "same identifier"]]);
+  });
+});
@@ -0,0 +1,367 @@
+import type { Subtask, Task, TaskOperation, TaskPriority, TaskStatus } from "../types/Task";
+import { TASKS_SCHEMA_VERSION, TaskCodecError, codecErrorMessage, migrateRecord, readEnvelope, reviveTask } from "../storage/taskCodec";
+import type { LocalizedMessage } from "../i18n/i18n";
+import type { ExportFormat } from "./taskExport";
+import { parseCsv } from "./csv";
+import { parseICalendar } from "./icalendar";
+import { foldText } from "./search";
+import { parsePriority } from "./priority";
+import { parseStatus } from "./status";
+import { MAX_SUBTASK_DEPTH, generateSubtaskId } from "./subtasks";
+import { normalizeTags } from "./tags";
+import { generateTaskId } from "./taskOperations";
+import { toDateInputValue } from "./validation";
+import { DEFAULT_LIST_ID } from "./lists";
+import { isTrashed } from "./trash";
+
+// Une ligne (CSV, Markdown) ou un enregistrement (JSON) du fichier importé ; source et erreur sont traduites à l'affichage
+export interface ImportRow {
+  source: LocalizedMessage;
+  task?: Task;
+  error?: LocalizedMessage;
+}
+
+// "trashed" : doublon d'une tâche de la corbeille, traité à part pour ne pas la recréer à côté
+export type ImportRowStatus = "new" | "duplicate" | "trashed" | "invalid";
+
+export interface ImportPreviewRow {
+  source: LocalizedMessage;
+  status: ImportRowStatus;
+  task?: Task;
+  existing?: Task;
+  reason?: LocalizedMessage;
+}
+
+export interface ImportPreview {
+  rows: ImportPreviewRow[];
+  counts: Record<ImportRowStatus, number>;
+}
+
+export type DuplicateStrategy = "merge" | "replace" | "skip";
+// Tâche de la corbeille : restaurée telle quelle, remplacée par la tâche importée, ou laissée à la corbeille
+export type TrashedStrategy = "restore" | "replace" | "skip";
+
+export interface ImportStrategies {
+  duplicate: DuplicateStrategy;
+  trashed: TrashedStrategy;
+}
+
+export function detectImportFormat(fileName: string, content: string): ExportFormat {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "json") return "json";
+  if (extension === "csv") return "csv";
+  if (extension === "md" || extension === "markdown") return "markdown";
+  if (extension === "ics" || extension === "ical") return "ics";
+
+  const start = content.trimStart();
+  if (start.toUpperCase().startsWith("BEGIN:VCALENDAR")) return "ics";
+  return start.startsWith("{") || start.startsWith("[") ? "json" : /^[-*+] \[/m.test(content) ? "markdown" : "csv";
+}
+
+const FILE_SOURCE: LocalizedMessage = { key: "importExport.source.file" };
+const lineSource = (line: number): LocalizedMessage => ({ key: "importExport.source.line", params: { line } });
+
+const parseJson = (content: string): ImportRow[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return [{ source: FILE_SOURCE, error: { key: "importExport.error.unreadableJson" } }];
+  }
+
+  const envelope = readEnvelope(parsed);
+  if (!envelope) {
+    return [{ source: FILE_SOURCE, error: { key: "importExport.error.unknownFormat" } }];
+  }
+  if (envelope.version > TASKS_SCHEMA_VERSION) {
+    return [{ source: FILE_SOURCE, error: { key: "importExport.error.newerVersion", params: { version: envelope.version } } }];
+  }
+
+  return envelope.tasks.map((record, index) => {
+    const source: LocalizedMessage = { key: "importExport.source.record", params: { index: index + 1 } };
+    try {
+      return { source, task: reviveTask(migrateRecord(record, envelope.version)) };
+    } catch (error) {
+      return { source, error: codecErrorMessage(error) };
+    }
+  });
+};
+
+// Priorité par sa clé ("high") ou son libellé ("Haute", "haute")
+const readPriority = (value: string): TaskPriority | undefined => {
+  const folded = foldText(value.trim());
+  if (!folded) return "normal";
+  return parsePriority(folded) ?? undefined;
+};
+
+const parseBoolean = (value: string): boolean => {
+  const folded = foldText(value.trim());
+  if (["true", "1", "oui", "yes", "x"].includes(folded)) return true;
+  if (["false", "0", "non", "no", ""].includes(folded)) return false;
+  throw new TaskCodecError("codec.invalidCompleted", { value });
+};
+
+// Statut par sa clé ("in_progress") ou son libellé ("En cours") ; l'ancienne colonne booléenne "completed" est encore lue
+const readStatus = (status: string, completed: string): TaskStatus => {
+  const folded = foldText(status.trim());
+  if (!folded) return parseBoolean(completed) ? "done" : "todo";
+
+  const parsed = parseStatus(folded);
+  if (!parsed) throw new TaskCodecError("codec.invalidStatus", { value: status });
+  return parsed;
+};
+
+const parseCsvRows = (content: string): ImportRow[] => {
+  const [header, ...records] = parseCsv(content);
+  if (!header) return [];
+
+  const columns = header.map(name => name.trim());
+  if (!columns.includes("title")) {
+    return [{ source: lineSource(1), error: { key: "importExport.error.missingTitleColumn" } }];
+  }
+
+  const now = new Date().toISOString();
+  return records.map((values, index) => {
+    const source = lineSource(index + 2);
+    const field = (name: string): string => values[columns.indexOf(name)]?.trim() ?? "";
+
+    try {
+      const priority = readPriority(field("priority"));
+      if (!priority) throw new TaskCodecError("codec.invalidPriority", { value: field("priority") });
+
+      const task = reviveTask({
+        id: field("id") || generateTaskId(),
+        listId: field("listId") || DEFAULT_LIST_ID,
+        title: field("title"),
+        description: field("description") || undefined,
+        dueDate: field("dueDate") || undefined,
+        dueTime: field("dueTime") || undefined,
+        reminderOffset: field("reminderOffset") === "" ? undefined : Number(field("reminderOffset")),
+        status: readStatus(field("status"), field("completed")),
+        priority,
+        tags: normalizeTags(field("tags").split(/[;,]/)),
+        subtasks: [],
+        createdAt: field("createdAt") || now,
+        updatedAt: field("updatedAt") || field("createdAt") || now,
+        completedAt: field("completedAt") || undefined
+      });
+      return { source, task };
+    } catch (error) {
+      return { source, error: codecErrorMessage(error) };
+    }
+  });
+};
+
+const CHECKLIST_ITEM = /^(\s*)[-*+] \[([ xX])\] (.*)$/;
+const DUE_DATE_TOKEN = /(?:^|\s)📅\s*(\d{4}-\d{2}-\d{2})(?=\s|$)/u;
+const PRIORITY_TOKEN = /(?:^|\s)!(\p{L}+)(?=\s|$)/u;
+const TAG_TOKEN = /(?:^|\s)#([\p{L}\p{N}_-]+)(?=\s|$)/gu;
+
+interface MarkdownDraft {
+  line: number;
+  text: string;
+  completed: boolean;
+  description: string[];
+  subtasks: Subtask[];
+  // levels[n] : liste où ajouter une sous-tâche de profondeur n + 1
+  levels: Subtask[][];
+}
+
+// Reprend la syntaxe de l'export : "Titre 📅 2026-11-01 !haute #travail"
+const reviveMarkdownTask = (draft: MarkdownDraft): Task => {
+  let text = draft.text;
+  let dueDate: string | undefined;
+  let priority: TaskPriority = "normal";
+
+  const due = text.match(DUE_DATE_TOKEN);
+  if (due) {
+    dueDate = due[1];
+    text = text.replace(due[0], "");
+  }
+
+  const priorityMatch = text.match(PRIORITY_TOKEN);
+  const parsedPriority = priorityMatch && readPriority(priorityMatch[1]);
+  if (priorityMatch && parsedPriority) {
+    priority = parsedPriority;
+    text = text.replace(priorityMatch[0], "");
+  }
+
+  const tags = [...text.matchAll(TAG_TOKEN)].map(match => match[1]);
+  text = text.replace(TAG_TOKEN, "");
+
+  const now = new Date();
+  return reviveTask({
+    id: generateTaskId(),
+    listId: DEFAULT_LIST_ID,
+    title: text.trim(),
+    description: draft.description.join("\n") || undefined,
+    dueDate,
+    status: draft.completed ? "done" : "todo",
+    priority,
+    tags: normalizeTags(tags),
+    subtasks: draft.subtasks,
+    createdAt: now,
+    updatedAt: now
+  });
+};
+
+const parseMarkdown = (content: string): ImportRow[] => {
+  const rows: ImportRow[] = [];
+  const drafts: MarkdownDraft[] = [];
+  let current: MarkdownDraft | undefined;
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const lineNumber = index + 1;
+    const source = lineSource(lineNumber);
+    if (!line.trim() || /^#{1,6}\s/.test(line)) return;
+
+    const item = line.match(CHECKLIST_ITEM);
+    if (!item) {
+      const quote = line.match(/^\s+> ?(.*)$/);
+      if (quote && current) {
+        current.description.push(quote[1]);
+      } else {
+        rows.push({ source, error: { key: "importExport.error.unrecognizedLine" } });
+      }
+      return;
+    }
+
+    const depth = Math.floor(item[1].replace(/\t/g, "  ").length / 2);
+    const completed = item[2] !== " ";
+
+    if (depth === 0) {
+      current = { line: lineNumber, text: item[3], completed, description: [], subtasks: [], levels: [] };
+      current.levels = [current.subtasks];
+      drafts.push(current);
+      return;
+    }
+    if (!current) {
+      rows.push({ source, error: { key: "importExport.error.orphanSubtask" } });
+      return;
+    }
+
+    // Au-delà de la profondeur maximale, les éléments sont rattachés au dernier niveau
+    const level = Math.min(depth, current.levels.length, MAX_SUBTASK_DEPTH);
+    const subtask: Subtask = { id: generateSubtaskId(), title: item[3].trim(), completed, subtasks: [] };
+    current.levels[level - 1].push(subtask);
+    current.levels.length = level;
+    current.levels.push(subtask.subtasks);
+  });
+
+  drafts.forEach(draft => {
+    try {
+      rows.push({ source: lineSource(draft.line), task: reviveMarkdownTask(draft) });
+    } catch (error) {
+      rows.push({ source: lineSource(draft.line), error: codecErrorMessage(error) });
+    }
+  });
+
+  return rows.sort((a, b) => Number(a.source.params?.line) - Number(b.source.params?.line));
+};
+
+export function parseImportFile(content: string, format: ExportFormat): ImportRow[] {
+  switch (format) {
+    case "json":
+      return parseJson(content);
+    case "csv":
+      return parseCsvRows(content);
+    case "markdown":
+      return parseMarkdown(content);
+    case "ics":
+    case "icsEvents":
+      return parseICalendar(content);
+  }
+}
+
+// Doublon : même identifiant, ou même titre (sans casse ni accents) et même échéance
+const duplicateKey = (task: Task): string => `${foldText(task.title.trim())}|${toDateInputValue(task.dueDate)}`;
+
+// existingTasks comprend la corbeille et l'archive : un identifiant déjà pris n'est jamais "nouveau"
+export function previewImport(rows: ImportRow[], existingTasks: Task[]): ImportPreview {
+  const byId = new Map(existingTasks.map(task => [task.id, task]));
+  // À titre et échéance égaux, la tâche hors corbeille l'emporte
+  const byKey = new Map([...existingTasks.filter(isTrashed), ...existingTasks.filter(task => !isTrashed(task))]
+    .map(task => [duplicateKey(task), task]));
+  const seenIds = new Set<string>();
+  const seenKeys = new Set<string>();
+
+  const previewRows = rows.map((row): ImportPreviewRow => {
+    const { source, task } = row;
+    if (!task) return { source, status: "invalid", reason: row.error };
+
+    const key = duplicateKey(task);
+    if (seenIds.has(task.id) || seenKeys.has(key)) {
+      return { source, status: "invalid", task, reason: { key: "importExport.reason.duplicateInFile" } };
+    }
+    seenIds.add(task.id);
+    seenKeys.add(key);
+
+    const existing = byId.get(task.id) ?? byKey.get(key);
+    if (!existing) return { source, status: "new", task };
+    return {
+      source,
+      status: isTrashed(existing) ? "trashed" : "duplicate",
+      task,
+      existing,
+      reason: { key: byId.has(task.id) ? "importExport.reason.sameId" : "importExport.reason.sameTitleAndDue" }
+    };
+  });
+
+  const counts: Record<ImportRowStatus, number> = { new: 0, duplicate: 0, trashed: 0, invalid: 0 };
+  previewRows.forEach(row => counts[row.status]++);
+  return { rows: previewRows, counts };
+}
+
+// Fusion : les valeurs importées l'emportent, les champs absents et les étiquettes existantes sont conservés
+const mergeTasks = (existing: Task, imported: Task, now: Date): Task => ({
+  ...existing,
+  title: imported.title,
+  description: imported.description ?? existing.description,
+  dueDate: imported.dueDate ?? existing.dueDate,
+  dueTime: imported.dueTime ?? existing.dueTime,
+  reminderOffset: imported.reminderOffset ?? existing.reminderOffset,
+  estimateMinutes: imported.estimateMinutes ?? existing.estimateMinutes,
+  status: imported.status,
+  completedAt: imported.completedAt,
+  priority: imported.priority,
+  tags: normalizeTags([...existing.tags, ...imported.tags]),
+  subtasks: imported.subtasks.length > 0 ? imported.subtasks : existing.subtasks,
+  updatedAt: now
+});
+
+// Remplacement : la tâche importée reprend l'identifiant, la liste et la date de création de l'existante
+const replaceTask = (existing: Task, imported: Task, now: Date): Task => ({
+  ...imported,
+  id: existing.id,
+  listId: existing.listId,
+  createdAt: existing.createdAt,
+  deletedAt: undefined,
+  updatedAt: now
+});
+
+const importedVersion = (existing: Task, imported: Task, status: ImportRowStatus, strategies: ImportStrategies, now: Date): Task | null => {
+  if (status === "trashed") {
+    if (strategies.trashed === "skip") return null;
+    return strategies.trashed === "restore"
+      ? { ...existing, deletedAt: undefined, updatedAt: now }
+      : replaceTask(existing, imported, now);
+  }
+  if (strategies.duplicate === "skip") return null;
+  return strategies.duplicate === "merge" ? mergeTasks(existing, imported, now) : replaceTask(existing, imported, now);
+};
+
+// Une seule opération pour tout l'import : une écriture, et un seul "Annuler".
+// Avec listId, les nouvelles tâches rejoignent cette liste ; les doublons restent dans la leur
+export function buildImportOperation(preview: ImportPreview, strategies: ImportStrategies, listId?: string): TaskOperation | null {
+  const now = new Date();
+  const operations = preview.rows.flatMap((row): TaskOperation[] => {
+    if (!row.task) return [];
+    if (row.status === "new") return [{ type: "create", task: listId ? { ...row.task, listId } : row.task }];
+    if (!row.existing) return [];
+
+    const after = importedVersion(row.existing, row.task, row.status, strategies, now);
+    return after ? [{ type: "update", before: row.existing, after }] : [];
+  });
+
+  return operations.length > 0 ? { type: "batch", operations } : null;
+}
@@ -0,0 +1,112 @@
+import type { Task, TaskOperation } from "../types/Task";
+import type { TaskChanges } from "../storage/TaskRepository";
+
+export const generateTaskId = (): string => {
+  return `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};
+
+export function invertOperation(operation: TaskOperation): TaskOperation {
+  switch (operation.type) {
+    case "create":
+      return { type: "delete", task: operation.task };
+    case "delete":
+      return { type: "create", task: operation.task };
+    case "update":
+      return { type: "update", before: operation.after, after: operation.before };
+    case "batch":
+      return { type: "batch", operations: [...operation.operations].reverse().map(invertOperation) };
+  }
+}
+
+export function applyOperationToTasks(tasks: Task[], operation: TaskOperation): Task[] {
+  switch (operation.type) {
+    case "create":
+      return tasks.some(task => task.id === operation.task.id) ? tasks : [...tasks, operation.task];
+    case "delete":
+      return tasks.filter(task => task.id !== operation.task.id);
+    case "update":
+      return tasks.map(task => (task.id === operation.after.id ? operation.after : task));
+    case "batch":
+      return operation.operations.reduce(applyOperationToTasks, tasks);
+  }
+}
+
+export function operationChanges(operation: TaskOperation): TaskChanges {
+  switch (operation.type) {
+    case "create":
+      return { put: [operation.task], delete: [] };
+    case "delete":
+      return { put: [], delete: [operation.task.id] };
+    case "update":
+      return { put: [operation.after], delete: [] };
+    case "batch": {
+      // Seul le dernier état de chaque tâche est écrit
+      const finalStates = new Map<string, Task | null>();
+      operation.operations.map(operationChanges).forEach(changes => {
+        changes.put.forEach(task => finalStates.set(task.id, task));
+        changes.delete.forEach(id => finalStates.set(id, null));
+      });
+      const entries = [...finalStates.entries()];
+      return {
+        put: entries.flatMap(([, task]) => (task ? [task] : [])),
+        delete: entries.flatMap(([id, task]) => (task ? [] : [id]))
+      };
+    }
+  }
+}
+
+// Identifiants des tâches créées ou modifiées par l'opération
+export function operationTaskIds(operation: TaskOperation): string[] {
+  return operationChanges(operation).put.map(task => task.id);
+}
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// Départage identique dans tous les onglets : la plus récente, puis la plus grande valeur JSON
+const remoteWins = (remoteTime: number, remoteValue: unknown, localTime: number, localValue: unknown): boolean =>
+  remoteTime > localTime ||
+  (remoteTime === localTime && (JSON.stringify(remoteValue) ?? "null") > (JSON.stringify(localValue) ?? "null"));
+
+// Seuls les champs modifiés par l'autre onglet sont appliqués : des éditions simultanées
+// de champs différents sont toutes conservées
+const mergeRemoteUpdate = (local: Task, before: Task, after: Task): Task => {
+  const merged: Record<string, unknown> = { ...local };
+  const localFields = local as unknown as Record<string, unknown>;
+  const beforeFields = before as unknown as Record<string, unknown>;
+  const afterFields = after as unknown as Record<string, unknown>;
+  const remoteTime = after.updatedAt.getTime();
+  const localTime = local.updatedAt.getTime();
+
+  new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]).forEach(field => {
+    if (field === "id" || field === "updatedAt" || sameValue(beforeFields[field], afterFields[field])) return;
+
+    const unchangedLocally = sameValue(localFields[field], beforeFields[field]);
+    if (unchangedLocally || remoteWins(remoteTime, afterFields[field], localTime, localFields[field])) {
+      merged[field] = afterFields[field];
+    }
+  });
+
+  return { ...(merged as unknown as Task), updatedAt: new Date(Math.max(remoteTime, localTime)) };
+};
+
+// Applique une opération reçue d'un autre onglet ; le résultat ne dépend pas de l'ordre
+// dans lequel les onglets ont fait leurs modifications concurrentes
+export function mergeRemoteOperation(tasks: Task[], operation: TaskOperation): Task[] {
+  switch (operation.type) {
+    case "create": {
+      const local = tasks.find(task => task.id === operation.task.id);
+      if (!local) return [...tasks, operation.task];
+      const remote = operation.task;
+      return remoteWins(remote.updatedAt.getTime(), remote, local.updatedAt.getTime(), local)
+        ? tasks.map(task => (task.id === remote.id ? remote : task))
+        : tasks;
+    }
+    case "delete":
+      return tasks.filter(task => task.id !== operation.task.id);
+    case "update":
+      // Une tâche supprimée ici n'est pas recréée par une modification concurrente
+      return tasks.map(task => (task.id === operation.after.id ? mergeRemoteUpdate(task, operation.before, operation.after) : task));
+    case "batch":
+      return operation.operations.reduce(mergeRemoteOperation, tasks);
+  }
+}
@@ -0,0 +1,36 @@
+import type { Task, TaskStats, TaskStatus } from "../types/Task";
+import { countSubtasks } from "./subtasks";
+import { TASK_STATUSES, isCompleted } from "./status";
+import { isDueThisWeek, isDueToday, isOverdue } from "./dueDates";
+
+// Compteurs d'un ensemble de tâches (une liste ou toutes)
+export function computeTaskStats(tasks: Task[], now: Date): TaskStats {
+  const completed = tasks.filter(isCompleted).length;
+  const byStatus = Object.fromEntries(TASK_STATUSES.map(status => [status, 0])) as Record<TaskStatus, number>;
+  tasks.forEach(task => byStatus[task.status]++);
+  const subtasks = tasks.reduce(
+    (progress, task) => {
+      const taskProgress = countSubtasks(task.subtasks);
+      return {
+        total: progress.total + taskProgress.total,
+        completed: progress.completed + taskProgress.completed
+      };
+    },
+    { total: 0, completed: 0 }
+  );
+  const byTag: Record<string, number> = {};
+  tasks.forEach(task => task.tags.forEach(tag => {
+    byTag[tag] = (byTag[tag] ?? 0) + 1;
+  }));
+  return {
+    total: tasks.length,
+    completed,
+    pending: tasks.length - completed,
+    byStatus,
+    subtasks,
+    byTag,
+    overdue: tasks.filter(task => isOverdue(task, now)).length,
+    dueToday: tasks.filter(task => isDueToday(task, now)).length,
+    dueThisWeek: tasks.filter(task => isDueThisWeek(task, now)).length
+  };
+}
@@ -0,0 +1,115 @@
+import type { Task, TimeEntry } from "../types/Task";
+import type { Translator } from "../i18n/i18n";
+import { toCsv } from "./csv";
+import { todayKey } from "./calendar";
+
+const MINUTE_MS = 60_000;
+
+// Chronomètre en cours : seule son heure de départ est enregistrée, il survit donc au rechargement
+export interface RunningTimer {
+  taskId: string;
+  startedAt: Date;
+}
+
+export type TimeEntryData = Omit<TimeEntry, "id">;
+
+export const generateTimeEntryId = (): string => {
+  return `time_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+};
+
+export const entryDuration = (entry: Pick<TimeEntry, "start" | "end">): number =>
+  Math.max(0, entry.end.getTime() - entry.start.getTime());
+
+export const sortTimeEntries = (entries: TimeEntry[]): TimeEntry[] =>
+  [...entries].sort((a, b) => a.start.getTime() - b.start.getTime());
+
+// Entrées de la tâche, plus le chronomètre en cours s'il la concerne
+const entriesWithRunning = (task: Task, running: RunningTimer | null, now: Date): TimeEntryData[] => {
+  const entries: TimeEntryData[] = task.timeEntries ?? [];
+  return running?.taskId === task.id ? [...entries, { start: running.startedAt, end: now }] : entries;
+};
+
+// Temps passé sur la tâche, en millisecondes
+export const trackedTime = (task: Task, running: RunningTimer | null = null, now: Date = new Date()): number =>
+  entriesWithRunning(task, running, now).reduce((total, entry) => total + entryDuration(entry), 0);
+
+export const isOverEstimate = (task: Task, tracked: number): boolean =>
+  task.estimateMinutes !== undefined && tracked > task.estimateMinutes * MINUTE_MS;
+
+// "1h30", "1 h 30", "1:30", "1,5 h", "90", "90 min" -> minutes ; null si illisible ou nul
+export function parseDuration(value: string): number | null {
+  const text = value.trim().toLowerCase().replace(",", ".");
+  const clock = /^(\d+):([0-5]\d)$/.exec(text);
+  const units = /^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*(?:min|mn|m)?)?$/.exec(text);
+
+  const minutes = clock
+    ? Number(clock[1]) * 60 + Number(clock[2])
+    : units && text
+      ? Math.round(Number(units[1] ?? 0) * 60 + Number(units[2] ?? 0))
+      : 0;
+  return minutes > 0 ? minutes : null;
+}
+
+// Valeur relue par parseDuration : "45min", "2h", "1h05"
+export function durationInputValue(minutes?: number): string {
+  if (minutes === undefined) return "";
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}min`;
+  return rest === 0 ? `${hours}h` : `${hours}h${String(rest).padStart(2, "0")}`;
+}
+
+// "45 min", "2 h 05"
+export function formatTrackedTime(ms: number, { t }: Translator): string {
+  const minutes = Math.floor(ms / MINUTE_MS);
+  const hours = Math.floor(minutes / 60);
+  return hours === 0
+    ? t("time.minutes", { minutes })
+    : t("time.hoursMinutes", { hours, minutes: String(minutes % 60).padStart(2, "0") });
+}
+
+// Chronomètre : "0:07:42"
+export function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${Math.floor(seconds / 3600)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+}
+
+// Temps par jour (heure locale), une entrée à cheval sur minuit étant répartie entre les deux jours
+export function dailyTotals(tasks: Task[], running: RunningTimer | null, now: Date): Map<string, number> {
+  const totals = new Map<string, number>();
+
+  for (const task of tasks) {
+    for (const entry of entriesWithRunning(task, running, now)) {
+      let cursor = entry.start;
+      while (cursor < entry.end) {
+        const midnight = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + 1);
+        const sliceEnd = entry.end < midnight ? entry.end : midnight;
+        const day = todayKey(cursor);
+        totals.set(day, (totals.get(day) ?? 0) + sliceEnd.getTime() - cursor.getTime());
+        cursor = sliceEnd;
+      }
+    }
+  }
+  return totals;
+}
+
+export const TIME_CSV_COLUMNS = ["date", "start", "end", "minutes", "taskId", "title", "listId", "note"] as const;
+
+// Une ligne par entrée, dans l'ordre chronologique ; le chronomètre en cours n'est pas exporté
+export function exportTimeEntries(tasks: Task[]): string {
+  const rows = tasks
+    .flatMap(task => (task.timeEntries ?? []).map(entry => ({ task, entry })))
+    .sort((a, b) => a.entry.start.getTime() - b.entry.start.getTime())
+    .map(({ task, entry }) => [
+      todayKey(entry.start),
+      entry.start.toISOString(),
+      entry.end.toISOString(),
+      String(Math.round(entryDuration(entry) / MINUTE_MS)),
+      task.id,
+      task.title,
+      task.listId,
+      entry.note ?? ""
+    ]);
+  return toCsv([[...TIME_CSV_COLUMNS], ...rows]);
+}
@@ -0,0 +1,58 @@
+import type { Task, TaskOperation } from "../types/Task";
+import { isCompleted } from "./status";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Durées de conservation, en jours ; 0 = jamais
+export interface HousekeepingSettings {
+  trashRetentionDays: number;
+  archiveAfterDays: number;
+}
+
+export const DEFAULT_HOUSEKEEPING: HousekeepingSettings = {
+  trashRetentionDays: 30,
+  archiveAfterDays: 14
+};
+
+export const isTrashed = (task: Task): boolean => task.deletedAt !== undefined;
+
+export const isArchived = (task: Task): boolean => !isTrashed(task) && task.archivedAt !== undefined;
+
+// Tâche ni dans la corbeille ni archivée : listes, tableau, calendrier et compteurs
+export const isLive = (task: Task): boolean => task.deletedAt === undefined && task.archivedAt === undefined;
+
+const isDays = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+export function normalizeHousekeeping(value: unknown): HousekeepingSettings {
+  const settings = (value ?? {}) as Partial<Record<keyof HousekeepingSettings, unknown>>;
+  return {
+    trashRetentionDays: isDays(settings.trashRetentionDays) ? settings.trashRetentionDays : DEFAULT_HOUSEKEEPING.trashRetentionDays,
+    archiveAfterDays: isDays(settings.archiveAfterDays) ? settings.archiveAfterDays : DEFAULT_HOUSEKEEPING.archiveAfterDays
+  };
+}
+
+// Jours restants avant la purge automatique d'une tâche de la corbeille
+export function daysBeforePurge(task: Task, now: Date, { trashRetentionDays }: HousekeepingSettings): number | null {
+  if (!task.deletedAt || trashRetentionDays === 0) return null;
+  return Math.max(0, Math.ceil((task.deletedAt.getTime() + trashRetentionDays * DAY_MS - now.getTime()) / DAY_MS));
+}
+
+// Entretien automatique : purge de la corbeille expirée et archivage des tâches terminées depuis longtemps.
+// Le délai d'archivage part de la dernière modification : une tâche désarchivée ou retouchée repart pour un délai complet.
+export function housekeepingOperation(tasks: Task[], now: Date, settings: HousekeepingSettings): TaskOperation | null {
+  const { trashRetentionDays, archiveAfterDays } = settings;
+  const olderThan = (date: Date, days: number) => days > 0 && now.getTime() - date.getTime() >= days * DAY_MS;
+
+  const operations: TaskOperation[] = tasks.flatMap((task): TaskOperation[] => {
+    if (task.deletedAt) {
+      return olderThan(task.deletedAt, trashRetentionDays) ? [{ type: "delete", task }] : [];
+    }
+    if (!task.archivedAt && isCompleted(task) && olderThan(task.updatedAt, archiveAfterDays)) {
+      return [{ type: "update", before: task, after: { ...task, archivedAt: now, updatedAt: now } }];
+    }
+    return [];
+  });
+
+  if (operations.length === 0) return null;
+  return operations.length === 1 ? operations[0] : { type: "batch", operations };
+}
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { validateTaskForm } from "./validation";
+import { getTranslator } from "../i18n/i18n";
+import type { TaskFormData } from "../types/Task";
+
+const translator = getTranslator("fr");
+const form = (changes: Partial<TaskFormData>): TaskFormData => ({
+  title: "Préparer le dossier",
+  description: "",
+  dueDate: "",
+  dueTime: "",
+  priority: "normal",
+  tags: [],
+  ...changes
+});
+
+// À l'ouest de Greenwich, minuit UTC tombe la veille au soir : l'échéance du jour ne doit pas passer pour la veille
+describe("validateTaskForm (fuseau America/New_York)", () => {
+  beforeEach(() => {
+    vi.stubEnv("TZ", "America/New_York");
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("accepte aujourd'hui et refuse hier, le matin comme le soir", () => {
+    for (const now of ["2026-10-18T09:00:00-04:00", "2026-10-18T23:30:00-04:00"]) {
+      vi.useFakeTimers({ now: new Date(now) });
+
+      expect(validateTaskForm(form({ dueDate: "2026-10-18" }), translator).dueDate).toBeUndefined();
+      expect(validateTaskForm(form({ dueDate: "2026-10-17" }), translator).dueDate).toBeDefined();
+    }
+  });
+
+  it("accepte une fin de répétition le jour même de l'échéance", () => {
+    vi.useFakeTimers({ now: new Date("2026-10-18T09:00:00-04:00") });
+    const recurrence = { frequency: "daily" as const, interval: 1, weekdays: [] };
+
+    const sameDay = form({ dueDate: "2026-10-20", recurrence: { ...recurrence, until: new Date("2026-10-20T00:00:00.000Z") } });
+    const dayBefore = form({ dueDate: "2026-10-20", recurrence: { ...recurrence, until: new Date("2026-10-19T00:00:00.000Z") } });
+
+    expect(validateTaskForm(sameDay, translator).recurrence).toBeUndefined();
+    expect(validateTaskForm(dayBefore, translator).recurrence).toBeDefined();
+  });
+});
@@ -0,0 +1,63 @@
+import type { TaskFormData } from "../types/Task";
+import type { Translator } from "../i18n/i18n";
+import { parseDuration } from "./timeTracking";
+import { dayKeyOf, dayKeyToDate, todayKey } from "./calendar";
+
+export type TaskFormErrors = Partial<Record<keyof TaskFormData, string>>;
+
+interface ValidationOptions {
+  // En édition, une échéance déjà passée reste acceptée tant qu'elle n'est pas modifiée
+  previousDueDate?: string;
+}
+
+const MIN_TITLE_LENGTH = 3;
+
+export function validateTaskForm(data: TaskFormData, { t, formatDate }: Translator, options: ValidationOptions = {}): TaskFormErrors {
+  const errors: TaskFormErrors = {};
+
+  if (!data.title.trim()) {
+    errors.title = t("validation.titleRequired");
+  } else if (data.title.trim().length < MIN_TITLE_LENGTH) {
+    errors.title = t("validation.titleTooShort", { min: MIN_TITLE_LENGTH });
+  }
+
+  // Jours comparés au format "AAAA-MM-JJ" : la saisie est un jour du calendrier, aujourd'hui dépend du fuseau local
+  if (data.dueDate && data.dueDate !== options.previousDueDate) {
+    const now = new Date();
+    if (data.dueDate < todayKey(now)) {
+      errors.dueDate = t("validation.duePast", { today: formatDate(now) });
+    }
+  }
+
+  if (data.dueTime && !data.dueDate && !data.recurrence) {
+    errors.dueTime = t("validation.timeWithoutDate");
+  }
+  if (data.reminderOffset !== undefined && !data.dueDate && !data.recurrence) {
+    errors.reminderOffset = t("validation.reminderWithoutDate");
+  }
+
+  if (data.estimate?.trim() && parseDuration(data.estimate) === null) {
+    errors.estimate = t("validation.estimateInvalid");
+  }
+
+  const { recurrence } = data;
+  if (recurrence) {
+    if (!Number.isInteger(recurrence.interval) || recurrence.interval < 1) {
+      errors.recurrence = t("validation.intervalInvalid");
+    } else if (recurrence.count !== undefined && (!Number.isInteger(recurrence.count) || recurrence.count < 1)) {
+      errors.recurrence = t("validation.countInvalid");
+    } else if (recurrence.until && data.dueDate && dayKeyOf(recurrence.until) < data.dueDate) {
+      errors.recurrence = t("validation.untilBeforeDue", {
+        until: formatDate(recurrence.until, { timeZone: "UTC" }),
+        due: formatDate(dayKeyToDate(data.dueDate), { timeZone: "UTC" })
+      });
+    }
+  }
+
+  return errors;
+}
+
+// Valeur attendue par <input type="date"> (les dates sont saisies puis relues en UTC)
+export function toDateInputValue(date?: Date): string {
+  return date ? date.toISOString().slice(0, 10) : "";
+}
@@ -1,6 +1,41 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import { createHash } from 'node:crypto'
+import { readFileSync, readdirSync } from 'node:fs'
+import { join } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Service worker généré au build : précache de tous les fichiers produits et de ceux de public/,
+// avec une empreinte qui change à chaque build différent (et déclenche la proposition de mise à jour)
+function serviceWorker(): Plugin {
+  let publicDir = ''
+
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir
+    },
+    generateBundle(_, bundle) {
+      const publicFiles = publicDir ? readdirSync(publicDir) : []
+      const files = [...new Set(['./', 'index.html', ...Object.keys(bundle), ...publicFiles])].sort()
+
+      const hash = createHash('sha256').update(files.join('\n'))
+      publicFiles.forEach(file => hash.update(readFileSync(join(publicDir, file))))
+
+      const template = readFileSync(new URL('./src/pwa/service-worker.js', import.meta.url), 'utf-8')
+      this.emitFile({
+        type: 'asset',
+        fileName: 'service-worker.js',
+        source: template
+          .replace('__BUILD_ID__', hash.digest('hex').slice(0, 12))
+          .replace('__PRECACHE__', JSON.stringify(files)),
+      })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [
@@ -9,5 +44,11 @@ export default defineConfig({
         plugins: [['babel-plugin-react-compiler']],
       },
     }),
+    serviceWorker(),
   ],
+  // Tests : composants rendus dans jsdom, le serveur de synchronisation sous Node (voir l'en-tête de son test)
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./src/test/setup.ts'],
+  },
 })